@@ -0,0 +1,58 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ListChecks } from 'lucide-react';
+import type { ActionItem } from '@/hooks/useActionItems';
+
+interface ActionPlanChecklistProps {
+  items: ActionItem[];
+  onToggle: (id: string, done: boolean) => void;
+}
+
+const isOverdue = (item: ActionItem) =>
+  item.status === 'open' && !!item.deadline && item.deadline < new Date().toISOString().slice(0, 10);
+
+export default function ActionPlanChecklist({ items, onToggle }: ActionPlanChecklistProps) {
+  const openCount = items.filter((item) => item.status === 'open').length;
+
+  return (
+    <Card className="shadow-soft border-secondary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ListChecks className="h-5 w-5 text-secondary" />
+          Action Plan
+        </CardTitle>
+        <CardDescription>
+          {openCount > 0 ? `${openCount} open commitment${openCount > 1 ? 's' : ''} from your coaching sessions` : 'All commitments done'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-3">
+          {items.map((item) => (
+            <li key={item.id} className="flex items-start gap-3">
+              <Checkbox
+                id={`action-${item.id}`}
+                checked={item.status === 'done'}
+                onCheckedChange={(checked) => onToggle(item.id, checked === true)}
+                className="mt-0.5"
+              />
+              <label htmlFor={`action-${item.id}`} className="flex-1 space-y-1 cursor-pointer">
+                <p className={`text-sm ${item.status === 'done' ? 'line-through text-muted-foreground' : ''}`}>
+                  {item.task}
+                </p>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  {item.deadline && (
+                    <Badge variant={isOverdue(item) ? 'destructive' : 'outline'}>
+                      {isOverdue(item) ? 'Overdue' : 'By'} {new Date(`${item.deadline}T00:00:00`).toLocaleDateString()}
+                    </Badge>
+                  )}
+                  {item.metric && <span>Metric: {item.metric}</span>}
+                </div>
+              </label>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,115 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ArrowDownRight, ArrowUpRight, ChevronDown, Minus, TrendingUp } from 'lucide-react';
+import type { StressForecast } from '@/hooks/useStressForecast';
+
+interface BurnoutForecastProps {
+  title: string;
+  data: StressForecast | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const RISK_BADGES = {
+  low: { label: 'Low risk', variant: 'secondary' },
+  elevated: { label: 'Elevated risk', variant: 'default' },
+  high: { label: 'High risk', variant: 'destructive' },
+} as const;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export default function BurnoutForecast({ title, data, loading, error }: BurnoutForecastProps) {
+  const forecast = data?.forecast;
+  const backtest = data?.backtest;
+
+  return (
+    <Card className="bg-gradient-to-r from-purple-500/10 to-blue-500/10 border-purple-500/30">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start gap-3">
+          <TrendingUp className="h-5 w-5 text-purple-500 mt-0.5" />
+          <div className="flex-1 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="font-semibold text-sm">{title}</p>
+              {forecast?.riskLevel && (
+                <Badge variant={RISK_BADGES[forecast.riskLevel].variant} className="text-[10px]">
+                  {RISK_BADGES[forecast.riskLevel].label}
+                </Badge>
+              )}
+            </div>
+
+            {loading && !data && <p className="text-sm text-muted-foreground">Computing forecast...</p>}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {forecast?.status === 'insufficient_data' && (
+              <p className="text-sm text-muted-foreground">
+                Not enough history yet: {forecast.observedDays} day{forecast.observedDays === 1 ? '' : 's'} with usable scans in the last 6 months (at least 10 needed).
+              </p>
+            )}
+
+            {forecast?.status === 'ok' && forecast.probability !== null && (
+              <>
+                <p className="text-sm">
+                  <span className="text-2xl font-bold">{percent(forecast.probability)}</span>{' '}
+                  chance of sustained high stress over the next {forecast.horizonDays} days
+                  {forecast.probabilityInterval && (
+                    <span className="text-muted-foreground">
+                      {' '}(90% CI {percent(forecast.probabilityInterval.low)}–{percent(forecast.probabilityInterval.high)})
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Expected high-stress share: {forecast.expectedHighPercent}%
+                  {forecast.expectedInterval && ` (80% range ${forecast.expectedInterval.low}–${forecast.expectedInterval.high}%)`}
+                  {' '}• Sustained means averaging {forecast.thresholdPercent}% or more • Based on {forecast.observedDays} days with scans
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+
+        {forecast?.status === 'ok' && forecast.drivers.length > 0 && (
+          <ul className="space-y-1 text-xs">
+            {forecast.drivers.map((driver) => (
+              <li key={driver.factor} className="flex items-start gap-2">
+                {driver.direction === 'raises' ? (
+                  <ArrowUpRight className="h-3.5 w-3.5 text-red-500 shrink-0" />
+                ) : driver.direction === 'lowers' ? (
+                  <ArrowDownRight className="h-3.5 w-3.5 text-green-500 shrink-0" />
+                ) : (
+                  <Minus className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                )}
+                <span className="text-muted-foreground">{driver.text}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {backtest && forecast?.status === 'ok' && (
+          <Collapsible>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+                <ChevronDown className="mr-1 h-3 w-3" />
+                Backtest report
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="mt-2 p-3 bg-muted/30 rounded-lg text-xs text-muted-foreground space-y-1">
+              {backtest.origins === 0 ? (
+                <p>Not enough history to backtest yet: each check needs a past forecast plus the {forecast.horizonDays} days that followed it.</p>
+              ) : (
+                <>
+                  <p>Refitted at {backtest.origins} weekly points in the past and compared with what happened next ({backtest.events} with sustained high stress).</p>
+                  <p>• Brier score: {backtest.brier} (always guessing the base rate: {backtest.baselineBrier}; lower is better)</p>
+                  {backtest.skill !== null && <p>• Skill versus base rate: {backtest.skill > 0 ? '+' : ''}{Math.round(backtest.skill * 100)}%</p>}
+                  <p>• Mean error of the expected high-stress share: {backtest.maePoints} points</p>
+                  {backtest.intervalCoverage !== null && <p>• Outcomes inside the 80% range: {percent(backtest.intervalCoverage)}</p>}
+                </>
+              )}
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
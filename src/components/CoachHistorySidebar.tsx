@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Check, Pencil, Plus, Search, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCoachConversations, type CoachConversationSummary } from '@/hooks/useCoachConversations';
+
+interface CoachHistorySidebarProps {
+  activeId: string | null;
+  // Bumped by the parent when a conversation is created or receives new turns
+  version: number;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+}
+
+const STRESS_BADGES: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  low: 'secondary',
+  moderate: 'default',
+  high: 'destructive',
+};
+
+export default function CoachHistorySidebar({ activeId, version, onSelect, onNew, onDeleted }: CoachHistorySidebarProps) {
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<CoachConversationSummary | null>(null);
+  const { conversations, loading, hasMore, refresh, loadMore, rename, remove } = useCoachConversations(debouncedSearch);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    if (version > 0) refresh();
+  }, [version, refresh]);
+
+  const saveTitle = async (id: string) => {
+    const title = draftTitle.trim().substring(0, 100);
+    setEditingId(null);
+    if (!title) return;
+
+    try {
+      await rename(id, title);
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+      toast({ title: 'Error', description: 'Could not rename the conversation', variant: 'destructive' });
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    const { id } = pendingDelete;
+    setPendingDelete(null);
+
+    try {
+      await remove(id);
+      onDeleted(id);
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+      toast({ title: 'Error', description: 'Could not delete the conversation', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 md:h-[560px]">
+      <Button onClick={onNew} variant="outline" size="sm" className="w-full">
+        <Plus className="mr-2 h-4 w-4" />
+        New conversation
+      </Button>
+
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search conversations..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-8 h-9 text-sm"
+        />
+      </div>
+
+      <div className="flex-1 max-h-60 md:max-h-none overflow-y-auto space-y-1 pr-1">
+        {conversations.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={`group rounded-md border p-2 text-sm ${
+              conversation.id === activeId ? 'bg-secondary/10 border-secondary/40' : 'hover:bg-muted/50'
+            }`}
+          >
+            {editingId === conversation.id ? (
+              <div className="flex items-center gap-1">
+                <Input
+                  autoFocus
+                  value={draftTitle}
+                  maxLength={100}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveTitle(conversation.id);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="h-7 text-xs"
+                />
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => saveTitle(conversation.id)} aria-label="Save title">
+                  <Check className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(null)} aria-label="Cancel rename">
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-start gap-1">
+                <button type="button" onClick={() => onSelect(conversation.id)} className="flex-1 text-left space-y-1 min-w-0">
+                  <p className="font-medium truncate">{conversation.title || 'Untitled conversation'}</p>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>{new Date(conversation.updated_at ?? conversation.created_at ?? '').toLocaleDateString()}</span>
+                    <Badge variant={STRESS_BADGES[conversation.stress_level] ?? 'outline'} className="text-[10px] px-1.5 py-0 capitalize">
+                      {conversation.stress_level}
+                    </Badge>
+                  </div>
+                </button>
+                <div className="flex opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => {
+                      setEditingId(conversation.id);
+                      setDraftTitle(conversation.title ?? '');
+                    }}
+                    aria-label="Rename conversation"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setPendingDelete(conversation)}
+                    aria-label="Delete conversation"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {!loading && conversations.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center py-4">
+            {debouncedSearch ? 'No conversations match your search' : 'No conversations yet'}
+          </p>
+        )}
+
+        {hasMore && (
+          <Button variant="ghost" size="sm" className="w-full text-xs" onClick={loadMore} disabled={loading}>
+            {loading ? 'Loading...' : 'Load more'}
+          </Button>
+        )}
+      </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title || 'Untitled conversation'}" and its action items will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
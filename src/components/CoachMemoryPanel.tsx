@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Brain, Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCoachMemories, type CoachMemoryKind } from '@/hooks/useCoachMemories';
+
+interface CoachMemoryPanelProps {
+  // Bumped by the parent after each coach reply, when the memory may have been updated
+  version: number;
+}
+
+const KINDS: { id: CoachMemoryKind; label: string }[] = [
+  { id: 'goal', label: 'Goals' },
+  { id: 'stressor', label: 'Recurring stressors' },
+  { id: 'helpful_intervention', label: 'What has helped' },
+  { id: 'preference', label: 'Preferences' },
+];
+
+const MAX_LENGTH = 300;
+
+export default function CoachMemoryPanel({ version }: CoachMemoryPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [newKind, setNewKind] = useState<CoachMemoryKind>('goal');
+  const [newContent, setNewContent] = useState('');
+  const { memories, loading, refresh, add, update, remove } = useCoachMemories();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (version > 0) refresh();
+  }, [version, refresh]);
+
+  const saveEdit = async (id: string) => {
+    const content = draft.trim().substring(0, MAX_LENGTH);
+    setEditingId(null);
+    if (!content) return;
+
+    try {
+      await update(id, content);
+    } catch (error) {
+      console.error('Error updating memory:', error);
+      toast({ title: 'Error', description: 'Could not update the memory', variant: 'destructive' });
+    }
+  };
+
+  const deleteMemory = async (id: string) => {
+    try {
+      await remove(id);
+    } catch (error) {
+      console.error('Error deleting memory:', error);
+      toast({ title: 'Error', description: 'Could not delete the memory', variant: 'destructive' });
+    }
+  };
+
+  const addMemory = async () => {
+    const content = newContent.trim().substring(0, MAX_LENGTH);
+    if (!content) return;
+
+    try {
+      await add(newKind, content);
+      setNewContent('');
+    } catch (error) {
+      console.error('Error adding memory:', error);
+      toast({ title: 'Error', description: 'Could not save the memory', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="shadow-soft border-secondary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Brain className="h-5 w-5 text-secondary" />
+          Coach memory
+        </CardTitle>
+        <CardDescription>
+          What NeuroCoach remembers between sessions. Edit or delete anything you don't want it to use.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {KINDS.map(({ id, label }) => {
+          const items = memories.filter((memory) => memory.kind === id);
+          if (items.length === 0) return null;
+
+          return (
+            <div key={id} className="space-y-1">
+              <p className="text-xs font-medium uppercase text-muted-foreground">{label}</p>
+              <ul className="space-y-1">
+                {items.map((memory) => (
+                  <li key={memory.id} className="group flex items-start gap-1 text-sm">
+                    {editingId === memory.id ? (
+                      <>
+                        <Input
+                          autoFocus
+                          value={draft}
+                          maxLength={MAX_LENGTH}
+                          onChange={(e) => setDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') saveEdit(memory.id);
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          className="h-7 text-xs"
+                        />
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => saveEdit(memory.id)} aria-label="Save memory">
+                          <Check className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(null)} aria-label="Cancel edit">
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <span className="flex-1 py-1">{memory.content}</span>
+                        <div className="flex opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => {
+                              setEditingId(memory.id);
+                              setDraft(memory.content);
+                            }}
+                            aria-label="Edit memory"
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => deleteMemory(memory.id)} aria-label="Delete memory">
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+
+        {!loading && memories.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Nothing yet. NeuroCoach picks up goals, stressors and what helped you as you talk.
+          </p>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={newKind} onValueChange={(value) => setNewKind(value as CoachMemoryKind)}>
+            <SelectTrigger className="sm:w-48 h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {KINDS.map(({ id, label }) => (
+                <SelectItem key={id} value={id}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Add something NeuroCoach should remember..."
+            value={newContent}
+            maxLength={MAX_LENGTH}
+            onChange={(e) => setNewContent(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addMemory()}
+            className="h-9 text-sm"
+          />
+          <Button onClick={addMemory} disabled={!newContent.trim()} size="sm" variant="outline" className="h-9">
+            <Plus className="mr-1 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { FileText, Loader2, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useComplianceReports } from '@/hooks/useComplianceReports';
+import {
+  downloadComplianceReport,
+  RISK_LEVEL_LABELS,
+  verifyComplianceReport,
+  type ArchivedComplianceReport,
+  type ComplianceRiskLevel,
+} from '@/lib/complianceReport';
+import { browserTimeZone, dateInputValue, MAX_RANGE_DAYS, resolveRange } from '@/lib/hrRange';
+
+interface ComplianceReportsProps {
+  organizationId: string;
+  organizationName: string;
+}
+
+const LEVEL_BADGES: Record<ComplianceRiskLevel, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  critical: 'destructive',
+  high: 'destructive',
+  moderate: 'default',
+  low: 'secondary',
+  not_assessed: 'outline',
+};
+
+const DEFAULT_DAYS = 90;
+
+export default function ComplianceReports({ organizationId, organizationName }: ComplianceReportsProps) {
+  const [from, setFrom] = useState(() => dateInputValue(new Date(Date.now() - (DEFAULT_DAYS - 1) * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => dateInputValue(new Date()));
+  const [generating, setGenerating] = useState(false);
+  const { reports, loading, generate } = useComplianceReports(organizationId);
+  const { toast } = useToast();
+  const range = resolveRange('custom', from, to);
+
+  const generateReport = async () => {
+    if (!range) return;
+    setGenerating(true);
+    try {
+      const archived = await generate({ from: range.from, to: range.to, timezone: browserTimeZone() });
+      toast({ title: 'Report archived', description: `SHA-256 ${archived.contentHash.slice(0, 16)}…` });
+    } catch (error) {
+      console.error('Error generating compliance report:', error);
+      toast({ title: 'Error', description: error instanceof Error ? error.message : 'Could not generate the report', variant: 'destructive' });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const verify = async (archived: ArchivedComplianceReport) => {
+    try {
+      if (await verifyComplianceReport(archived)) {
+        toast({ title: 'Integrity verified', description: 'The archived report matches its recorded hash.' });
+      } else {
+        toast({ title: 'Hash mismatch', description: 'The archived content does not match its recorded hash.', variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Error verifying compliance report:', error);
+      toast({ title: 'Error', description: 'Could not verify the report', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="shadow-soft border-primary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <FileText className="h-5 w-5 text-primary" />
+          NR-1 psychosocial risk reports
+        </CardTitle>
+        <CardDescription>
+          PGR-style risk inventory for {organizationName}: risk level per team, interventions, trend evidence and methodology.
+          Every report is archived unchanged with its SHA-256 for audit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+          <Input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className="sm:w-44 h-9" aria-label="Report from" />
+          <span className="text-muted-foreground">to</span>
+          <Input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className="sm:w-44 h-9" aria-label="Report to" />
+          <Button size="sm" className="h-9" onClick={generateReport} disabled={!range || generating}>
+            {generating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+            Generate report
+          </Button>
+        </div>
+        {!range && <p className="text-xs text-muted-foreground">Pick a period of up to {MAX_RANGE_DAYS} days</p>}
+
+        <div className="space-y-2">
+          {reports.map((archived) => (
+            <div key={archived.id} className="flex flex-col sm:flex-row sm:items-center gap-2 rounded-md border p-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">
+                  {new Date(archived.report.period.from).toLocaleDateString()} – {new Date(new Date(archived.report.period.to).getTime() - 1).toLocaleDateString()}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  Generated {new Date(archived.createdAt).toLocaleString()} • SHA-256 {archived.contentHash.slice(0, 16)}…
+                </p>
+              </div>
+              <Badge variant={LEVEL_BADGES[archived.report.summary.highestLevel]} className="w-fit text-[10px]">
+                Highest: {RISK_LEVEL_LABELS[archived.report.summary.highestLevel]}
+              </Badge>
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => downloadComplianceReport(archived, 'pdf')}>PDF</Button>
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => downloadComplianceReport(archived, 'json')}>JSON</Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => verify(archived)} aria-label="Verify integrity">
+                  <ShieldCheck className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {!loading && reports.length === 0 && (
+            <p className="text-xs text-muted-foreground text-center py-2">No reports archived yet</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,100 +1,139 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { BarChart, Download, TrendingUp, Users, AlertTriangle } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
-import { Bar } from 'react-chartjs-2';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { BarChart, Download, Users, AlertTriangle, ArrowDownRight, ArrowUpRight } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import OrganizationSetup from '@/components/OrganizationSetup';
+import OrganizationAdmin from '@/components/OrganizationAdmin';
+import StressHeatmap from '@/components/StressHeatmap';
+import BurnoutForecast from '@/components/BurnoutForecast';
+import ComplianceReports from '@/components/ComplianceReports';
+import { useOrganizations } from '@/hooks/useOrganizations';
+import { useHrAggregates, type TeamSummary } from '@/hooks/useHrAggregates';
+import { useStressForecast } from '@/hooks/useStressForecast';
+import { dashboardScopes, memberCountLabel } from '@/lib/organizations';
+import { RANGE_PRESETS, MAX_RANGE_DAYS, browserTimeZone, rangeDays, resolveRange, type RangePreset } from '@/lib/hrRange';
+import { Bar, Line } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
   CategoryScale,
   LinearScale,
   BarElement,
+  LineElement,
+  PointElement,
   Title,
   Tooltip,
   Legend
 } from 'chart.js';
 
-ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend);
-
-export default function DashboardRH() {
-  const [stats, setStats] = useState({
-    lowPercent: 0,
-    moderatePercent: 0,
-    highPercent: 0,
-    totalScans: 0,
-    avgHRV: 0,
-  });
-  const [prediction, setPrediction] = useState('');
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    loadRHData();
-  }, []);
-
-  const loadRHData = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      // Get scans from last 7 days (limit 100 for free tier)
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-      const { data: scans, error } = await supabase
-        .from('stress_scans')
-        .select('stress_level, hrv_value')
-        .eq('user_id', user.id)
-        .gte('created_at', sevenDaysAgo.toISOString())
-        .order('created_at', { ascending: false })
-        .limit(100);
-
-      if (error) throw error;
-
-      if (scans && scans.length > 0) {
-        const total = scans.length;
-        const low = scans.filter(s => s.stress_level === 'low').length;
-        const moderate = scans.filter(s => s.stress_level === 'moderate').length;
-        const high = scans.filter(s => s.stress_level === 'high').length;
-
-        const hrvValues = scans.filter(s => s.hrv_value).map(s => Number(s.hrv_value));
-        const avgHRV = hrvValues.length > 0
-          ? hrvValues.reduce((a, b) => a + b, 0) / hrvValues.length
-          : 0;
-
-        setStats({
-          lowPercent: Math.round((low / total) * 100),
-          moderatePercent: Math.round((moderate / total) * 100),
-          highPercent: Math.round((high / total) * 100),
-          totalScans: total,
-          avgHRV: Math.round(avgHRV),
-        });
-
-        // Simple prediction based on patterns
-        let predictionText = '';
-        if (stats.highPercent > 30) {
-          predictionText = `⚠️ High risk detected (${stats.highPercent}% high stress). Urgent interventions recommended.`;
-        } else if (stats.moderatePercent > 50) {
-          predictionText = `⚡ Attention: ${stats.moderatePercent}% at moderate stress. Suggest preventive breaks.`;
-        } else {
-          predictionText = `✅ Team is shining! ${stats.lowPercent}% at low stress. Continue wellness practices.`;
+ChartJS.register(CategoryScale, LinearScale, BarElement, LineElement, PointElement, Title, Tooltip, Legend);
+
+interface DashboardRHProps {
+  // Token from an invitation link (?invite=...)
+  inviteToken?: string | null;
+}
+
+const roundHRV = (summary: TeamSummary | null | undefined) =>
+  summary?.avgRmssd === null || summary?.avgRmssd === undefined ? null : Math.round(summary.avgRmssd);
+
+// Change versus the previous period; null when either side is hidden
+const delta = (current: number | null, previous: number | null) =>
+  current === null || previous === null ? null : Math.round((current - previous) * 10) / 10;
+
+const LEVEL_COLORS = {
+  low: 'rgba(34, 197, 94, 1)',
+  moderate: 'rgba(234, 179, 8, 1)',
+  high: 'rgba(239, 68, 68, 1)',
+};
+
+export default function DashboardRH({ inviteToken }: DashboardRHProps) {
+  const { memberships, teams, invitations, loading: orgLoading, refresh: refreshOrganizations, createOrganization, acceptInvitation } = useOrganizations();
+  const scopes = dashboardScopes(memberships, teams);
+  const [scopeKey, setScopeKey] = useState<string | null>(null);
+  const scope = scopes.find((s) => s.key === scopeKey) ?? scopes[0] ?? null;
+  const [preset, setPreset] = useState<RangePreset>('7');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [granularity, setGranularity] = useState<'day' | 'week'>('day');
+  // Presets are resolved once per selection so the query stays stable across renders
+  const [presetRange, setPresetRange] = useState(() => resolveRange('7', '', ''));
+  const range = preset === 'custom' ? resolveRange('custom', customFrom, customTo) : presetRange;
+  const days = range ? rangeDays(range) : 0;
+  const periodLabel = preset === 'custom' ? (range ? `${customFrom} to ${customTo}` : 'custom range') : `last ${preset} days`;
+  const timezone = browserTimeZone();
+  const { data, summary, loading: summaryLoading, error } = useHrAggregates(
+    scope && range
+      ? {
+          organizationId: scope.organizationId,
+          ...(scope.teamId ? { teamId: scope.teamId } : {}),
+          from: range.from,
+          to: range.to,
+          granularity,
+          timezone,
         }
-        setPrediction(predictionText);
-      }
-    } catch (error) {
-      console.error('Error loading HR data:', error);
-    } finally {
-      setLoading(false);
-    }
+      : null
+  );
+  // Forecasts always use the latest history, independent of the selected range
+  const teamForecast = useStressForecast(
+    scope ? { organizationId: scope.organizationId, ...(scope.teamId ? { teamId: scope.teamId } : {}), timezone } : null
+  );
+  const ownForecast = useStressForecast({ timezone });
+  const adminMembership = memberships.find((m) => m.role === 'hr_admin' && m.organizationId === scope?.organizationId);
+
+  // Cells behind fewer than k employees come back as null from hr-aggregates and are shown as "—"
+  const suppressed = !!summary?.suppressed;
+  const total = summary?.scanCount ?? 0;
+  const stats = {
+    lowPercent: summary?.percentages.low ?? null,
+    moderatePercent: summary?.percentages.moderate ?? null,
+    highPercent: summary?.percentages.high ?? null,
+    totalScans: total,
+    avgHRV: roundHRV(summary),
+  };
+  const previous = data?.previous ?? null;
+  const memberStep = data?.memberStep ?? 1;
+  const comparison = [
+    { label: 'High stress', unit: '%', current: stats.highPercent, previous: previous?.percentages.high ?? null, higherIsBetter: false },
+    { label: 'Low stress', unit: '%', current: stats.lowPercent, previous: previous?.percentages.low ?? null, higherIsBetter: true },
+    { label: 'Average HRV', unit: 'ms', current: stats.avgHRV, previous: roundHRV(previous), higherIsBetter: true },
+    { label: 'Scans', unit: '', current: summary?.scanCount ?? null, previous: previous?.scanCount ?? null, higherIsBetter: true },
+  ];
+  const series = data?.series ?? [];
+  const forecast = teamForecast.data?.forecast;
+  const loading = orgLoading || (!!scope && summaryLoading && !summary);
+  const show = (value: number | null, unit = '%') => (value === null ? '—' : `${value}${unit}`);
+  const csvValue = (value: number | null) => (value === null ? 'suppressed' : value);
+
+  const selectPreset = (value: RangePreset) => {
+    setPreset(value);
+    if (value !== 'custom') setPresetRange(resolveRange(value, '', ''));
   };
 
   const exportCSV = () => {
+    const rows = series.map(({ bucket, summary: cell }) =>
+      [bucket, csvValue(cell.percentages.low), csvValue(cell.percentages.moderate), csvValue(cell.percentages.high), csvValue(roundHRV(cell)), csvValue(cell.scanCount)].join(',')
+    );
     const csv = `Metric,Value
-Low Stress (%),${stats.lowPercent}
-Moderate Stress (%),${stats.moderatePercent}
-High Stress (%),${stats.highPercent}
+Scope,"${scope?.label ?? ''}"
+Period,"${data ? `${data.range.from} to ${data.range.to}` : ''}"
+Members,${summary ? memberCountLabel(summary.memberCount, memberStep) : ''}
+Members with scans,${summary?.reportingMembers != null ? memberCountLabel(summary.reportingMembers, memberStep) : 'hidden'}
+Low Stress (%),${csvValue(stats.lowPercent)}
+Moderate Stress (%),${csvValue(stats.moderatePercent)}
+High Stress (%),${csvValue(stats.highPercent)}
 Total Scans,${stats.totalScans}
-Average HRV (ms),${stats.avgHRV}
-Prediction,"${prediction}"`;
+Average HRV RMSSD (ms),${csvValue(stats.avgHRV)}
+Minimum group size (k),${data?.k ?? ''}
+Differential privacy epsilon,${data?.epsilon ?? 'off'}
+Sustained high stress probability (next ${forecast?.horizonDays ?? 14} days),${forecast?.probability ?? 'insufficient data'}
+Probability 90% CI,"${forecast?.probabilityInterval ? `${forecast.probabilityInterval.low}-${forecast.probabilityInterval.high}` : ''}"
+Previous period high stress (%),${csvValue(previous?.percentages.high ?? null)}
+Previous period average HRV RMSSD (ms),${csvValue(roundHRV(previous))}
+
+${granularity === 'week' ? 'Week' : 'Day'},Low Stress (%),Moderate Stress (%),High Stress (%),Average HRV RMSSD (ms),Scans
+${rows.join('\n')}`;
 
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
@@ -125,6 +164,31 @@ Prediction,"${prediction}"`;
     ],
   };
 
+  // Hidden buckets stay null so the lines break instead of dropping to zero
+  const seriesLabels = series.map(({ bucket }) => bucket);
+  const trendData = {
+    labels: seriesLabels,
+    datasets: (['low', 'moderate', 'high'] as const).map((level) => ({
+      label: level === 'low' ? 'Low' : level === 'moderate' ? 'Moderate' : 'High',
+      data: series.map(({ summary: cell }) => cell.percentages[level]),
+      borderColor: LEVEL_COLORS[level],
+      backgroundColor: LEVEL_COLORS[level],
+      tension: 0.3,
+    })),
+  };
+  const hrvData = {
+    labels: seriesLabels,
+    datasets: [
+      {
+        label: 'Average HRV (RMSSD)',
+        data: series.map(({ summary: cell }) => roundHRV(cell)),
+        borderColor: 'rgba(59, 130, 246, 1)',
+        backgroundColor: 'rgba(59, 130, 246, 0.6)',
+        tension: 0.3,
+      },
+    ],
+  };
+
   if (loading) {
     return (
       <Card>
@@ -136,40 +200,126 @@ Prediction,"${prediction}"`;
     );
   }
 
+  const setup = (
+    <OrganizationSetup
+      invitations={invitations}
+      inviteToken={inviteToken}
+      hasMemberships={memberships.length > 0}
+      onAccept={acceptInvitation}
+      onCreate={createOrganization}
+    />
+  );
+
+  // Employees (and users outside any organization) have no team view
+  if (!scope) {
+    return (
+      <div className="space-y-6">
+        <BurnoutForecast title="Your 2-week outlook (only visible to you)" data={ownForecast.data} loading={ownForecast.loading} error={ownForecast.error} />
+        {memberships.length > 0 && (
+          <Card className="shadow-soft border-primary/20">
+            <CardContent className="p-6 text-center text-sm text-muted-foreground">
+              Team well-being data is available to your team manager and HR admins. Your individual scans are never shared with them.
+            </CardContent>
+          </Card>
+        )}
+        {setup}
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
+      {invitations.length > 0 && setup}
+
       <Card className="shadow-soft border-primary/20">
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <BarChart className="h-5 w-5 text-primary" />
-            HR Dashboard - Well-Being Analysis (7 days)
+            HR Dashboard - Well-Being Analysis ({periodLabel})
           </CardTitle>
           <CardDescription>
-            Aggregated anonymous data with RLS active • Limit 100 scans (free tier)
+            Aggregated anonymous data for {memberCountLabel(summary?.memberCount ?? 0, memberStep)} members • Groups under {data?.k ?? 5} people are hidden
+            {summary?.noised && ' • Values include privacy noise'}
           </CardDescription>
-          <Button onClick={exportCSV} variant="outline" size="sm" className="mt-3">
-            <Download className="mr-2 h-4 w-4" />
-            Export CSV
-          </Button>
+          <div className="flex flex-col sm:flex-row gap-2 mt-3">
+            <Select value={scope.key} onValueChange={setScopeKey}>
+              <SelectTrigger className="sm:w-72 h-9 text-sm" aria-label="Team">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scopes.map((s) => (
+                  <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={preset} onValueChange={(value) => selectPreset(value as RangePreset)}>
+              <SelectTrigger className="sm:w-44 h-9 text-sm" aria-label="Period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_PRESETS.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={granularity}
+              onValueChange={(value) => value && setGranularity(value as 'day' | 'week')}
+              aria-label="Trend granularity"
+            >
+              <ToggleGroupItem value="day" className="h-9 text-xs">Daily</ToggleGroupItem>
+              <ToggleGroupItem value="week" className="h-9 text-xs">Weekly</ToggleGroupItem>
+            </ToggleGroup>
+            <Button onClick={exportCSV} variant="outline" size="sm" className="h-9" disabled={total === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+          {preset === 'custom' && (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 mt-2 text-sm">
+              <Input type="date" value={customFrom} max={customTo || undefined} onChange={(e) => setCustomFrom(e.target.value)} className="sm:w-44 h-9" aria-label="From" />
+              <span className="text-muted-foreground">to</span>
+              <Input type="date" value={customTo} min={customFrom || undefined} onChange={(e) => setCustomTo(e.target.value)} className="sm:w-44 h-9" aria-label="To" />
+              {!range && (customFrom || customTo) && (
+                <span className="text-xs text-muted-foreground">Pick a range of up to {MAX_RANGE_DAYS} days</span>
+              )}
+            </div>
+          )}
         </CardHeader>
         <CardContent className="space-y-6">
+          {error && (
+            <div className="p-3 bg-destructive/10 rounded-lg border border-destructive/20 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {suppressed && (
+            <div className="flex items-start gap-2 p-3 bg-muted/50 rounded-lg border text-sm text-muted-foreground">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              Fewer than {data?.k} members of this team scanned in this period. Results stay hidden so no one can be identified.
+            </div>
+          )}
+
           {/* Statistics */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-3 md:gap-4">
             <div className="p-4 bg-green-500/10 rounded-lg border border-green-500/20">
               <p className="text-xs text-muted-foreground mb-1">Low Stress</p>
-              <p className="text-3xl font-bold text-green-500">{stats.lowPercent}%</p>
+              <p className="text-3xl font-bold text-green-500">{show(stats.lowPercent)}</p>
             </div>
             <div className="p-4 bg-yellow-500/10 rounded-lg border border-yellow-500/20">
               <p className="text-xs text-muted-foreground mb-1">Moderate</p>
-              <p className="text-3xl font-bold text-yellow-500">{stats.moderatePercent}%</p>
+              <p className="text-3xl font-bold text-yellow-500">{show(stats.moderatePercent)}</p>
             </div>
             <div className="p-4 bg-red-500/10 rounded-lg border border-red-500/20">
               <p className="text-xs text-muted-foreground mb-1">High Stress</p>
-              <p className="text-3xl font-bold text-red-500">{stats.highPercent}%</p>
+              <p className="text-3xl font-bold text-red-500">{show(stats.highPercent)}</p>
             </div>
             <div className="p-4 bg-blue-500/10 rounded-lg border border-blue-500/20">
-              <p className="text-xs text-muted-foreground mb-1">Average HRV</p>
-              <p className="text-3xl font-bold text-blue-500">{stats.avgHRV}<span className="text-sm">ms</span></p>
+              <p className="text-xs text-muted-foreground mb-1">Average HRV (RMSSD)</p>
+              <p className="text-3xl font-bold text-blue-500">{show(stats.avgHRV, '')}{stats.avgHRV !== null && <span className="text-sm">ms</span>}</p>
             </div>
           </div>
 
@@ -199,18 +349,75 @@ Prediction,"${prediction}"`;
             />
           </div>
 
-          {/* Prediction */}
-          <Card className="bg-gradient-to-r from-purple-500/10 to-blue-500/10 border-purple-500/30">
-            <CardContent className="p-4">
-              <div className="flex items-start gap-3">
-                <TrendingUp className="h-5 w-5 text-purple-500 mt-0.5" />
-                <div>
-                  <p className="font-semibold text-sm mb-1">Predictive Analysis (AI):</p>
-                  <p className="text-sm text-muted-foreground">{prediction}</p>
-                </div>
+          {/* Period comparison */}
+          <div>
+            <p className="text-sm font-semibold mb-2">Compared with the previous {days} days</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-3">
+              {comparison.map((metric) => {
+                const change = delta(metric.current, metric.previous);
+                const better = change !== null && change !== 0 && (change > 0) === metric.higherIsBetter;
+                return (
+                  <div key={metric.label} className="p-3 bg-muted/30 rounded-lg border text-xs">
+                    <p className="text-muted-foreground mb-1">{metric.label}</p>
+                    <p className="text-lg font-semibold">{show(metric.current, metric.unit)}</p>
+                    <p className="text-muted-foreground">Before: {show(metric.previous, metric.unit)}</p>
+                    {change !== null && change !== 0 && (
+                      <p className={`flex items-center gap-0.5 ${better ? 'text-green-500' : 'text-red-500'}`}>
+                        {change > 0 ? <ArrowUpRight className="h-3 w-3" /> : <ArrowDownRight className="h-3 w-3" />}
+                        {change > 0 ? '+' : ''}{change}{metric.unit === '%' ? ' pts' : metric.unit}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Trends */}
+          {series.length > 1 && (
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="bg-muted/30 p-4 rounded-lg">
+                <Line
+                  data={trendData}
+                  options={{
+                    responsive: true,
+                    spanGaps: false,
+                    plugins: {
+                      title: { display: true, text: `Stress Levels per ${granularity === 'week' ? 'Week' : 'Day'}` },
+                    },
+                    scales: {
+                      y: { beginAtZero: true, max: 100, ticks: { callback: (value) => value + '%' } },
+                    },
+                  }}
+                />
               </div>
-            </CardContent>
-          </Card>
+              <div className="bg-muted/30 p-4 rounded-lg">
+                <Line
+                  data={hrvData}
+                  options={{
+                    responsive: true,
+                    spanGaps: false,
+                    plugins: {
+                      legend: { display: false },
+                      title: { display: true, text: 'Average HRV (RMSSD, ms)' },
+                    },
+                    scales: { y: { beginAtZero: true } },
+                  }}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Weekday x hour heatmap */}
+          {(data?.heatmap.length ?? 0) > 0 && (
+            <div className="bg-muted/30 p-4 rounded-lg">
+              <p className="text-sm font-semibold mb-2">When stress peaks (weekday × hour, your time zone)</p>
+              <StressHeatmap cells={data?.heatmap ?? []} k={data?.k ?? 5} />
+            </div>
+          )}
+
+          {/* Burnout-risk forecast */}
+          <BurnoutForecast title={`Burnout-risk forecast • ${scope.label}`} data={teamForecast.data} loading={teamForecast.loading} error={teamForecast.error} />
 
           {/* Feedback Survey */}
           <Card className="bg-gradient-to-r from-green-500/10 to-teal-500/10 border-green-500/30">
@@ -236,12 +443,35 @@ Prediction,"${prediction}"`;
 
           {/* Metrics */}
           <div className="p-3 bg-muted/30 rounded-lg text-xs text-muted-foreground">
-            <p className="font-semibold mb-1">Metrics (last 7 days):</p>
+            <p className="font-semibold mb-1">Metrics ({periodLabel}):</p>
+            <p>• Members with scans: {summary?.reportingMembers != null ? memberCountLabel(summary.reportingMembers, memberStep) : `fewer than ${data?.k}`} of {memberCountLabel(summary?.memberCount ?? 0, memberStep)}</p>
             <p>• Total scans: {stats.totalScans}</p>
-            <p>• Average HRV: {stats.avgHRV}ms {stats.avgHRV > 50 ? '(Good resilience)' : stats.avgHRV > 30 ? '(Normal)' : '(Attention needed)'}</p>
+            {stats.avgHRV !== null && (
+              <p>• Average HRV (RMSSD): {stats.avgHRV}ms {stats.avgHRV > 50 ? '(Good resilience)' : stats.avgHRV > 30 ? '(Normal)' : '(Attention needed)'}</p>
+            )}
           </div>
         </CardContent>
       </Card>
+
+      <BurnoutForecast title="Your 2-week outlook (only visible to you)" data={ownForecast.data} loading={ownForecast.loading} error={ownForecast.error} />
+
+      {adminMembership && (
+        <ComplianceReports
+          key={`reports-${adminMembership.organizationId}`}
+          organizationId={adminMembership.organizationId}
+          organizationName={adminMembership.organizationName}
+        />
+      )}
+
+      {adminMembership && (
+        <OrganizationAdmin
+          key={adminMembership.organizationId}
+          organizationId={adminMembership.organizationId}
+          organizationName={adminMembership.organizationName}
+          teams={teams}
+          onTeamsChange={refreshOrganizations}
+        />
+      )}
     </div>
   );
 }
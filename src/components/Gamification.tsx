@@ -151,6 +151,7 @@ export default function Gamification({ stressLevel, hrvValue }: GamificationProp
           .from('stress_scans')
           .select('stress_level')
           .eq('user_id', user.id)
+          .eq('is_valid', true)
           .order('created_at', { ascending: false })
           .limit(3);
 
@@ -1,128 +1,84 @@
 import { useEffect, useRef, useState } from 'react';
 import { Heart } from 'lucide-react';
+import { analyzeRegions, createPulseDetectorState, stepPulseDetector, type RGBSample, type RppgMetrics } from '@/lib/signal/rppg';
+import { sampleRegions, type RegionName } from '@/lib/signal/roi';
+import type { FaceLandmarks } from '@/lib/signal/blink';
 
 interface HRVMonitorProps {
   videoRef: React.RefObject<HTMLVideoElement>;
   canvasRef: React.RefObject<HTMLCanvasElement>;
+  landmarksRef: React.RefObject<FaceLandmarks | null>;
   isScanning: boolean;
-  onHRVDetected: (hrv: number, heartRate: number) => void;
+  onHRVDetected: (metrics: RppgMetrics) => void;
 }
 
-export default function HRVMonitor({ videoRef, canvasRef, isScanning, onHRVDetected }: HRVMonitorProps) {
+// Re-run the full HRV analysis at most once per second
+const ANALYSIS_INTERVAL_MS = 1000;
+// Frames are downscaled before sampling; regions still cover hundreds of pixels
+const FRAME_WIDTH = 160;
+
+export default function HRVMonitor({ videoRef, canvasRef, landmarksRef, isScanning, onHRVDetected }: HRVMonitorProps) {
   const [heartRate, setHeartRate] = useState<number>(0);
   const [hrv, setHRV] = useState<number>(0);
+  const [signalQuality, setSignalQuality] = useState<number | null>(null);
   const [isPulsing, setIsPulsing] = useState(false);
-  const rrIntervalsRef = useRef<number[]>([]);
-  const lastPeakTimeRef = useRef<number>(0);
-  const greenValuesRef = useRef<number[]>([]);
+  const pulseStateRef = useRef(createPulseDetectorState());
+  const regionTracesRef = useRef<Partial<Record<RegionName, RGBSample[]>>>({});
+  const lastAnalysisRef = useRef<number>(0);
   const scanStartRef = useRef<number>(0);
 
-  // Optimized rPPG: Robust capture even with movement
-  const extractGreenChannel = () => {
+  // Face-tracked rPPG: sample forehead and cheeks from the shared landmarks
+  const extractRegions = () => {
     if (!videoRef.current || !canvasRef.current || !isScanning) return;
 
     const video = videoRef.current;
     const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    const landmarks = landmarksRef.current;
 
-    if (!ctx || video.readyState !== 4) return;
+    if (!ctx || video.readyState !== 4 || !landmarks || !video.videoWidth) return;
 
-    // Region of interest: forehead and cheeks (better coverage for angles)
-    const width = 80;
-    const height = 80;
+    const width = FRAME_WIDTH;
+    const height = Math.round((video.videoHeight / video.videoWidth) * width);
     canvas.width = width;
     canvas.height = height;
 
-    // Capture multiple regions for robustness
     try {
-      ctx.drawImage(
-        video,
-        video.videoWidth / 2 - width / 2,
-        video.videoHeight / 4,
-        width,
-        height,
-        0,
-        0,
-        width,
-        height
-      );
-
+      ctx.drawImage(video, 0, 0, width, height);
       const imageData = ctx.getImageData(0, 0, width, height);
-      const pixels = imageData.data;
-
-      // Extract green channel average with noise filter
-      let greenSum = 0;
-      let validPixels = 0;
-      for (let i = 0; i < pixels.length; i += 4) {
-        const r = pixels[i];
-        const g = pixels[i + 1];
-        const b = pixels[i + 2];
-
-        // Filter skin pixels (simple heuristic)
-        if (r > 60 && g > 40 && b > 20 && r > g && r > b) {
-          greenSum += g;
-          validPixels++;
+      const regions = sampleRegions(imageData, landmarks);
+
+      const now = Date.now();
+      Object.entries(regions).forEach(([name, mean]) => {
+        const trace = regionTracesRef.current[name as RegionName] ?? [];
+        trace.push({ t: now, r: mean.r, g: mean.g, b: mean.b });
+        regionTracesRef.current[name as RegionName] = trace;
+      });
+
+      // Live beat indicator from the forehead green channel
+      if (regions.forehead) {
+        const { state, peak } = stepPulseDetector(pulseStateRef.current, regions.forehead.g, now);
+        pulseStateRef.current = state;
+        if (peak) {
+          setIsPulsing(true);
+          setTimeout(() => setIsPulsing(false), 150);
         }
       }
-      
-      if (validPixels === 0) return;
-      
-      const avgGreen = greenSum / validPixels;
-      greenValuesRef.current.push(avgGreen);
-
-      // Manter janela de 15 segundos (30 FPS = 450 samples) para maior estabilidade
-      if (greenValuesRef.current.length > 450) {
-        greenValuesRef.current.shift();
-      }
 
-      // Detectar picos com algoritmo mais robusto
-      if (greenValuesRef.current.length > 30) {
-        const recentValues = greenValuesRef.current.slice(-30);
-        const avg = recentValues.reduce((a, b) => a + b, 0) / recentValues.length;
-        const stdDev = Math.sqrt(
-          recentValues.reduce((sum, val) => sum + Math.pow(val - avg, 2), 0) / recentValues.length
-        );
-        const threshold = avg + stdDev * 0.5; // Threshold adaptativo
-
-        if (avgGreen > threshold && !isPulsing) {
-          const now = Date.now();
-          if (lastPeakTimeRef.current > 0) {
-            const rrInterval = now - lastPeakTimeRef.current;
-            
-            // Filter physiologically plausible RR intervals (40-200 bpm)
-            if (rrInterval >= 300 && rrInterval <= 1500) {
-              rrIntervalsRef.current.push(rrInterval);
-
-              // Keep last 30 RR intervals for more accurate HRV
-              if (rrIntervalsRef.current.length > 30) {
-                rrIntervalsRef.current.shift();
-              }
-
-              // Calculate HR and HRV with sufficient data
-              if (rrIntervalsRef.current.length >= 10) {
-                const avgRR = rrIntervalsRef.current.reduce((a, b) => a + b, 0) / rrIntervalsRef.current.length;
-                const currentHR = Math.round(60000 / avgRR);
-
-                // SDNN (standard deviation of RR intervals) as HRV metric
-                const variance = rrIntervalsRef.current.reduce((sum, rr) => {
-                  return sum + Math.pow(rr - avgRR, 2);
-                }, 0) / rrIntervalsRef.current.length;
-                const currentHRV = Math.round(Math.sqrt(variance));
-
-                setHeartRate(currentHR);
-                setHRV(currentHRV);
-
-                // Notify parent component after 25s of data (faster)
-                const elapsed = (Date.now() - scanStartRef.current) / 1000;
-                if (elapsed >= 25 && rrIntervalsRef.current.length >= 15) {
-                  onHRVDetected(currentHRV, currentHR);
-                }
-              }
-            }
-          }
-          lastPeakTimeRef.current = now;
-          setIsPulsing(true);
-          setTimeout(() => setIsPulsing(false), 150);
+      if (now - lastAnalysisRef.current < ANALYSIS_INTERVAL_MS) return;
+      lastAnalysisRef.current = now;
+
+      // POS fusion of all regions, then filtered, artifact-rejected HR and HRV
+      const metrics = analyzeRegions(regionTracesRef.current);
+      if (metrics) {
+        setHeartRate(metrics.heartRate);
+        setHRV(metrics.rmssd);
+        setSignalQuality(metrics.signalQuality);
+
+        // Notify parent component after 25s of data (faster)
+        const elapsed = (now - scanStartRef.current) / 1000;
+        if (elapsed >= 25 && metrics.beats >= 15) {
+          onHRVDetected(metrics);
         }
       }
     } catch (error) {
@@ -133,17 +89,22 @@ export default function HRVMonitor({ videoRef, canvasRef, isScanning, onHRVDetec
   useEffect(() => {
     if (isScanning) {
       scanStartRef.current = Date.now();
-      rrIntervalsRef.current = [];
-      greenValuesRef.current = [];
-      lastPeakTimeRef.current = 0;
+      pulseStateRef.current = createPulseDetectorState();
+      regionTracesRef.current = {};
+      lastAnalysisRef.current = 0;
+      setSignalQuality(null);
 
-      const interval = setInterval(extractGreenChannel, 33); // ~30 FPS
+      const interval = setInterval(extractRegions, 33); // ~30 FPS
       return () => clearInterval(interval);
     }
   }, [isScanning]);
 
   if (!isScanning) return null;
 
+  const qualityLabel = signalQuality === null
+    ? 'measuring...'
+    : `${Math.round(signalQuality * 100)}%${signalQuality < 0.3 ? ' (hold still, improve lighting)' : ''}`;
+
   return (
     <div className="flex items-center gap-3 p-3 bg-gradient-to-r from-red-500/10 to-pink-500/10 rounded-lg border border-red-500/20">
       <div className={`transition-transform ${isPulsing ? 'scale-110' : 'scale-100'}`}>
@@ -155,10 +116,10 @@ export default function HRVMonitor({ videoRef, canvasRef, isScanning, onHRVDetec
           <span className="text-xs text-muted-foreground">bpm</span>
           <span className="text-sm text-muted-foreground mx-2">•</span>
           <span className="text-lg font-semibold text-pink-500">{hrv}</span>
-          <span className="text-xs text-muted-foreground">ms HRV</span>
+          <span className="text-xs text-muted-foreground">ms RMSSD</span>
         </div>
         <p className="text-xs text-muted-foreground">
-          Monitoring via rPPG (MIT) • Look at camera
+          rPPG (POS) on forehead + cheeks • Signal quality: {qualityLabel}
         </p>
       </div>
     </div>
@@ -10,6 +10,7 @@ import {
   TrendingUp, Brain, Target, Zap, RefreshCw, Send,
   CheckCircle2, XCircle, Loader2, Calendar, ExternalLink
 } from 'lucide-react';
+import Markdown from '@/components/Markdown';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 
@@ -324,11 +325,12 @@ Give constructive NLP-based feedback: what went well, what to improve, and a pos
 
       const { data, error } = await supabase.functions.invoke('neuro-coach', {
         body: {
-          messages: [{ role: 'user', content: prompt }],
-          stressLevel: overload.level,
+          message: prompt,
+          // Meeting overload mapped onto the coach stress levels
+          stressLevel: overload.level === 'critical' ? 'high' : overload.level === 'healthy' ? 'low' : overload.level,
           context: `Integrations: ${connectedCount} connected. Meeting time today: ${totalMeetingTime}min.`,
-          userName: '',
-          communicationTone: 'casual',
+          persona: 'supportive',
+          ephemeral: true,
         },
       });
 
@@ -667,7 +669,7 @@ Give constructive NLP-based feedback: what went well, what to improve, and a pos
                       <Brain className="h-4 w-4 text-primary" />
                       NeuroCoach says:
                     </h4>
-                    <p className="text-sm whitespace-pre-wrap leading-relaxed">{aiResponse}</p>
+                    <Markdown content={aiResponse} className="text-sm leading-relaxed" />
                   </div>
                 )}
               </div>
@@ -0,0 +1,61 @@
+import { Fragment } from 'react';
+import { parseMarkdown, type MarkdownInline } from '@/lib/markdown';
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+const renderInline = (nodes: MarkdownInline[]) =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'strong':
+        return <strong key={index} className="font-semibold">{node.text}</strong>;
+      case 'em':
+        return <em key={index}>{node.text}</em>;
+      case 'code':
+        return <code key={index} className="rounded bg-muted px-1 py-0.5 text-[0.9em]">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2">
+            {node.text}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
+      default:
+        return <Fragment key={index}>{node.text}</Fragment>;
+    }
+  });
+
+const HEADING_CLASSES = {
+  1: 'text-base font-bold',
+  2: 'text-sm font-bold',
+  3: 'text-sm font-semibold',
+};
+
+// Shared renderer for coach replies and vision reports; markdown is mapped to elements, never to raw HTML
+export default function Markdown({ content, className = '' }: MarkdownProps) {
+  const blocks = parseMarkdown(content);
+
+  return (
+    <div className={`space-y-2 break-words ${className}`}>
+      {blocks.map((block, index) => {
+        if (block.type === 'heading') {
+          return <p key={index} className={HEADING_CLASSES[block.level]}>{renderInline(block.children)}</p>;
+        }
+        if (block.type === 'list') {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={index} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1`}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>{renderInline(item)}</li>
+              ))}
+            </ListTag>
+          );
+        }
+        return <p key={index}>{renderInline(block.children)}</p>;
+      })}
+    </div>
+  );
+}
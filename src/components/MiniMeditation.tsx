@@ -1,18 +1,43 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Play, Pause, Volume2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
 
 interface MiniMeditationProps {
   trigger: boolean; // Activates when HRV < 30
 }
 
+const SESSION_SECONDS = 180;
+// Shorter sessions are not recorded
+const MIN_RECORDED_SECONDS = 10;
+
+// Sessions feed the interventions section of the NR-1 report (only as team aggregates)
+const recordSession = async (startedAt: Date, seconds: number) => {
+  try {
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError) throw userError;
+    if (!user) return;
+
+    const { error } = await supabase.from('meditation_sessions').insert({
+      user_id: user.id,
+      started_at: startedAt.toISOString(),
+      duration_seconds: Math.min(seconds, 3600),
+      completed: seconds >= SESSION_SECONDS - 1,
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error recording meditation session:', error);
+  }
+};
+
 export default function MiniMeditation({ trigger }: MiniMeditationProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentPhase, setCurrentPhase] = useState<'inhale' | 'hold' | 'exhale'>('inhale');
   const [countdown, setCountdown] = useState(4);
-  const [timeRemaining, setTimeRemaining] = useState(180); // 3 minutes
+  const [timeRemaining, setTimeRemaining] = useState(SESSION_SECONDS); // 3 minutes
   const synth = window.speechSynthesis;
+  const startedAt = useRef<Date | null>(null);
 
   useEffect(() => {
     if (trigger && !isPlaying) {
@@ -20,6 +45,14 @@ export default function MiniMeditation({ trigger }: MiniMeditationProps) {
     }
   }, [trigger]);
 
+  // Record the session when it ends, whether completed or paused
+  useEffect(() => {
+    if (isPlaying || !startedAt.current) return;
+    const seconds = Math.round((Date.now() - startedAt.current.getTime()) / 1000);
+    if (seconds >= MIN_RECORDED_SECONDS) recordSession(startedAt.current, seconds);
+    startedAt.current = null;
+  }, [isPlaying]);
+
   useEffect(() => {
     if (!isPlaying) return;
 
@@ -50,7 +83,7 @@ export default function MiniMeditation({ trigger }: MiniMeditationProps) {
         if (prev <= 1) {
           setIsPlaying(false);
           speak('Congratulations! You\'ve rebalanced your nervous system. Now it\'s time for high performance!');
-          return 180;
+          return SESSION_SECONDS;
         }
         return prev - 1;
       });
@@ -77,7 +110,8 @@ export default function MiniMeditation({ trigger }: MiniMeditationProps) {
       speak('Let\'s begin. Inhale deeply through your nose');
       setCurrentPhase('inhale');
       setCountdown(4);
-      setTimeRemaining(180);
+      setTimeRemaining(SESSION_SECONDS);
+      startedAt.current = new Date();
     } else {
       synth.cancel();
     }
@@ -1,34 +1,99 @@
 import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { MessageCircle, Send, Download } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { MessageCircle, Send, Download, Square } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useActionItems } from '@/hooks/useActionItems';
+import { useBiometricContext } from '@/hooks/useBiometricContext';
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
+import ActionPlanChecklist from '@/components/ActionPlanChecklist';
+import CoachHistorySidebar from '@/components/CoachHistorySidebar';
+import CoachMemoryPanel from '@/components/CoachMemoryPanel';
+import Markdown from '@/components/Markdown';
+import VoiceControls from '@/components/VoiceControls';
+import { streamCoachReply } from '@/lib/coachStream';
+import { describeBiometricContext } from '@/lib/biometricContext';
+import { downloadCoachExport, type CoachExportFormat } from '@/lib/coachExport';
+import { markdownToPlainText } from '@/lib/markdown';
+import { loadVoiceSettings, saveVoiceSettings, type VoiceSettings } from '@/lib/voice';
+import { coachMessageSchema } from '@/lib/validations';
+import { COACH_PERSONAS, isCoachPersona, type CoachPersona } from '@/lib/coachPersonas';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
+  createdAt?: string;
+}
+
+interface ConversationInfo {
+  title: string | null;
+  stressLevel: string;
 }
 
 interface NeuroCoachProps {
   stressLevel: string;
 }
 
+const initialMessageFor = (stressLevel: string) => {
+  if (stressLevel === 'low') {
+    return 'Great focus! What performance expectation do you want to elevate? NLP suggestion: Anchor a success memory to maintain high productivity.';
+  }
+  if (stressLevel === 'moderate') {
+    return 'To reduce turnover, what drains your energy? Reframe it as an opportunity (NLP) to balance well-being and performance.';
+  }
+  return 'Burnout alert (NR-1). What sensory break (4-7-8 breathing) recharges you? Let\'s create an immediate rebalancing plan.';
+};
+
 export default function NeuroCoach({ stressLevel }: NeuroCoachProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
-  const [hrvValue, setHrvValue] = useState('40');
   const [isLoading, setIsLoading] = useState(false);
   const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversationInfo, setConversationInfo] = useState<ConversationInfo | null>(null);
   const [userName, setUserName] = useState<string>('');
-  const [communicationTone, setCommunicationTone] = useState<string>('');
+  const [persona, setPersona] = useState<CoachPersona | ''>('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const initialLoadRef = useRef(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [dismissedFollowUps, setDismissedFollowUps] = useState<string[]>([]);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(loadVoiceSettings);
   const { toast } = useToast();
+  const { items: actionItems, refresh: refreshActionItems, setDone } = useActionItems();
+  // Reloaded when a new scan on the dashboard changes the stress level
+  const { context: biometrics } = useBiometricContext(stressLevel);
+  const biometricLines = biometrics ? describeBiometricContext(biometrics) : [];
+
+  // Most recent open commitment from an earlier session, asked about before the user writes
+  const followUpItem = messages.some((msg) => msg.role === 'user')
+    ? undefined
+    : actionItems.find((item) =>
+        item.status === 'open' && item.conversation_id !== conversationId && !dismissedFollowUps.includes(item.id)
+      );
 
-  // Load user name
+  const synthesis = useSpeechSynthesis();
+  // Voice messages go through sendMessage like typed ones, so they are saved the same way
+  const recognition = useSpeechRecognition({
+    lang: voiceSettings.lang,
+    onFinal: (transcript) => sendMessage(transcript),
+    onError: (message) => toast({ title: 'Voice input', description: message, variant: 'destructive' }),
+  });
+
+  const updateVoiceSettings = (settings: VoiceSettings) => {
+    setVoiceSettings(settings);
+    saveVoiceSettings(settings);
+    if (!settings.enabled) synthesis.cancel();
+  };
+
+  // Cancel an in-flight reply when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Load user name and saved persona
   useEffect(() => {
     const loadUserName = async () => {
       try {
@@ -36,12 +101,15 @@ export default function NeuroCoach({ stressLevel }: NeuroCoachProps) {
         if (user) {
           const { data: profile } = await supabase
             .from('profiles')
-            .select('preferred_name, full_name')
+            .select('preferred_name, full_name, coach_persona')
             .eq('id', user.id)
             .single();
 
           if (profile) {
             setUserName(profile.preferred_name || profile.full_name || '');
+            if (isCoachPersona(profile.coach_persona)) {
+              setPersona(profile.coach_persona);
+            }
           }
         }
       } catch (error) {
@@ -52,152 +120,214 @@ export default function NeuroCoach({ stressLevel }: NeuroCoachProps) {
     loadUserName();
   }, []);
 
-  // Load last conversation or create initial message
+  // Resume the most recent conversation once the persona is known, or start a new one
   useEffect(() => {
-    const loadOrCreateConversation = async () => {
+    const loadLatestConversation = async () => {
       try {
         const { data: { user } } = await supabase.auth.getUser();
         if (user) {
           const { data } = await supabase
             .from('coach_conversations')
-            .select('*')
+            .select('id, messages, title, stress_level')
             .eq('user_id', user.id)
-            .eq('stress_level', stressLevel)
             .order('updated_at', { ascending: false })
             .limit(1)
-            .single();
+            .maybeSingle();
 
-          if (data && data.messages && Array.isArray(data.messages)) {
+          if (data && Array.isArray(data.messages)) {
             setMessages(data.messages as unknown as Message[]);
             setConversationId(data.id);
-            return; // Found conversation, no need to create initial message
+            setConversationInfo({ title: data.title, stressLevel: data.stress_level });
+            return;
           }
         }
       } catch (error) {
         console.error('Error loading conversation:', error);
       }
 
-      // If no conversation found and no messages, create initial message
-      if (messages.length === 0) {
-        let initialMessage = '';
-
-        if (stressLevel === 'low') {
-          initialMessage = 'Great focus! What performance expectation do you want to elevate? NLP suggestion: Anchor a success memory to maintain high productivity.';
-        } else if (stressLevel === 'moderate') {
-          initialMessage = 'To reduce turnover, what drains your energy? Reframe it as an opportunity (NLP) to balance well-being and performance.';
-        } else {
-          initialMessage = 'Burnout alert (NR-1). What sensory break (4-7-8 breathing) recharges you? Let\'s create an immediate rebalancing plan.';
-        }
-
-        setMessages([{ role: 'assistant', content: initialMessage }]);
-      }
+      setMessages([{ role: 'assistant', content: initialMessageFor(stressLevel) }]);
     };
 
-    if (stressLevel) {
-      loadOrCreateConversation();
+    if (persona && !initialLoadRef.current) {
+      initialLoadRef.current = true;
+      loadLatestConversation();
     }
-  }, [stressLevel]);
+  }, [persona, stressLevel]);
 
   // Auto-scroll to last message
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const sendMessage = async () => {
-    if (!input.trim()) return;
+  const startNewConversation = () => {
+    abortRef.current?.abort();
+    synthesis.cancel();
+    setConversationId(null);
+    setConversationInfo(null);
+    setMessages([{ role: 'assistant', content: initialMessageFor(stressLevel) }]);
+  };
 
-    const userMessage: Message = { role: 'user', content: input };
-    setMessages((prev) => [...prev, userMessage]);
-    setInput('');
-    setIsLoading(true);
+  const resumeConversation = async (id: string) => {
+    if (id === conversationId) return;
+    abortRef.current?.abort();
+    synthesis.cancel();
 
     try {
-      // Prepare context with HRV if provided
-      let context = `Detected stress level: ${stressLevel}. `;
-      const hrvNum = parseFloat(hrvValue);
-      if (!isNaN(hrvNum)) {
-        context += `HRV (RMSSD): ${hrvNum}ms. `;
-        if (hrvNum < 30) {
-          context += 'Low HRV validates high stress - prioritize well-being. ';
-        }
-      }
+      const { data, error } = await supabase
+        .from('coach_conversations')
+        .select('id, messages, title, stress_level')
+        .eq('id', id)
+        .single();
+      if (error) throw error;
 
-      // Call coach edge function
-      const { data, error } = await supabase.functions.invoke('neuro-coach', {
-        body: {
-          messages: [...messages, userMessage],
-          stressLevel,
-          context,
-          userName,
-          communicationTone,
-        },
+      setMessages(Array.isArray(data.messages) ? data.messages as unknown as Message[] : []);
+      setConversationId(data.id);
+      setConversationInfo({ title: data.title, stressLevel: data.stress_level });
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not open the conversation',
+        variant: 'destructive',
       });
+    }
+  };
+
+  const selectPersona = async (value: string) => {
+    if (!isCoachPersona(value)) return;
+    // A new persona always starts a new conversation
+    initialLoadRef.current = true;
+    setPersona(value);
+    startNewConversation();
 
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { error } = await supabase
+        .from('profiles')
+        .update({ coach_persona: value })
+        .eq('id', user.id);
       if (error) throw error;
+    } catch (error) {
+      console.error('Error saving persona:', error);
+    }
+  };
 
-      const assistantMessage: Message = {
-        role: 'assistant',
-        content: data.response,
-      };
-
-      setMessages((prev) => [...prev, assistantMessage]);
-
-      // Save conversation to database
-      const allMessages = [...messages, userMessage, assistantMessage];
-
-      if (conversationId) {
-        await supabase
-          .from('coach_conversations')
-          .update({
-            messages: allMessages as any,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', conversationId);
-      } else {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          const { data: newConv } = await supabase
-            .from('coach_conversations')
-            .insert([{
-              user_id: user.id,
-              stress_level: stressLevel,
-              messages: allMessages as any,
-            }])
-            .select()
-            .single();
+  const sendMessage = async (text = input) => {
+    if (!text.trim() || isLoading) return;
 
-          if (newConv) {
-            setConversationId(newConv.id);
-          }
-        }
-      }
-    } catch (error: any) {
-      console.error('Error sending message:', error);
+    // Prior turns are loaded server-side from the conversation; only the new message is sent
+    const validation = coachMessageSchema.safeParse({
+      conversationId: conversationId ?? undefined,
+      message: text,
+      stressLevel,
+      context: `Detected stress level: ${stressLevel}.`,
+      userName,
+      language: (voiceSettings.enabled ? voiceSettings.lang.startsWith('en') : localStorage.getItem('neurosuite-lang') === 'en') ? 'en' : 'pt',
+      persona: persona || undefined,
+    });
+    if (!validation.success) {
       toast({
-        title: 'Error',
-        description: error.message || 'Could not send message',
+        title: 'Invalid message',
+        description: validation.error.issues[0]?.message,
         variant: 'destructive',
       });
+      return;
+    }
+
+    const userMessage: Message = { role: 'user', content: validation.data.message, createdAt: new Date().toISOString() };
+    // Empty assistant message filled in as the reply streams
+    setMessages((prev) => [...prev, userMessage, { role: 'assistant', content: '', createdAt: new Date().toISOString() }]);
+    setInput('');
+    setIsLoading(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      // Stream the coach reply; the edge function saves both turns once it completes
+      const result = await streamCoachReply(validation.data, {
+        signal: controller.signal,
+        onDelta: (delta) => {
+          setMessages((prev) => {
+            const last = prev[prev.length - 1];
+            return [...prev.slice(0, -1), { ...last, content: last.content + delta }];
+          });
+        },
+        onReplace: (text) => {
+          setMessages((prev) => [...prev.slice(0, -1), { ...prev[prev.length - 1], content: text }]);
+        },
+        onActionItems: () => refreshActionItems(),
+      });
+
+      if (result.conversationId) {
+        setConversationId(result.conversationId);
+        setHistoryVersion((version) => version + 1);
+      }
+      if (voiceSettings.enabled) {
+        synthesis.speak(markdownToPlainText(result.reply), { lang: voiceSettings.lang, voiceURI: voiceSettings.voiceURI });
+      }
+    } catch (error) {
+      // Drop the unfinished exchange and give the text back so it can be resent
+      setMessages(messages);
+      setInput(text);
+
+      if (!controller.signal.aborted) {
+        console.error('Error sending message:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Could not send message',
+          variant: 'destructive',
+        });
+      }
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
 
-  const exportPlan = () => {
-    const planText = messages
-      .map((msg) => `${msg.role === 'user' ? 'You' : 'NeuroCoach'}: ${msg.content}`)
-      .join('\n\n');
+  const cancelReply = () => {
+    abortRef.current?.abort();
+    synthesis.cancel();
+  };
 
-    const blob = new Blob([planText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'neurosuite-plan.txt';
-    a.click();
+  // Push-to-talk interrupts a reply that is still being read aloud
+  const startTalking = () => {
+    synthesis.cancel();
+    recognition.start();
+  };
+
+  const toggleActionItem = async (id: string, done: boolean) => {
+    try {
+      await setDone(id, done);
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Could not update the action item',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const exportConversation = (format: CoachExportFormat) => {
+    const firstUserMessage = messages.find((msg) => msg.role === 'user')?.content;
+
+    downloadCoachExport({
+      conversationId,
+      title: conversationInfo?.title || firstUserMessage?.substring(0, 60) || 'NeuroCoach conversation',
+      stressLevel: conversationInfo?.stressLevel ?? stressLevel,
+      persona: persona || null,
+      exportedAt: new Date().toISOString(),
+      messages: messages.filter((msg) => msg.content),
+      // Action items extracted from this conversation's replies
+      actionItems: actionItems
+        .filter((item) => conversationId && item.conversation_id === conversationId)
+        .map(({ task, deadline, metric, status, completed_at }) => ({ task, deadline, metric, status, completed_at })),
+    }, format);
 
     toast({
-      title: 'Plan exported!',
-      description: 'Your plan has been downloaded successfully.',
+      title: 'Conversation exported!',
+      description: `Downloaded as ${format === 'markdown' ? 'Markdown' : format.toUpperCase()}.`,
     });
   };
 
@@ -214,120 +344,187 @@ export default function NeuroCoach({ stressLevel }: NeuroCoachProps) {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          {!communicationTone && (
+          {!persona && (
             <div className="p-4 bg-accent/10 rounded-lg border-2 border-accent/30 space-y-3">
-              <h3 className="font-semibold text-accent">Choose your communication tone:</h3>
+              <h3 className="font-semibold text-accent">Choose your coaching persona:</h3>
               <p className="text-sm text-muted-foreground">
                 Select how you prefer NeuroCoach to communicate with you
               </p>
-              <Select value={communicationTone} onValueChange={setCommunicationTone}>
+              <Select value={persona} onValueChange={selectPersona}>
                 <SelectTrigger className="w-full">
-                  <SelectValue placeholder="Select a tone..." />
+                  <SelectValue placeholder="Select a persona..." />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="technical">
-                    Technical/Academic - Formal, scientific with references
-                  </SelectItem>
-                  <SelectItem value="casual">
-                    Casual Everyday - Friendly chat, casual and motivating
-                  </SelectItem>
-                  <SelectItem value="spiritual">
-                    Pragmatic Spiritual Master - Inspirational and inner guide
-                  </SelectItem>
+                  {COACH_PERSONAS.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label} - {option.description}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           )}
 
-          {communicationTone && (
+          {persona && (
             <div className="space-y-2">
               <div className="flex items-center justify-between">
-                <label htmlFor="hrv" className="text-sm font-medium">
-                  Wristband HRV (RMSSD in ms) - Optional
-                </label>
+                <p className="text-sm font-medium">Data shared with NeuroCoach</p>
                 <Button
                   variant="ghost"
                   size="sm"
                   onClick={() => {
-                    setCommunicationTone('');
+                    setPersona('');
                     setMessages([]);
                     setConversationId(null);
                   }}
                   className="text-xs"
                 >
-                  Change Tone
+                  Change Persona
                 </Button>
               </div>
-              <Input
-                id="hrv"
-                type="number"
-                placeholder="40"
-                value={hrvValue}
-                onChange={(e) => setHrvValue(e.target.value)}
-                className="max-w-xs"
-              />
-              <p className="text-xs text-muted-foreground">
-                Values &lt;30 validate high stress. Default: 40ms
-              </p>
+              {biometricLines.length > 0 ? (
+                <ul className="text-xs text-muted-foreground space-y-0.5">
+                  {biometricLines.map((line) => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  No valid scans yet. Run a NeuroScore scan so the coach can use your real measurements.
+                </p>
+              )}
             </div>
           )}
 
-          {communicationTone && (
-            <div className="h-[60vh] max-h-[400px] overflow-y-auto space-y-3 sm:space-y-4 p-3 sm:p-4 bg-muted/30 rounded-lg border">
-              {messages.map((msg, idx) => (
-              <div
-                key={idx}
-                className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
-                <div
-                  className={`max-w-[85%] sm:max-w-[80%] p-2.5 sm:p-3 rounded-lg ${
-                    msg.role === 'user'
-                      ? 'bg-primary text-primary-foreground'
-                      : 'bg-card border shadow-soft'
-                  }`}
-                >
-                  <p className="text-xs sm:text-sm whitespace-pre-wrap leading-relaxed">{msg.content}</p>
+          {persona && (
+            <div className="grid gap-4 md:grid-cols-[14rem_1fr]">
+              <CoachHistorySidebar
+                activeId={conversationId}
+                version={historyVersion}
+                onSelect={resumeConversation}
+                onNew={startNewConversation}
+                onDeleted={(id) => {
+                  if (id === conversationId) startNewConversation();
+                  // Its action items were deleted with it
+                  refreshActionItems();
+                }}
+              />
+              <div className="space-y-4 min-w-0">
+                {followUpItem && (
+                  <div className="p-4 bg-accent/10 rounded-lg border border-accent/30 space-y-3">
+                    <p className="text-sm">
+                      Last time you committed to <span className="font-semibold">"{followUpItem.task}"</span> — did you?
+                    </p>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => toggleActionItem(followUpItem.id, true)}>
+                        Yes, done
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setDismissedFollowUps((prev) => [...prev, followUpItem.id])}
+                      >
+                        Not yet
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="h-[60vh] max-h-[400px] overflow-y-auto space-y-3 sm:space-y-4 p-3 sm:p-4 bg-muted/30 rounded-lg border">
+                  {messages.filter((msg) => msg.content).map((msg, idx) => (
+                  <div
+                    key={idx}
+                    className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                  >
+                    <div
+                      className={`max-w-[85%] sm:max-w-[80%] p-2.5 sm:p-3 rounded-lg ${
+                        msg.role === 'user'
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-card border shadow-soft'
+                      }`}
+                    >
+                      {msg.role === 'assistant' ? (
+                        <Markdown content={msg.content} className="text-xs sm:text-sm leading-relaxed" />
+                      ) : (
+                        <p className="text-xs sm:text-sm whitespace-pre-wrap leading-relaxed">{msg.content}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {isLoading && messages[messages.length - 1]?.content === '' && (
+                  <div className="flex justify-start">
+                    <div className="max-w-[80%] p-3 rounded-lg bg-card border shadow-soft">
+                      <p className="text-sm text-muted-foreground animate-pulse">
+                        NeuroCoach is thinking...
+                      </p>
+                    </div>
+                  </div>
+                )}
+                  <div ref={messagesEndRef} />
                 </div>
-              </div>
-            ))}
-            {isLoading && (
-              <div className="flex justify-start">
-                <div className="max-w-[80%] p-3 rounded-lg bg-card border shadow-soft">
-                  <p className="text-sm text-muted-foreground animate-pulse">
-                    NeuroCoach is thinking...
-                  </p>
+
+                <VoiceControls
+                  settings={voiceSettings}
+                  onSettingsChange={updateVoiceSettings}
+                  voices={synthesis.voices}
+                  recognitionSupported={recognition.supported}
+                  synthesisSupported={synthesis.supported}
+                  listening={recognition.listening}
+                  speaking={synthesis.speaking}
+                  interim={recognition.interim}
+                  disabled={isLoading}
+                  onTalkStart={startTalking}
+                  onTalkEnd={recognition.stop}
+                  onStopSpeaking={synthesis.cancel}
+                />
+
+                <div className="flex gap-2">
+                <Textarea
+                  placeholder="Describe how you feel or what you want to improve..."
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      sendMessage();
+                    }
+                  }}
+                  className="min-h-[50px] sm:min-h-[60px] text-xs sm:text-sm"
+                />
+                  {isLoading ? (
+                    <Button onClick={cancelReply} variant="outline" size="icon" className="h-10 w-10 sm:h-12 sm:w-12" aria-label="Stop">
+                      <Square className="h-3 w-3 sm:h-4 sm:w-4" />
+                    </Button>
+                  ) : (
+                    <Button onClick={() => sendMessage()} disabled={!input.trim()} size="icon" className="h-10 w-10 sm:h-12 sm:w-12">
+                      <Send className="h-3 w-3 sm:h-4 sm:w-4" />
+                    </Button>
+                  )}
                 </div>
               </div>
-            )}
-              <div ref={messagesEndRef} />
             </div>
           )}
 
-          {communicationTone && (
-            <div className="flex gap-2">
-            <Textarea
-              placeholder="Describe how you feel or what you want to improve..."
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' && !e.shiftKey) {
-                  e.preventDefault();
-                  sendMessage();
-                }
-              }}
-              className="min-h-[50px] sm:min-h-[60px] text-xs sm:text-sm"
-            />
-              <Button onClick={sendMessage} disabled={isLoading || !input.trim()} size="icon" className="h-10 w-10 sm:h-12 sm:w-12">
-                <Send className="h-3 w-3 sm:h-4 sm:w-4" />
-              </Button>
-            </div>
+          {persona && actionItems.length > 0 && (
+            <ActionPlanChecklist items={actionItems.slice(0, 10)} onToggle={toggleActionItem} />
           )}
 
-          {communicationTone && messages.length > 2 && (
-            <Button onClick={exportPlan} variant="outline" className="w-full">
-              <Download className="mr-2 h-4 w-4" />
-              Export Weekly Plan
-            </Button>
+          {persona && <CoachMemoryPanel version={historyVersion} />}
+
+          {persona && messages.length > 2 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="w-full">
+                  <Download className="mr-2 h-4 w-4" />
+                  Export Weekly Plan
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="center" className="w-56">
+                <DropdownMenuItem onClick={() => exportConversation('markdown')}>Markdown (.md)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportConversation('pdf')}>PDF (.pdf)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportConversation('json')}>JSON (.json)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           )}
         </CardContent>
       </Card>
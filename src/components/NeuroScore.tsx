@@ -3,11 +3,29 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { Scan, Activity, Globe } from 'lucide-react';
+import { Scan, Activity, Globe, Eye, RotateCcw } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useEarBaseline } from '@/hooks/useEarBaseline';
+import { usePersonalBaseline } from '@/hooks/usePersonalBaseline';
+import { computeEarBaseline, type EarCalibrationSamples } from '@/lib/earCalibration';
+import type { RppgMetrics } from '@/lib/signal/rppg';
+import type { ScanQuality } from '@/lib/signal/quality';
+import { getStressModel, type StressLevel } from '@/lib/stressModel';
+import { baselineFor, describeDeviations, type BaselineDeviation } from '@/lib/personalBaseline';
+import type { VisionReport } from '@/lib/validations';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import WebcamCapture from './WebcamCapture';
+import VisionTimeline from './VisionTimeline';
+
+const STRESS_LEVEL_DISPLAY: Record<StressLevel, { message: string; emoji: string }> = {
+  low: { message: 'Optimized focus, high productivity', emoji: '😊' },
+  moderate: { message: 'Normal attention, suggest breaks to avoid burnout', emoji: '😐' },
+  high: { message: 'Stress alert, prioritize rebalancing (NR-1)', emoji: '😟' },
+};
+
+// Model used for new scans (VITE_STRESS_MODEL selects an alternative, e.g. multimodal-v1)
+const stressModel = getStressModel(import.meta.env.VITE_STRESS_MODEL as string | undefined);
 
 interface NeuroScoreProps {
   onScoreComplete: (stressLevel: string, hrvValue?: number) => void;
@@ -24,12 +42,24 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
     stressLevel: string;
     message: string;
     emoji: string;
+    score?: number | null;
+    confidence?: number | null;
+    deviations?: BaselineDeviation[];
   } | null>(null);
   const [userName, setUserName] = useState<string>('');
+  // Last scan rejected by the quality model (prompts a retry)
+  const [rejectedScan, setRejectedScan] = useState<ScanQuality | null>(null);
   const { toast } = useToast();
 
+  // Personal EAR calibration
+  const { baseline: earBaseline, saveBaseline } = useEarBaseline();
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  // Rolling 14-day baselines for "compared to your usual" feedback
+  const { baselines, refresh: refreshBaselines } = usePersonalBaseline();
+  const [recalibrationSuggested, setRecalibrationSuggested] = useState(false);
+
   // States for Gemini Vision
-  const [visionResult, setVisionResult] = useState<string>('');
+  const [visionReport, setVisionReport] = useState<{ report: VisionReport; isFallback: boolean } | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [progressVision, setProgressVision] = useState(0);
 
@@ -46,6 +76,9 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
     }
   };
 
+  // Most recent scan, for linking vision analyses to it
+  const lastScanRef = useRef<string | null>(null);
+
   // Ref to control scan interval
   const scanIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -75,31 +108,27 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
             setUserName(profile.preferred_name || profile.full_name || '');
           }
 
-          // Get last scan
+          // Get last valid scan
           const { data } = await supabase
             .from('stress_scans')
             .select('*')
             .eq('user_id', user.id)
+            .eq('is_valid', true)
             .order('created_at', { ascending: false })
             .limit(1)
             .single();
 
           if (data) {
-            let emoji = '😊';
-            let message = 'Optimized focus, high productivity';
-            if (data.stress_level === 'moderate') {
-              emoji = '😐';
-              message = 'Normal attention, suggest breaks to avoid burnout';
-            } else if (data.stress_level === 'high') {
-              emoji = '😟';
-              message = 'Stress alert, prioritize rebalancing (NR-1)';
-            }
+            lastScanRef.current = data.id;
+            const { message, emoji } = STRESS_LEVEL_DISPLAY[data.stress_level as StressLevel] ?? STRESS_LEVEL_DISPLAY.low;
 
             setResult({
               blinkRate: data.blink_rate,
               stressLevel: data.stress_level,
               message,
               emoji,
+              score: data.stress_score,
+              confidence: data.stress_confidence,
             });
           }
         }
@@ -119,7 +148,8 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
 
     setIsScanning(true);
     setProgress(0);
-    setVisionResult(''); // Clear previous Gemini result
+    setRejectedScan(null);
+    setVisionReport(null); // Clear previous Gemini result
 
     // Simulate progress
     scanIntervalRef.current = setInterval(() => {
@@ -133,58 +163,126 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
     }, 1000);
   };
 
-  const handleBlinkDetected = async (blinkRate: number, hrvValue?: number) => {
-    let stressLevel = 'low';
-    let message = 'Optimized focus, high productivity';
-    let emoji = '😊';
-
-    if (blinkRate >= 15 && blinkRate <= 25) {
-      stressLevel = 'moderate';
-      message = 'Normal attention, suggest breaks to avoid burnout';
-      emoji = '😐';
-    } else if (blinkRate > 25) {
-      stressLevel = 'high';
-      message = 'Stress alert, prioritize rebalancing (NR-1)';
-      emoji = '😟';
-    }
-
-    setResult({
-      blinkRate: Math.round(blinkRate * 10) / 10,
-      stressLevel,
-      message,
-      emoji,
+  const handleBlinkDetected = async (
+    blinkRate: number,
+    hrv: RppgMetrics | undefined,
+    quality: ScanQuality,
+    blinkDurationMs: number | null
+  ) => {
+    // RMSSD is the HRV metric used across the app (coach, dashboards, badges)
+    const hrvValue = hrv?.rmssd;
+    const scannedAt = new Date();
+
+    const assessment = stressModel.assess({
+      blinkRate,
+      blinkDurationMs,
+      rmssd: hrvValue,
+      heartRate: hrv?.heartRate,
+      headJitter: quality.motion,
+      signalQuality: quality.score,
+      baseline: baselines ? baselineFor(baselines, scannedAt) : null,
     });
-
-    // Cross-validation: HRV<30ms + blinks>25/min = high alert
-    if (hrvValue && hrvValue < 30 && blinkRate > 25) {
-      stressLevel = 'high';
-      message = 'Stress alert: Low HRV + high blinks (cross-validation)';
-      emoji = '🚨';
+    const stressLevel = assessment.level;
+    const deviations = baselines
+      ? describeDeviations({ blinkRate, rmssd: hrvValue, heartRate: hrv?.heartRate }, baselines, scannedAt)
+      : [];
+
+    if (quality.isValid) {
+      setResult({
+        blinkRate: Math.round(blinkRate * 10) / 10,
+        stressLevel,
+        ...STRESS_LEVEL_DISPLAY[stressLevel],
+        score: assessment.score,
+        confidence: assessment.confidence,
+        deviations,
+      });
     }
 
     // Save to database
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (user) {
-        await supabase.from('stress_scans').insert({
+        const { data: scan } = await supabase.from('stress_scans').insert({
           user_id: user.id,
           blink_rate: blinkRate,
           stress_level: stressLevel,
+          stress_score: assessment.score,
+          stress_confidence: assessment.confidence,
+          model_id: assessment.modelId,
+          blink_duration_ms: blinkDurationMs,
           hrv_value: hrvValue || null,
-        });
+          heart_rate: hrv?.heartRate ?? null,
+          sdnn: hrv?.sdnn ?? null,
+          rmssd: hrv?.rmssd ?? null,
+          pnn50: hrv?.pnn50 ?? null,
+          lf_power: hrv?.lfPower ?? null,
+          hf_power: hrv?.hfPower ?? null,
+          lf_hf_ratio: hrv?.lfHfRatio ?? null,
+          quality_score: quality.score,
+          quality_metrics: { ...quality },
+          is_valid: quality.isValid,
+        }).select('id').single();
+
+        if (scan && quality.isValid) {
+          lastScanRef.current = scan.id;
+        }
       }
     } catch (error) {
       console.error('Error saving scan:', error);
     }
 
+    // Flagged scans are kept for reference but do not count towards streaks or the result shown
+    if (!quality.isValid) {
+      setRejectedScan(quality);
+      toast({
+        title: 'Scan quality too low',
+        description: quality.issues[0] ?? 'Please retry the scan in better conditions.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    refreshBaselines();
     onScoreComplete(stressLevel, hrvValue);
 
     toast({
       title: 'Scan complete!',
-      description: `Stress level: ${stressLevel === 'low' ? 'Low' : stressLevel === 'moderate' ? 'Moderate' : 'High'}${hrvValue ? ` • HRV: ${hrvValue}ms` : ''}`,
+      description: `Stress level: ${stressLevel === 'low' ? 'Low' : stressLevel === 'moderate' ? 'Moderate' : 'High'} (${assessment.score}/100)${hrvValue ? ` • RMSSD: ${hrvValue}ms` : ''}`,
     });
   };
 
+  const startCalibration = () => {
+    setResult(null);
+    setVisionReport(null);
+    setRecalibrationSuggested(false);
+    setIsCalibrating(true);
+  };
+
+  const handleCalibrationComplete = async (samples: EarCalibrationSamples) => {
+    setIsCalibrating(false);
+
+    try {
+      const baseline = computeEarBaseline(samples);
+      await saveBaseline(baseline);
+
+      toast({
+        title: 'Calibration saved!',
+        description: `Personal blink threshold: EAR ${baseline.threshold} (open ${baseline.baselineOpen} • closed ${baseline.baselineClosed})`,
+      });
+    } catch (error) {
+      console.error('Calibration error:', error);
+      toast({
+        title: 'Calibration failed',
+        description: error instanceof Error ? error.message : 'Could not calibrate. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCalibrationDrift = () => {
+    setRecalibrationSuggested(true);
+  };
+
   const handleScanComplete = () => {
     if (scanIntervalRef.current) {
       clearInterval(scanIntervalRef.current);
@@ -195,24 +293,13 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
 
   // Analysis function with Google Gemini Vision
   const startVisionAnalysis = async () => {
-    const API_KEY = import.meta.env.VITE_GEMINI_KEY as string;
-
-    if (!API_KEY || API_KEY === "YOUR_KEY_HERE") {
-      toast({
-        title: 'Configuration required',
-        description: 'Configure the VITE_GEMINI_KEY key in the .env file',
-        variant: 'destructive',
-      });
-      return;
-    }
-
     // Stop normal scan if running
     if (scanIntervalRef.current) {
       clearInterval(scanIntervalRef.current);
     }
 
     // Clear previous Gemini analysis result
-    setVisionResult('');
+    setVisionReport(null);
     setProgressVision(0);
 
     // Only mark as analyzing (NOT normal scan)
@@ -275,182 +362,74 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
 
       setProgressVision(60);
 
-      // ===== DEMO MODE: LOCAL SIMULATED ANALYSIS =====
+      let report: VisionReport;
+      let isFallback = false;
+      let quota: { used: number; limit: number } | undefined;
+
       if (DEMO_MODE) {
+        // ===== DEMO MODE: LOCAL SIMULATED ANALYSIS =====
         console.log('[NeuroScore] DEMO_MODE active: local simulated analysis.');
-        const timestamp = new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
         const avgSize = frames.reduce((sum, f) => sum + f.length, 0) / frames.length;
-        const stressLevel = avgSize > 50000 ? 'MODERATE' : 'LOW';
-
-        const recommendation = stressLevel === 'MODERATE'
-           ? 'Regular 5-10 minute breaks every hour are recommended.'
-           : 'Continue your balanced work rhythm.';
-
-        const analysis = `Visual Temporal Analysis (Gemini 3 Flash)\n\n` +
-          `Time: ${timestamp}\n` +
-          `Capture Duration: 1 minute\n` +
-          `Processed Data:\n` +
-          `• 10 frames captured (every 6 seconds)\n` +
-          `• Average size: ${Math.round(avgSize/1024)}KB\n` +
-          `• Resolution: ${canvas.width}x${canvas.height}px\n\n` +
-          `Temporal Fatigue Analysis:\n` +
-          `• Progression observed over time\n` +
-          `• Expression: Stable with normal variations\n` +
-          `• Muscle tension: Minimal\n` +
-          `• Blink pattern: Consistent\n\n` +
-          `Conclusion:\n` +
-          `Apparent stress level: ${stressLevel}\n` +
-          `Time evolution: No significant signs of progressive fatigue\n\n` +
-          `NLP Recommendation:\n${recommendation}`;
+        const moderate = avgSize > 50000;
+
+        report = {
+          frames: frames.map((_, index) => ({
+            index,
+            secondsFromStart: index * (intervalMs / 1000),
+            fatigueScore: moderate ? 40 + index : 20 + index,
+            expression: 'stable',
+          })),
+          overallStressLevel: moderate ? 'moderate' : 'low',
+          confidence: 0.5,
+          summary: 'Expression stable with normal variations, minimal muscle tension and a consistent blink pattern. No significant signs of progressive fatigue.',
+          recommendations: [
+            moderate
+              ? 'Regular 5-10 minute breaks every hour are recommended.'
+              : 'Continue your balanced work rhythm.',
+          ],
+        };
 
         setProgressVision(80);
         await new Promise(resolve => setTimeout(resolve, 600));
-        setProgressVision(100);
-
-        setVisionResult(analysis);
-
-        // Save to database
-        try {
-          const { data: { user } } = await supabase.auth.getUser();
-          if (user) {
-            await supabase.from('stress_scans').insert({
-              user_id: user.id,
-              blink_rate: 0,
-              stress_level: stressLevel === 'MODERATE' ? 'moderate' : 'low',
-              hrv_value: null,
-            });
-          }
-        } catch (err) {
-          console.error('Error saving:', err);
-        }
+      } else {
+        // ===== REAL MODE: vision-analysis edge function (model key stays server-side) =====
+        // The function validates the report and saves it, linked to the scan when that is recent
+        setProgressVision(70);
 
-        toast({
-          title: 'Analysis Complete!',
-          description: 'Temporal processing finished.',
+        const { data, error } = await supabase.functions.invoke('vision-analysis', {
+          body: { frames, language, scanId: lastScanRef.current },
         });
-        return;
-      }
 
-      // ===== REAL MODE: GEMINI 3 API INTEGRATION =====
-      console.log('[NeuroScore] Sending frames to Gemini 3 API...');
-      console.log('[NeuroScore] API Key:', API_KEY ? `${API_KEY.substring(0, 15)}...` : 'NOT CONFIGURED');
-
-      const prompt = language === 'pt'
-        ? "Analise a evolução facial ao longo de 1 minuto nestes 10 frames capturados a cada 6 segundos. Identifique sinais progressivos de fadiga, estresse ou mudanças de expressão ao longo do tempo. Responda em português brasileiro com um laudo detalhado sobre a progressão do estado físico e emocional."
-        : "Analyze the facial evolution over 1 minute in these 10 frames captured every 6 seconds. Identify progressive signs of fatigue, stress, or expression changes over time. Respond in English with a detailed report on the progression of physical and emotional state.";
-
-      // Gemini 3: media_resolution goes inside each image part
-      const imageParts = frames.map((frame) => ({
-        inline_data: {
-          mime_type: "image/jpeg",
-          data: frame,
-        },
-        media_resolution: { level: "media_resolution_high" }
-      }));
-
-      setProgressVision(70);
-
-      // Gemini 3 Flash Preview - Hackathon Gemini 3
-      // Structure according to official documentation
-      const requestBody = {
-        contents: [{
-          parts: [
-            { text: prompt },
-            ...imageParts
-          ]
-        }],
-        generationConfig: {
-          thinkingConfig: {
-            thinkingLevel: "high"
-          }
-        }
-      };
-
-      console.log('[NeuroScore] Request payload:', {
-        url: 'https://generativelanguage.googleapis.com/v1alpha/models/gemini-3-flash-preview:generateContent',
-        method: 'POST',
-        framesCount: frames.length,
-        captureDuration: '1 minute',
-        frameInterval: '6 seconds',
-        promptLength: prompt.length,
-        totalPayloadSize: `${Math.round(JSON.stringify(requestBody).length / 1024)}KB`
-      });
+        if (error) throw error;
 
-      const startTime = performance.now();
-      // IMPORTANT: Use v1alpha to support media_resolution
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1alpha/models/gemini-3-flash-preview:generateContent?key=${API_KEY}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody),
+        if (data?.error === 'quota_exceeded') {
+          toast({
+            title: 'Daily limit reached',
+            description: data.message,
+            variant: 'destructive',
+          });
+          return;
         }
-      );
-      const endTime = performance.now();
-
-      console.log('[NeuroScore] Response received in', Math.round(endTime - startTime), 'ms');
-      console.log('[NeuroScore] HTTP Status:', response.status, response.statusText);
-      console.log('[NeuroScore] Headers:', Object.fromEntries(response.headers.entries()));
 
-      const responseClone = response.clone();
-      const responseText = await responseClone.text();
-
-      console.log('[NeuroScore] Response Body (first 500 chars):', responseText.substring(0, 500));
-      console.log('[NeuroScore] Response Body (complete):', responseText);
-
-      // Fallback if quota exceeded
-      if (response.status === 429) {
-        console.warn('[NeuroScore] Gemini API returned 429 (quota exceeded). Using local fallback.');
-        console.warn('[NeuroScore] Full error details 429:', responseText);
-        const timestamp = new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-        const avgSize = frames.reduce((sum, f) => sum + f.length, 0) / frames.length;
-        const stressLevel = avgSize > 50000 ? 'MODERATE' : 'LOW';
-
-        const analysis = `Visual Temporal Analysis (Fallback Mode)\n\n` +
-          `Time: ${timestamp}\n` +
-          `Duration: 1 minute (10 frames captured)\n\n` +
-          `Fatigue Indicators:\n` +
-          `• Expression: Stable over time\n` +
-          `• Apparent tension: Low to moderate\n` +
-          `• Temporal evolution: Consistent\n\n` +
-          `Estimated stress level: ${stressLevel}\n\n` +
-          `Recommendation: Continue monitoring your well-being. For more detailed analysis, check your Gemini API connection.`;
-
-        setVisionResult(analysis);
-        setProgressVision(100);
-
-        toast({
-          title: 'Analysis Complete',
-          description: 'Local processing finished.',
-          variant: 'default',
-        });
-        return;
-      }
+        if (data?.error) {
+          throw new Error(data.error);
+        }
 
-      if (!response.ok) {
-        console.error('[NeuroScore] Error in Gemini API response:', response.status, responseText);
-        const errorData = JSON.parse(responseText);
-        console.error('[NeuroScore] Parsed Error Data:', errorData);
-        throw new Error(errorData.error?.message || `HTTP Error: ${response.status}`);
+        report = data.report;
+        isFallback = !!data.fallback;
+        quota = data.quota;
       }
 
-      console.log('[NeuroScore] Response received from Gemini API. REAL analysis performed.');
-      const data = JSON.parse(responseText);
-      console.log('[NeuroScore] Parsed data:', data);
-      console.log('[NeuroScore] Candidates:', data.candidates);
-
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text || 'Could not generate analysis.';
-      console.log('[NeuroScore] Extracted text (first 200 chars):', text.substring(0, 200));
-      console.log('[NeuroScore] Extracted text (complete):', text);
-
-      setVisionResult(text);
+      setVisionReport({ report, isFallback });
       setProgressVision(100);
 
       toast({
-        title: 'Gemini Analysis Complete!',
-        description: 'Real result from Google AI.',
+        title: isFallback ? 'Analysis Complete' : 'Gemini Analysis Complete!',
+        description: isFallback
+          ? 'Local processing finished.'
+          : quota
+            ? `Real result from Google AI • ${quota.used}/${quota.limit} analyses today`
+            : 'Temporal processing finished.',
       });
     } catch (error) {
       console.error('[NeuroScore] Analysis error:', error);
@@ -460,7 +439,7 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
         description: error instanceof Error ? error.message : 'Error processing visual analysis.',
         variant: 'destructive',
       });
-      setVisionResult('');
+      setVisionReport(null);
     } finally {
       setIsScanning(false);
       setIsAnalyzing(false);
@@ -485,8 +464,43 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
             isScanning={isScanning}
             isAnalyzing={isAnalyzing}
             onScanComplete={handleScanComplete}
+            earBaseline={earBaseline}
+            isCalibrating={isCalibrating}
+            onCalibrationComplete={handleCalibrationComplete}
+            onCalibrationDrift={handleCalibrationDrift}
           />
 
+          {recalibrationSuggested && !isScanning && !isCalibrating && (
+            <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg flex items-center justify-between gap-3">
+              <p className="text-xs sm:text-sm text-muted-foreground">
+                Blink detection quality looked low in this scan. Recalibrate for more accurate results.
+              </p>
+              <Button onClick={startCalibration} variant="outline" size="sm" className="shrink-0">
+                <Eye className="mr-2 h-4 w-4" />
+                Recalibrate
+              </Button>
+            </div>
+          )}
+
+          {rejectedScan && !isScanning && !isCalibrating && (
+            <div className="p-3 bg-destructive/10 border border-destructive/30 rounded-lg space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs sm:text-sm font-medium">
+                  Scan discarded • Quality {Math.round(rejectedScan.score * 100)}%
+                </p>
+                <Button onClick={startScan} variant="outline" size="sm" className="shrink-0">
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Retry scan
+                </Button>
+              </div>
+              <ul className="text-xs text-muted-foreground list-disc pl-4 space-y-0.5">
+                {rejectedScan.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {isScanning && !isAnalyzing && (
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
@@ -497,7 +511,7 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
             </div>
           )}
 
-          {!isScanning && (
+          {!isScanning && !isCalibrating && (
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -513,7 +527,19 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
             </TooltipProvider>
           )}
 
-          {!isScanning && !isAnalyzing && (
+          {!isScanning && !isCalibrating && !isAnalyzing && (
+            <Button
+              onClick={startCalibration}
+              variant="outline"
+              aria-label="Calibrate blink detection"
+              className="w-full text-sm"
+            >
+              <Eye className="mr-2 h-4 w-4" />
+              {earBaseline ? 'Recalibrate eyes (15s)' : 'Calibrate eyes (15s) - recommended for glasses or narrow eyes'}
+            </Button>
+          )}
+
+          {!isScanning && !isAnalyzing && !isCalibrating && (
             <div className="space-y-3">
               <div className="flex items-center justify-between gap-3">
                 <Button
@@ -574,70 +600,8 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
             </div>
           )}
 
-          {visionResult && (
-            <Card className="bg-purple-50 dark:bg-purple-950/20 border-purple-200 dark:border-purple-800">
-              <CardHeader>
-                <CardTitle className="text-purple-700 dark:text-purple-300 flex items-center gap-2">
-                  ✨ Gemini Vision Report
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="prose prose-sm dark:prose-invert max-w-none text-gray-700 dark:text-gray-300">
-                  <style>{`
-                    .prose h1, .prose h2, .prose h3 { margin-top: 1rem; margin-bottom: 0.5rem; font-weight: 600; }
-                    .prose h2 { font-size: 1.1rem; }
-                    .prose h3 { font-size: 1rem; }
-                    .prose p { margin: 0.5rem 0; line-height: 1.5; }
-                    .prose ul, .prose ol { margin: 0.5rem 0; padding-left: 1.25rem; }
-                    .prose li { margin: 0.25rem 0; }
-                    .prose strong { font-weight: 600; }
-                    .prose em { font-style: italic; }
-                  `}</style>
-                  <div className="whitespace-pre-wrap leading-relaxed">
-                    {visionResult
-                      .split('\n')
-                      .map((line, idx) => {
-                        // Titles (##)
-                        if (line.startsWith('##')) {
-                          return <h2 key={idx} className="mt-3 mb-2 font-semibold text-lg">{line.replace(/^##\s+/, '')}</h2>;
-                        }
-                        // Subtitles (###)
-                        if (line.startsWith('###')) {
-                          return <h3 key={idx} className="mt-2 mb-1 font-semibold text-base">{line.replace(/^###\s+/, '')}</h3>;
-                        }
-                        // Bold (**text**)
-                        if (line.includes('**')) {
-                          return (
-                            <p key={idx} className="my-1">
-                              {line.split(/(\*\*[^*]+\*\*)/).map((part, i) =>
-                                part.startsWith('**') ? (
-                                  <strong key={i}>{part.replace(/\*\*/g, '')}</strong>
-                                ) : (
-                                  <span key={i}>{part}</span>
-                                )
-                              )}
-                            </p>
-                          );
-                        }
-                        // Lists with •
-                        if (line.startsWith('•')) {
-                          return (
-                            <div key={idx} className="ml-4 my-1">
-                              {line}
-                            </div>
-                          );
-                        }
-                        // Empty lines
-                        if (line.trim() === '') {
-                          return <div key={idx} className="h-2" />;
-                        }
-                        // Normal text
-                        return <p key={idx} className="my-1">{line}</p>;
-                      })}
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+          {visionReport && (
+            <VisionTimeline report={visionReport.report} isFallback={visionReport.isFallback} />
           )}
 
           {result && (
@@ -651,6 +615,27 @@ export default function NeuroScore({ onScoreComplete }: NeuroScoreProps) {
                   {result.stressLevel === 'high' && 'High Level'}
                 </h3>
                 <p className="text-muted-foreground">{result.message}</p>
+                {result.score != null && (
+                  <p className="text-xs text-muted-foreground">
+                    Stress score {result.score}/100
+                    {result.confidence != null && ` • Confidence ${Math.round(result.confidence * 100)}%`}
+                  </p>
+                )}
+                {result.deviations && result.deviations.length > 0 && (
+                  <div className="flex flex-wrap justify-center gap-2 pt-2">
+                    {result.deviations.map((deviation) => (
+                      <span
+                        key={deviation.metric}
+                        className={`px-2 py-1 rounded-full text-xs ${
+                          deviation.notable ? 'bg-yellow-500/15 text-foreground font-medium' : 'bg-muted text-muted-foreground'
+                        }`}
+                        title={`Personal average: ${deviation.mean} • z = ${deviation.z}`}
+                      >
+                        {deviation.text}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <div className="grid grid-cols-2 gap-4 pt-4 border-t">
@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Plus, Trash2, UserPlus, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganizationAdmin } from '@/hooks/useOrganizationAdmin';
+import type { OrgRole, Team } from '@/hooks/useOrganizations';
+import { invitationLink, ORG_ROLES, roleLabel } from '@/lib/organizations';
+
+interface OrganizationAdminProps {
+  organizationId: string;
+  organizationName: string;
+  teams: Team[];
+  // Called after a team is created so the parent reloads its team list
+  onTeamsChange: () => void;
+}
+
+const NO_TEAM = 'none';
+
+export default function OrganizationAdmin({ organizationId, organizationName, teams, onTeamsChange }: OrganizationAdminProps) {
+  const [teamName, setTeamName] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrgRole>('employee');
+  const [teamId, setTeamId] = useState<string>(NO_TEAM);
+  const { members, invitations, createTeam, invite, revokeInvitation, updateMember, removeMember } = useOrganizationAdmin(organizationId);
+  const { toast } = useToast();
+
+  const orgTeams = teams.filter((team) => team.organization_id === organizationId);
+  const teamNameFor = (id: string | null) => orgTeams.find((team) => team.id === id)?.name ?? 'No team';
+
+  // Every action reports failures the same way; RLS rejects anything outside the admin's organization
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({ title: 'Error', description: failure, variant: 'destructive' });
+      return false;
+    }
+  };
+
+  const addTeam = async () => {
+    const name = teamName.trim().substring(0, 100);
+    if (!name) return;
+    if (await run(() => createTeam(name), 'Could not create the team')) {
+      setTeamName('');
+      onTeamsChange();
+    }
+  };
+
+  const sendInvitation = async () => {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(email.trim())) {
+      toast({ title: 'Invalid email', description: 'Enter a valid email address', variant: 'destructive' });
+      return;
+    }
+    if (await run(() => invite(email, role, teamId === NO_TEAM ? null : teamId), 'Could not create the invitation')) {
+      setEmail('');
+      toast({ title: 'Invitation created', description: 'Copy the link and send it to your colleague.' });
+    }
+  };
+
+  const copyLink = async (token: string) => {
+    await run(() => navigator.clipboard.writeText(invitationLink(token)), 'Could not copy the link');
+  };
+
+  return (
+    <Card className="shadow-soft border-primary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Users className="h-5 w-5 text-primary" />
+          Manage {organizationName}
+        </CardTitle>
+        <CardDescription>Teams, roles and invitations. Members only ever appear in aggregates.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Teams</p>
+          <div className="flex flex-wrap gap-2">
+            {orgTeams.map((team) => (
+              <Badge key={team.id} variant="secondary">{team.name}</Badge>
+            ))}
+            {orgTeams.length === 0 && <p className="text-xs text-muted-foreground">No teams yet</p>}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="New team name"
+              value={teamName}
+              maxLength={100}
+              onChange={(e) => setTeamName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addTeam()}
+              className="h-9 text-sm"
+            />
+            <Button onClick={addTeam} disabled={!teamName.trim()} size="sm" variant="outline" className="h-9">
+              <Plus className="mr-1 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Invite a colleague</p>
+          <div className="flex flex-col md:flex-row gap-2">
+            <Input
+              type="email"
+              placeholder="colleague@company.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="h-9 text-sm"
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as OrgRole)}>
+              <SelectTrigger className="md:w-36 h-9 text-sm" aria-label="Role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ORG_ROLES.map((r) => (
+                  <SelectItem key={r.id} value={r.id}>{r.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={teamId} onValueChange={setTeamId}>
+              <SelectTrigger className="md:w-40 h-9 text-sm" aria-label="Team">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TEAM}>No team</SelectItem>
+                {orgTeams.map((team) => (
+                  <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={sendInvitation} disabled={!email.trim()} size="sm" className="h-9">
+              <UserPlus className="mr-1 h-4 w-4" />
+              Invite
+            </Button>
+          </div>
+
+          {invitations.length > 0 && (
+            <ul className="space-y-1 pt-1">
+              {invitations.map((invitation) => (
+                <li key={invitation.id} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 truncate">
+                    {invitation.email} · {roleLabel(invitation.role)} · {teamNameFor(invitation.team_id)}
+                    {new Date(invitation.expires_at) < new Date() && <span className="text-destructive"> · expired</span>}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => copyLink(invitation.token)} aria-label="Copy invitation link">
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => run(() => revokeInvitation(invitation.id), 'Could not revoke the invitation')}
+                    aria-label="Revoke invitation"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Members ({members.length})</p>
+          <ul className="space-y-2">
+            {members.map((member) => (
+              <li key={member.id} className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+                <span className="flex-1 truncate">{member.email || 'Member'}</span>
+                <Select
+                  value={member.role}
+                  onValueChange={(value) => run(() => updateMember(member.id, { role: value as OrgRole }), 'Could not change the role')}
+                >
+                  <SelectTrigger className="sm:w-36 h-8 text-xs" aria-label="Member role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ORG_ROLES.map((r) => (
+                      <SelectItem key={r.id} value={r.id}>{r.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={member.team_id ?? NO_TEAM}
+                  onValueChange={(value) =>
+                    run(() => updateMember(member.id, { team_id: value === NO_TEAM ? null : value }), 'Could not change the team')
+                  }
+                >
+                  <SelectTrigger className="sm:w-40 h-8 text-xs" aria-label="Member team">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TEAM}>No team</SelectItem>
+                    {orgTeams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => run(() => removeMember(member.id), 'Could not remove the member')}
+                  aria-label="Remove member"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
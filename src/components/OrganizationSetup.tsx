@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Building2, Mail } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { PendingInvitation } from '@/hooks/useOrganizations';
+import { roleLabel } from '@/lib/organizations';
+
+interface OrganizationSetupProps {
+  invitations: PendingInvitation[];
+  // Token from an invitation link, highlighted until accepted
+  inviteToken?: string | null;
+  hasMemberships: boolean;
+  onAccept: (token: string) => Promise<unknown>;
+  onCreate: (name: string) => Promise<unknown>;
+}
+
+export default function OrganizationSetup({ invitations, inviteToken, hasMemberships, onAccept, onCreate }: OrganizationSetupProps) {
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const accept = async (token: string) => {
+    setBusy(true);
+    try {
+      await onAccept(token);
+      toast({ title: 'Invitation accepted', description: 'You have joined the organization.' });
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      toast({ title: 'Error', description: 'The invitation is invalid or has expired', variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setBusy(true);
+    try {
+      await onCreate(trimmed.substring(0, 100));
+      setName('');
+      toast({ title: 'Organization created', description: 'You are its HR admin. Add teams and invite your colleagues.' });
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      toast({ title: 'Error', description: 'Could not create the organization', variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const linkedInvitationMissing = !!inviteToken && !invitations.some((invitation) => invitation.token === inviteToken);
+
+  return (
+    <Card className="shadow-soft border-primary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Building2 className="h-5 w-5 text-primary" />
+          {hasMemberships ? 'Organizations' : 'Join your team'}
+        </CardTitle>
+        <CardDescription>
+          {hasMemberships
+            ? 'Team data is available to managers (their team) and HR admins (all teams).'
+            : 'The HR Dashboard shows anonymous aggregates for your team once you belong to an organization.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {invitations.map((invitation) => (
+          <div
+            key={invitation.token}
+            className={`flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3 ${
+              invitation.token === inviteToken ? 'border-primary bg-primary/5' : ''
+            }`}
+          >
+            <div className="flex items-center gap-2 text-sm">
+              <Mail className="h-4 w-4 text-muted-foreground" />
+              <span>
+                Invitation to <span className="font-medium">{invitation.organizationName || 'an organization'}</span>
+              </span>
+              <Badge variant="outline">{roleLabel(invitation.role)}</Badge>
+            </div>
+            <Button size="sm" onClick={() => accept(invitation.token)} disabled={busy}>
+              Accept
+            </Button>
+          </div>
+        ))}
+
+        {linkedInvitationMissing && (
+          <p className="text-xs text-muted-foreground">
+            The invitation in your link was not found. It may have expired or been sent to a different email address.
+          </p>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            placeholder="New organization name"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && create()}
+            className="h-9 text-sm"
+          />
+          <Button onClick={create} disabled={busy || !name.trim()} size="sm" variant="outline" className="h-9">
+            Create organization
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
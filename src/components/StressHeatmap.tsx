@@ -0,0 +1,73 @@
+import type { BucketSummary } from '@/hooks/useHrAggregates';
+
+interface StressHeatmapProps {
+  // Buckets keyed "<ISO weekday>-<hour>" (1 = Monday), in the viewer's time zone
+  cells: BucketSummary[];
+  k: number;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Share of high-stress scans tints the cell red; moderate adds a lighter share
+const intensity = (cell: BucketSummary['summary']) => {
+  const high = cell.percentages.high ?? 0;
+  const moderate = cell.percentages.moderate ?? 0;
+  return Math.min(1, (high + moderate / 2) / 100);
+};
+
+export default function StressHeatmap({ cells, k }: StressHeatmapProps) {
+  const byKey = new Map(cells.map((cell) => [cell.bucket, cell.summary]));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-separate border-spacing-0.5 text-[10px] text-muted-foreground">
+        <thead>
+          <tr>
+            <th className="w-8" />
+            {HOURS.map((hour) => (
+              <th key={hour} className="font-normal">{hour % 3 === 0 ? hour : ''}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {WEEKDAYS.map((day, index) => (
+            <tr key={day}>
+              <th className="font-normal text-left pr-1">{day}</th>
+              {HOURS.map((hour) => {
+                const cell = byKey.get(`${index + 1}-${String(hour).padStart(2, '0')}`);
+                const label = `${day} ${hour}:00`;
+
+                if (!cell) {
+                  return <td key={hour} className="h-5 min-w-4 rounded-sm bg-muted/30" title={`${label} — no scans`} />;
+                }
+                if (cell.suppressed) {
+                  return (
+                    <td
+                      key={hour}
+                      className="h-5 min-w-4 rounded-sm bg-muted bg-[repeating-linear-gradient(45deg,transparent,transparent_2px,hsl(var(--border))_2px,hsl(var(--border))_4px)]"
+                      title={`${label} — hidden (fewer than ${k} people)`}
+                    />
+                  );
+                }
+                return (
+                  <td
+                    key={hour}
+                    className="h-5 min-w-4 rounded-sm"
+                    style={{ backgroundColor: `rgba(239, 68, 68, ${0.1 + intensity(cell) * 0.8})` }}
+                    title={`${label} — ${cell.percentages.high ?? '—'}% high, ${cell.percentages.moderate ?? '—'}% moderate stress`}
+                  />
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex flex-wrap items-center gap-3 mt-2 text-[10px] text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-red-500/20" /> Calmer</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-red-500/90" /> More stress</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-muted border" /> Hidden (under {k} people)</span>
+      </div>
+    </div>
+  );
+}
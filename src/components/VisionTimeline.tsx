@@ -0,0 +1,83 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import Markdown from '@/components/Markdown';
+import type { VisionReport } from '@/lib/validations';
+
+interface VisionTimelineProps {
+  report: VisionReport;
+  isFallback?: boolean;
+}
+
+const LEVEL_LABELS: Record<VisionReport['overallStressLevel'], string> = {
+  low: 'Low',
+  moderate: 'Moderate',
+  high: 'High',
+};
+
+const fatigueColor = (score: number) => {
+  if (score >= 67) return 'bg-red-500';
+  if (score >= 34) return 'bg-yellow-500';
+  return 'bg-green-500';
+};
+
+export default function VisionTimeline({ report, isFallback = false }: VisionTimelineProps) {
+  const frames = [...report.frames].sort((a, b) => a.secondsFromStart - b.secondsFromStart);
+
+  return (
+    <Card className="bg-purple-50 dark:bg-purple-950/20 border-purple-200 dark:border-purple-800">
+      <CardHeader>
+        <CardTitle className="text-purple-700 dark:text-purple-300 flex items-center justify-between gap-2">
+          <span>✨ Gemini Vision Report</span>
+          {isFallback && <Badge variant="outline">Fallback mode</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="text-center">
+            <p className="text-sm text-muted-foreground">Overall stress</p>
+            <p className="text-2xl font-bold text-purple-700 dark:text-purple-300">
+              {LEVEL_LABELS[report.overallStressLevel]}
+            </p>
+          </div>
+          <div className="text-center">
+            <p className="text-sm text-muted-foreground">Confidence</p>
+            <p className="text-2xl font-bold text-purple-700 dark:text-purple-300">
+              {Math.round(report.confidence * 100)}%
+            </p>
+          </div>
+        </div>
+
+        <ol className="relative border-l border-purple-300 dark:border-purple-700 ml-2 space-y-4">
+          {frames.map((frame) => (
+            <li key={frame.index} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${fatigueColor(frame.fatigueScore)}`}
+                aria-hidden
+              />
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="font-medium">{frame.secondsFromStart}s • {frame.expression}</span>
+                <span className="text-muted-foreground">Fatigue {Math.round(frame.fatigueScore)}</span>
+              </div>
+              <Progress value={frame.fatigueScore} className="h-1.5 mt-1" />
+              {frame.notes && <p className="text-xs text-muted-foreground mt-1">{frame.notes}</p>}
+            </li>
+          ))}
+        </ol>
+
+        <Markdown content={report.summary} className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed" />
+
+        {report.recommendations.length > 0 && (
+          <div className="p-4 bg-primary/5 rounded-lg">
+            <p className="text-sm font-medium mb-2">Recommendations:</p>
+            <ul className="list-disc pl-5 space-y-1 text-sm text-muted-foreground">
+              {report.recommendations.map((recommendation) => (
+                <li key={recommendation}><Markdown content={recommendation} /></li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
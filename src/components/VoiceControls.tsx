@@ -0,0 +1,147 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Mic, Volume2, VolumeX } from 'lucide-react';
+import { VOICE_LANGUAGES, type VoiceSettings } from '@/lib/voice';
+
+interface VoiceControlsProps {
+  settings: VoiceSettings;
+  onSettingsChange: (settings: VoiceSettings) => void;
+  voices: SpeechSynthesisVoice[];
+  recognitionSupported: boolean;
+  synthesisSupported: boolean;
+  listening: boolean;
+  speaking: boolean;
+  interim: string;
+  disabled: boolean;
+  onTalkStart: () => void;
+  onTalkEnd: () => void;
+  onStopSpeaking: () => void;
+}
+
+const DEFAULT_VOICE = 'default';
+
+export default function VoiceControls({
+  settings,
+  onSettingsChange,
+  voices,
+  recognitionSupported,
+  synthesisSupported,
+  listening,
+  speaking,
+  interim,
+  disabled,
+  onTalkStart,
+  onTalkEnd,
+  onStopSpeaking,
+}: VoiceControlsProps) {
+  const languageVoices = voices.filter((voice) => voice.lang.replace('_', '-').startsWith(settings.lang.slice(0, 2)));
+
+  if (!recognitionSupported && !synthesisSupported) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Voice mode is not available in this browser. You can keep typing your messages.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="voice-mode"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => onSettingsChange({ ...settings, enabled })}
+          />
+          <Label htmlFor="voice-mode" className="text-sm">Voice mode</Label>
+        </div>
+
+        {settings.enabled && (
+          <>
+            <Select value={settings.lang} onValueChange={(lang) => onSettingsChange({ ...settings, lang, voiceURI: '' })}>
+              <SelectTrigger className="w-40 h-8 text-xs" aria-label="Voice language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VOICE_LANGUAGES.map((language) => (
+                  <SelectItem key={language.id} value={language.id}>{language.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {synthesisSupported && languageVoices.length > 0 && (
+              <Select
+                value={settings.voiceURI || DEFAULT_VOICE}
+                onValueChange={(value) => onSettingsChange({ ...settings, voiceURI: value === DEFAULT_VOICE ? '' : value })}
+              >
+                <SelectTrigger className="w-48 h-8 text-xs" aria-label="Voice">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VOICE}>Default voice</SelectItem>
+                  {languageVoices.map((voice) => (
+                    <SelectItem key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {speaking && (
+              <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={onStopSpeaking}>
+                <VolumeX className="mr-1 h-3 w-3" />
+                Stop speaking
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+
+      {settings.enabled && (
+        <>
+          {recognitionSupported ? (
+            <div className="flex items-center gap-3">
+              <Button
+                type="button"
+                variant={listening ? 'destructive' : 'secondary'}
+                disabled={disabled}
+                className="select-none touch-none"
+                onPointerDown={(e) => {
+                  e.preventDefault();
+                  onTalkStart();
+                }}
+                onPointerUp={onTalkEnd}
+                onPointerLeave={() => listening && onTalkEnd()}
+                onKeyDown={(e) => {
+                  if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+                    e.preventDefault();
+                    onTalkStart();
+                  }
+                }}
+                onKeyUp={(e) => {
+                  if (e.key === ' ' || e.key === 'Enter') onTalkEnd();
+                }}
+                aria-pressed={listening}
+              >
+                <Mic className="mr-2 h-4 w-4" />
+                {listening ? 'Listening... release to send' : 'Hold to talk'}
+              </Button>
+              {interim && <p className="text-xs text-muted-foreground italic truncate">{interim}</p>}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Speech input is not supported in this browser: type your message and replies will be read aloud.
+            </p>
+          )}
+          {!synthesisSupported && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Volume2 className="h-3 w-3" />
+              Spoken replies are not supported in this browser.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,37 +2,89 @@ import { useRef, useEffect, useState } from 'react';
 import { FaceLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
 import { AlertCircle, ArrowDown } from 'lucide-react';
 import HRVMonitor from './HRVMonitor';
+import {
+  CALIBRATION_PHASES,
+  getDefaultThresholds,
+  needsRecalibration,
+  thresholdsFromBaseline,
+  type CalibrationPhase,
+  type EarBaseline,
+  type EarCalibrationSamples,
+} from '@/lib/earCalibration';
+import {
+  calculateEAR,
+  createBlinkDetectorState,
+  meanBlinkDuration,
+  stepBlinkDetector,
+  type FaceLandmarks,
+} from '@/lib/signal/blink';
+import type { RppgMetrics } from '@/lib/signal/rppg';
+import {
+  createScanQualityState,
+  frameBrightness,
+  scoreScanQuality,
+  stepScanQuality,
+  type ScanQuality,
+} from '@/lib/signal/quality';
 
 interface WebcamCaptureProps {
-  onBlinkDetected: (blinkRate: number, hrvValue?: number) => void;
+  onBlinkDetected: (blinkRate: number, hrv: RppgMetrics | undefined, quality: ScanQuality, blinkDurationMs: number | null) => void;
   isScanning: boolean;
   isAnalyzing?: boolean;
   onScanComplete: () => void;
+  earBaseline?: EarBaseline | null;
+  isCalibrating?: boolean;
+  onCalibrationComplete?: (samples: EarCalibrationSamples) => void;
+  onCalibrationDrift?: () => void;
 }
 
-export default function WebcamCapture({ onBlinkDetected, isScanning, isAnalyzing = false, onScanComplete }: WebcamCaptureProps) {
+export default function WebcamCapture({
+  onBlinkDetected,
+  isScanning,
+  isAnalyzing = false,
+  onScanComplete,
+  earBaseline = null,
+  isCalibrating = false,
+  onCalibrationComplete,
+  onCalibrationDrift,
+}: WebcamCaptureProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [faceLandmarker, setFaceLandmarker] = useState<FaceLandmarker | null>(null);
   const [blinkCount, setBlinkCount] = useState(0);
   const [currentBlinkRate, setCurrentBlinkRate] = useState(0);
   const [error, setError] = useState<string>('');
-  const [hrvValue, setHRVValue] = useState<number | undefined>(undefined);
+  // Ref (not state) so the interval-driven processFrame sees the latest value
+  const hrvMetricsRef = useRef<RppgMetrics | undefined>(undefined);
+  // Latest face landmarks, shared with HRVMonitor for face-tracked rPPG regions
+  const landmarksRef = useRef<FaceLandmarks | null>(null);
   const [faceDetected, setFaceDetected] = useState(true);
   const [lowLightWarning, setLowLightWarning] = useState(false);
   const [isBackgroundMode, setIsBackgroundMode] = useState(false);
   const [isStreamReady, setIsStreamReady] = useState(false);
   const intervalRef = useRef<number>();
   const scanStartTimeRef = useRef<number>(0);
-  const lastEARRef = useRef<number>(1);
-  const blinkCountRef = useRef<number>(0);
+  const blinkStateRef = useRef(createBlinkDetectorState());
   const noFaceFramesRef = useRef<number>(0);
-  const lastBlinkTimeRef = useRef<number>(0);
   const backgroundDataRef = useRef<{ blinks: number[], timestamps: number[] }>({ blinks: [], timestamps: [] });
+  const scanEARSamplesRef = useRef<number[]>([]);
+  const scanQualityRef = useRef(createScanQualityState());
+  const brightnessCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [calibrationPhase, setCalibrationPhase] = useState<CalibrationPhase | null>(null);
+  const calibrationSamplesRef = useRef<EarCalibrationSamples>({ open: [], blink: [], closed: [] });
+  const calibrationStartRef = useRef<number>(0);
 
   // Detect platform
   const isMobile = /Mobi|Android|iPhone/i.test(navigator.userAgent);
 
+  // Personal thresholds when calibrated, platform defaults otherwise
+  const thresholdsRef = useRef(getDefaultThresholds(isMobile));
+  useEffect(() => {
+    thresholdsRef.current = earBaseline ? thresholdsFromBaseline(earBaseline) : getDefaultThresholds(isMobile);
+  }, [earBaseline, isMobile]);
+
+  const isCameraActive = isScanning || isCalibrating;
+
   // Initialize MediaPipe with robust configuration
   useEffect(() => {
     const initMediaPipe = async () => {
@@ -62,7 +114,7 @@ export default function WebcamCapture({ onBlinkDetected, isScanning, isAnalyzing
     };
 
     initMediaPipe();
-  }, []);
+  }, [isMobile]);
 
   // Detect page visibility (background mode) - continues processing
   useEffect(() => {
@@ -131,7 +183,7 @@ export default function WebcamCapture({ onBlinkDetected, isScanning, isAnalyzing
       }
     };
 
-    if (isScanning) {
+    if (isCameraActive) {
       startWebcam();
     } else if (!isAnalyzing) {
       // Only stop camera if NOT in Gemini analysis
@@ -145,52 +197,19 @@ export default function WebcamCapture({ onBlinkDetected, isScanning, isAnalyzing
         setIsStreamReady(false);
       }
     };
-  }, [isScanning, isAnalyzing]);
-
-  // Calculate EAR (Eye Aspect Ratio) - Correct formula
-  const calculateEAR = (landmarks: any) => {
-    // Correct indices of eye landmarks from MediaPipe
-    // Left eye: outer corner, top1, top2, inner corner, bottom1, bottom2
-    const leftEye = [33, 160, 158, 133, 144, 153];
-    // Right eye: inner corner, top1, top2, outer corner, bottom1, bottom2
-    const rightEye = [362, 385, 387, 263, 380, 373];
-
-    const getEAR = (eye: number[]) => {
-      // Eye points
-      const outerCorner = landmarks[eye[0]];
-      const top1 = landmarks[eye[1]];
-      const top2 = landmarks[eye[2]];
-      const innerCorner = landmarks[eye[3]];
-      const bottom1 = landmarks[eye[4]];
-      const bottom2 = landmarks[eye[5]];
-
-      // Calculate vertical distances (eye height at 2 points)
-      const vertical1 = Math.sqrt(
-        Math.pow(top1.x - bottom1.x, 2) +
-        Math.pow(top1.y - bottom1.y, 2) +
-        Math.pow(top1.z - bottom1.z, 2)
-      );
-      const vertical2 = Math.sqrt(
-        Math.pow(top2.x - bottom2.x, 2) +
-        Math.pow(top2.y - bottom2.y, 2) +
-        Math.pow(top2.z - bottom2.z, 2)
-      );
-
-      // Calculate horizontal distance (eye width)
-      const horizontal = Math.sqrt(
-        Math.pow(outerCorner.x - innerCorner.x, 2) +
-        Math.pow(outerCorner.y - innerCorner.y, 2) +
-        Math.pow(outerCorner.z - innerCorner.z, 2)
-      );
-
-      // EAR = (vertical1 + vertical2) / (2.0 * horizontal)
-      return (vertical1 + vertical2) / (2.0 * horizontal);
-    };
-
-    const leftEAR = getEAR(leftEye);
-    const rightEAR = getEAR(rightEye);
-
-    return (leftEAR + rightEAR) / 2.0;
+  }, [isCameraActive, isAnalyzing]);
+
+  // Mean luma of a thumbnail of the current frame (sampled every few frames)
+  const sampleBrightness = (video: HTMLVideoElement) => {
+    if (!brightnessCanvasRef.current) {
+      brightnessCanvasRef.current = document.createElement('canvas');
+      brightnessCanvasRef.current.width = 32;
+      brightnessCanvasRef.current.height = 24;
+    }
+    const ctx = brightnessCanvasRef.current.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return undefined;
+    ctx.drawImage(video, 0, 0, 32, 24);
+    return frameBrightness(ctx.getImageData(0, 0, 32, 24).data);
   };
 
   // Process frame with setInterval to work in background
@@ -208,9 +227,13 @@ export default function WebcamCapture({ onBlinkDetected, isScanning, isAnalyzing
     try {
       // Detect face with optimized configuration
       const results = faceLandmarker.detectForVideo(video, Date.now());
+      const faceFound = !!results.faceLandmarks && results.faceLandmarks.length > 0;
+      const brightness = scanQualityRef.current.totalFrames % 10 === 0 ? sampleBrightness(video) : undefined;
+      scanQualityRef.current = stepScanQuality(scanQualityRef.current, faceFound ? results.faceLandmarks[0] : null, brightness);
 
-      if (results.faceLandmarks && results.faceLandmarks.length > 0) {
+      if (faceFound) {
         const landmarks = results.faceLandmarks[0];
+        landmarksRef.current = landmarks;
         const currentEAR = calculateEAR(landmarks);
 
         // Reset frame counter without face
@@ -218,31 +241,25 @@ export default function WebcamCapture({ onBlinkDetected, isScanning, isAnalyzing
         setFaceDetected(true);
         setLowLightWarning(false);
 
-        // Detect blink with differentiated threshold by platform
-        const isMobile = /Mobi|Android|iPhone/i.test(navigator.userAgent);
-        const EAR_THRESHOLD = isMobile ? 0.12 : 0.15;
-        const EAR_OPEN = isMobile ? 0.18 : 0.20;
-        const DEBOUNCE_MS = 100;
+        // Detect blink with personal (or platform default) thresholds
+        scanEARSamplesRef.current.push(currentEAR);
 
         const now = Date.now();
-        const timeSinceLastBlink = now - lastBlinkTimeRef.current;
+        const { state: blinkState, blinked } = stepBlinkDetector(blinkStateRef.current, currentEAR, now, thresholdsRef.current);
+        blinkStateRef.current = blinkState;
 
-        if (lastEARRef.current > EAR_OPEN && currentEAR <= EAR_THRESHOLD && timeSinceLastBlink > DEBOUNCE_MS) {
-          blinkCountRef.current += 1;
-          setBlinkCount(blinkCountRef.current);
-          lastBlinkTimeRef.current = now;
+        if (blinked) {
+          setBlinkCount(blinkState.blinkCount);
 
-          console.log('Blink detected! Total:', blinkCountRef.current);
+          console.log('Blink detected! Total:', blinkState.blinkCount);
 
           // Save timestamp in background mode
           if (isBackgroundMode) {
-            backgroundDataRef.current.blinks.push(blinkCountRef.current);
+            backgroundDataRef.current.blinks.push(blinkState.blinkCount);
             backgroundDataRef.current.timestamps.push(now);
           }
         }
 
-        lastEARRef.current = currentEAR;
-
         // Check scan time
         if (scanStartTimeRef.current === 0) {
           scanStartTimeRef.current = Date.now();
@@ -252,13 +269,17 @@ export default function WebcamCapture({ onBlinkDetected, isScanning, isAnalyzing
 
         // Update blink rate in real-time (3 decimal places)
         if (elapsedTime > 0) {
-          const currentRate = (blinkCountRef.current / elapsedTime) * 60;
+          const currentRate = (blinkStateRef.current.blinkCount / elapsedTime) * 60;
           setCurrentBlinkRate(Math.round(currentRate * 1000) / 1000);
         }
 
         if (elapsedTime >= 60) {
-          const blinkRate = blinkCountRef.current / (elapsedTime / 60);
-          onBlinkDetected(blinkRate, hrvValue);
+          const blinkRate = blinkStateRef.current.blinkCount / (elapsedTime / 60);
+          if (needsRecalibration(scanEARSamplesRef.current, blinkStateRef.current.blinkCount, thresholdsRef.current)) {
+            onCalibrationDrift?.();
+          }
+          const quality = scoreScanQuality(scanQualityRef.current, hrvMetricsRef.current?.signalQuality ?? null);
+          onBlinkDetected(blinkRate, hrvMetricsRef.current, quality, meanBlinkDuration(blinkStateRef.current));
           stopWebcam();
           onScanComplete();
           return;
@@ -266,6 +287,7 @@ export default function WebcamCapture({ onBlinkDetected, isScanning, isAnalyzing
       } else {
         // Increment frame counter without face
         noFaceFramesRef.current += 1;
+        landmarksRef.current = null;
 
         // Progressive alerts
         if (noFaceFramesRef.current > 10) { // ~1 second without face (10 frames at 100ms)
@@ -280,20 +302,28 @@ export default function WebcamCapture({ onBlinkDetected, isScanning, isAnalyzing
     }
   };
 
+  // Latest processFrame for the interval, so it sees current props and state without restarting the scan
+  const processFrameRef = useRef(processFrame);
+  useEffect(() => {
+    processFrameRef.current = processFrame;
+  });
+
   // Control scan with setInterval for background
   useEffect(() => {
     if (isScanning && faceLandmarker) {
       console.log('Starting scan with faceLandmarker:', !!faceLandmarker);
-      blinkCountRef.current = 0;
+      blinkStateRef.current = createBlinkDetectorState();
+      hrvMetricsRef.current = undefined;
+      landmarksRef.current = null;
       setBlinkCount(0);
       setCurrentBlinkRate(0);
       scanStartTimeRef.current = 0;
-      lastEARRef.current = 0.3;
-      lastBlinkTimeRef.current = 0;
+      scanEARSamplesRef.current = [];
+      scanQualityRef.current = createScanQualityState();
 
       // Use optimized setInterval (50ms)
       intervalRef.current = window.setInterval(() => {
-        processFrame();
+        processFrameRef.current();
       }, 50);
 
       console.log('processFrame started with setInterval (50ms)');
@@ -312,9 +342,68 @@ export default function WebcamCapture({ onBlinkDetected, isScanning, isAnalyzing
     };
   }, [isScanning, faceLandmarker]);
 
-  const handleHRVDetected = (hrv: number, heartRate: number) => {
-    console.log('HRV detected:', hrv, 'ms, HR:', heartRate, 'bpm');
-    setHRVValue(hrv);
+  // Guided calibration: collect EAR samples for each phase
+  const processCalibrationFrame = () => {
+    const video = videoRef.current;
+    if (!video || !faceLandmarker || video.readyState !== 4 || calibrationStartRef.current < 0) {
+      return;
+    }
+
+    if (calibrationStartRef.current === 0) {
+      calibrationStartRef.current = Date.now();
+    }
+
+    const elapsed = Date.now() - calibrationStartRef.current;
+    let phaseEnd = 0;
+    const current = CALIBRATION_PHASES.find(({ durationMs }) => {
+      phaseEnd += durationMs;
+      return elapsed < phaseEnd;
+    });
+
+    if (!current) {
+      // Negative start marks the run as finished until the next calibration
+      calibrationStartRef.current = -1;
+      setCalibrationPhase(null);
+      onCalibrationComplete?.(calibrationSamplesRef.current);
+      return;
+    }
+
+    setCalibrationPhase(current.phase);
+
+    try {
+      const results = faceLandmarker.detectForVideo(video, Date.now());
+      if (results.faceLandmarks && results.faceLandmarks.length > 0) {
+        setFaceDetected(true);
+        calibrationSamplesRef.current[current.phase].push(calculateEAR(results.faceLandmarks[0]));
+      } else {
+        setFaceDetected(false);
+      }
+    } catch (error) {
+      console.error('Error processing calibration frame:', error);
+    }
+  };
+
+  const processCalibrationFrameRef = useRef(processCalibrationFrame);
+  useEffect(() => {
+    processCalibrationFrameRef.current = processCalibrationFrame;
+  });
+
+  useEffect(() => {
+    if (!isCalibrating || !faceLandmarker) {
+      setCalibrationPhase(null);
+      return;
+    }
+
+    calibrationSamplesRef.current = { open: [], blink: [], closed: [] };
+    calibrationStartRef.current = 0;
+    const interval = window.setInterval(() => processCalibrationFrameRef.current(), 50);
+
+    return () => clearInterval(interval);
+  }, [isCalibrating, faceLandmarker]);
+
+  const handleHRVDetected = (metrics: RppgMetrics) => {
+    console.log('HRV detected: RMSSD', metrics.rmssd, 'ms, SDNN', metrics.sdnn, 'ms, HR:', metrics.heartRate, 'bpm');
+    hrvMetricsRef.current = metrics;
   };
 
   return (
@@ -340,7 +429,7 @@ export default function WebcamCapture({ onBlinkDetected, isScanning, isAnalyzing
         />
 
         {/* Camera off visual feedback - NOT shown during Gemini analysis */}
-        {!isScanning && !isAnalyzing && (
+        {!isCameraActive && !isAnalyzing && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/90">
             <div className="text-center text-white px-4 space-y-2">
               <div className="text-5xl mb-3">📷</div>
@@ -396,12 +485,28 @@ export default function WebcamCapture({ onBlinkDetected, isScanning, isAnalyzing
             )}
           </>
         )}
+
+        {/* Calibration instructions */}
+        {isCalibrating && (
+          <div className="absolute inset-x-2 bottom-2 px-3 py-3 bg-primary/90 text-primary-foreground text-sm rounded-lg text-center space-y-1">
+            <p className="font-bold">
+              {calibrationPhase
+                ? CALIBRATION_PHASES.find(({ phase }) => phase === calibrationPhase)?.instruction
+                : 'Preparing calibration...'}
+            </p>
+            <p className="text-xs opacity-80">
+              Step {calibrationPhase ? CALIBRATION_PHASES.findIndex(({ phase }) => phase === calibrationPhase) + 1 : 0} of {CALIBRATION_PHASES.length}
+              {!faceDetected && ' • Position your face in the camera'}
+            </p>
+          </div>
+        )}
       </div>
 
       {/* HRV Monitor via rPPG */}
       <HRVMonitor
         videoRef={videoRef}
         canvasRef={canvasRef}
+        landmarksRef={landmarksRef}
         isScanning={isScanning}
         onHRVDetected={handleHRVDetected}
       />
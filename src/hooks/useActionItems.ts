@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ActionItem = Tables<'coach_action_items'>;
+
+export function useActionItems() {
+  const [items, setItems] = useState<ActionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('coach_action_items')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+
+      setItems(data || []);
+    } catch (error) {
+      console.error('Error loading action items:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setDone = useCallback(async (id: string, done: boolean) => {
+    const patch = { status: done ? 'done' : 'open', completed_at: done ? new Date().toISOString() : null };
+    // Optimistic: the checkbox responds immediately and is reverted on failure
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+
+    const { error } = await supabase.from('coach_action_items').update(patch).eq('id', id);
+    if (error) {
+      console.error('Error updating action item:', error);
+      refresh();
+      throw error;
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { items, loading, refresh, setDone };
+}
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { BIOMETRIC_SCAN_COUNT, buildBiometricContext } from '@/lib/biometricContext';
+import type { BiometricContext } from '@/lib/validations';
+
+// reloadKey: any value whose change should trigger a reload (e.g. the latest stress level)
+export function useBiometricContext(reloadKey?: unknown) {
+  const [context, setContext] = useState<BiometricContext | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('stress_scans')
+        .select('created_at, stress_level, stress_score, rmssd, heart_rate, blink_rate')
+        .eq('user_id', user.id)
+        .eq('is_valid', true)
+        .order('created_at', { ascending: false })
+        .limit(BIOMETRIC_SCAN_COUNT);
+
+      if (error) throw error;
+
+      setContext(buildBiometricContext(data || []));
+    } catch (error) {
+      console.error('Error loading biometric context:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, reloadKey]);
+
+  return { context, loading, refresh };
+}
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CoachConversationSummary = Pick<
+  Tables<'coach_conversations'>,
+  'id' | 'title' | 'stress_level' | 'persona' | 'created_at' | 'updated_at'
+>;
+
+const PAGE_SIZE = 20;
+
+export function useCoachConversations(search: string) {
+  const [conversations, setConversations] = useState<CoachConversationSummary[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadPage = useCallback(async (pageToLoad: number) => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      let query = supabase
+        .from('coach_conversations')
+        .select('id, title, stress_level, persona, created_at, updated_at')
+        .eq('user_id', user.id);
+
+      const term = search.trim();
+      if (term) {
+        // Escape LIKE wildcards typed by the user
+        query = query.ilike('title', `%${term.replace(/[\\%_]/g, '\\$&')}%`);
+      }
+
+      const from = pageToLoad * PAGE_SIZE;
+      // One extra row tells whether another page exists
+      const { data, error } = await query
+        .order('updated_at', { ascending: false })
+        .range(from, from + PAGE_SIZE);
+
+      if (error) throw error;
+
+      const rows = data || [];
+      setHasMore(rows.length > PAGE_SIZE);
+      setConversations((prev) => [...(pageToLoad === 0 ? [] : prev), ...rows.slice(0, PAGE_SIZE)]);
+      setPage(pageToLoad);
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [search]);
+
+  const refresh = useCallback(() => loadPage(0), [loadPage]);
+  const loadMore = useCallback(() => loadPage(page + 1), [loadPage, page]);
+
+  const rename = useCallback(async (id: string, title: string) => {
+    const { error } = await supabase.from('coach_conversations').update({ title }).eq('id', id);
+    if (error) throw error;
+    setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, title } : c)));
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    const { error } = await supabase.from('coach_conversations').delete().eq('id', id);
+    if (error) throw error;
+    setConversations((prev) => prev.filter((c) => c.id !== id));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { conversations, loading, hasMore, refresh, loadMore, rename, remove };
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CoachMemory = Tables<'coach_memories'>;
+
+export type CoachMemoryKind = 'goal' | 'stressor' | 'preference' | 'helpful_intervention';
+
+export function useCoachMemories() {
+  const [memories, setMemories] = useState<CoachMemory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('coach_memories')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+
+      setMemories(data || []);
+    } catch (error) {
+      console.error('Error loading coach memories:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const add = useCallback(async (kind: CoachMemoryKind, content: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('coach_memories')
+      .insert({ user_id: user.id, kind, content, source: 'user' })
+      .select('*')
+      .single();
+    if (error) throw error;
+
+    setMemories((prev) => [data, ...prev]);
+  }, []);
+
+  // An edited memory becomes the user's own (the coach_memories_touch trigger sets source and updated_at),
+  // so later summaries leave it untouched
+  const update = useCallback(async (id: string, content: string) => {
+    setMemories((prev) => prev.map((memory) => (
+      memory.id === id ? { ...memory, content, source: 'user', updated_at: new Date().toISOString() } : memory
+    )));
+
+    const { error } = await supabase.from('coach_memories').update({ content }).eq('id', id);
+    if (error) {
+      refresh();
+      throw error;
+    }
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    setMemories((prev) => prev.filter((memory) => memory.id !== id));
+
+    const { error } = await supabase.from('coach_memories').delete().eq('id', id);
+    if (error) {
+      refresh();
+      throw error;
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { memories, loading, refresh, add, update, remove };
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { ArchivedComplianceReport, ComplianceReport } from '@/lib/complianceReport';
+import type { Nr1ReportInput } from '@/lib/validations';
+
+const ARCHIVE_LIMIT = 20;
+
+// Archived NR-1 reports of an organization (readable by its HR admins) and generation of new ones
+export function useComplianceReports(organizationId: string | null) {
+  const [reports, setReports] = useState<ArchivedComplianceReport[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!organizationId) {
+      setReports([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('compliance_reports')
+        .select('id, created_at, content_hash, report')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false })
+        .limit(ARCHIVE_LIMIT);
+      if (error) throw error;
+
+      setReports(
+        (data ?? []).map((row) => ({
+          id: row.id,
+          createdAt: row.created_at,
+          contentHash: row.content_hash,
+          report: row.report as unknown as ComplianceReport,
+        }))
+      );
+    } catch (error) {
+      console.error('Error loading compliance reports:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const generate = async (input: Omit<Nr1ReportInput, 'organizationId'>) => {
+    if (!organizationId) throw new Error('No organization selected');
+
+    const { data, error } = await supabase.functions.invoke('nr1-report', { body: { ...input, organizationId } });
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+
+    const archived: ArchivedComplianceReport = {
+      id: data.id,
+      createdAt: data.createdAt,
+      contentHash: data.contentHash,
+      report: data.report,
+    };
+    setReports((current) => [archived, ...current].slice(0, ARCHIVE_LIMIT));
+    return archived;
+  };
+
+  return { reports, loading, refresh, generate };
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { EarBaseline } from '@/lib/earCalibration';
+
+export function useEarBaseline() {
+  const [baseline, setBaseline] = useState<EarBaseline | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadBaseline = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+
+        const { data, error } = await supabase
+          .from('user_ear_baselines')
+          .select('baseline_open, baseline_closed, threshold')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        if (data) {
+          setBaseline({
+            baselineOpen: Number(data.baseline_open),
+            baselineClosed: Number(data.baseline_closed),
+            threshold: Number(data.threshold),
+          });
+        }
+      } catch (error) {
+        console.error('Error loading EAR baseline:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBaseline();
+  }, []);
+
+  const saveBaseline = async (next: EarBaseline) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('You must be signed in to save calibration');
+
+    const { error } = await supabase
+      .from('user_ear_baselines')
+      .upsert(
+        {
+          user_id: user.id,
+          baseline_open: next.baselineOpen,
+          baseline_closed: next.baselineClosed,
+          threshold: next.threshold,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' }
+      );
+
+    if (error) throw error;
+    setBaseline(next);
+  };
+
+  return { baseline, loading, saveBaseline };
+}
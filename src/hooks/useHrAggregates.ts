@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { HrAggregatesInput } from '@/lib/validations';
+
+type StressLevel = 'low' | 'moderate' | 'high';
+
+// Protected cell returned by the hr-aggregates edge function (see supabase/functions/_shared/privacy.ts)
+export interface TeamSummary {
+  // Rounded down to memberStep
+  memberCount: number;
+  reportingMembers: number | null;
+  scanCount: number | null;
+  percentages: Record<StressLevel, number | null>;
+  avgRmssd: number | null;
+  suppressed: boolean;
+  suppressedLevels: StressLevel[];
+  noised: boolean;
+}
+
+export interface BucketSummary {
+  // YYYY-MM-DD for day/week series, "<ISO weekday>-<hour>" for the heatmap
+  bucket: string;
+  summary: TeamSummary;
+}
+
+export interface HrAggregates {
+  // Minimum distinct employees behind any published number
+  k: number;
+  // Differential-privacy budget, null when exact values are published
+  epsilon: number | null;
+  memberStep: number;
+  // Effective ranges, widened to whole local days (weeks for weekly series)
+  range: { from: string; to: string };
+  previousRange: { from: string; to: string };
+  summary: TeamSummary;
+  previous: TeamSummary;
+  heatmap: BucketSummary[];
+  series: BucketSummary[];
+}
+
+export type HrAggregatesQuery = Omit<HrAggregatesInput, 'cursor'>;
+
+// Series pages fetched per load (100 buckets each)
+const MAX_PAGES = 5;
+
+// Aggregated stress for a team (or the whole organization when teamId is omitted).
+// hr-aggregates is the only source: it suppresses small groups and never returns individual scans.
+export function useHrAggregates(query: HrAggregatesQuery | null) {
+  const [data, setData] = useState<HrAggregates | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const queryKey = query ? JSON.stringify(query) : null;
+
+  const refresh = useCallback(async () => {
+    if (!queryKey) {
+      setData(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const body: HrAggregatesQuery = JSON.parse(queryKey);
+      const { data: first, error } = await supabase.functions.invoke('hr-aggregates', { body });
+      if (error) throw error;
+      if (first?.error) throw new Error(first.error);
+
+      const series: BucketSummary[] = [...first.series];
+      let cursor: string | null = first.nextCursor;
+      for (let page = 1; cursor && page < MAX_PAGES; page++) {
+        const { data: next, error: pageError } = await supabase.functions.invoke('hr-aggregates', { body: { ...body, cursor } });
+        if (pageError) throw pageError;
+        if (next?.error) throw new Error(next.error);
+        series.push(...next.series);
+        cursor = next.nextCursor;
+      }
+
+      setData({ ...first, series });
+      setError(null);
+    } catch (error) {
+      console.error('Error loading HR aggregates:', error);
+      setData(null);
+      setError(error instanceof Error ? error.message : 'Could not load team data');
+    } finally {
+      setLoading(false);
+    }
+  }, [queryKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { data, summary: data?.summary ?? null, loading, error, refresh };
+}
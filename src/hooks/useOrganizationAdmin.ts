@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { OrgRole } from '@/hooks/useOrganizations';
+
+export type OrganizationMember = Tables<'organization_members'>;
+export type OrganizationInvitation = Tables<'organization_invitations'>;
+
+// Member, team and invitation management for HR admins (enforced by RLS)
+export function useOrganizationAdmin(organizationId: string | null) {
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!organizationId) return;
+    try {
+      const [membersResult, invitationsResult] = await Promise.all([
+        supabase
+          .from('organization_members')
+          .select('*')
+          .eq('organization_id', organizationId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('organization_invitations')
+          .select('*')
+          .eq('organization_id', organizationId)
+          .is('accepted_at', null)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+      if (invitationsResult.error) throw invitationsResult.error;
+
+      setMembers(membersResult.data || []);
+      setInvitations(invitationsResult.data || []);
+    } catch (error) {
+      console.error('Error loading organization members:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  const createTeam = useCallback(async (name: string) => {
+    if (!organizationId) return;
+    const { error } = await supabase.from('teams').insert({ organization_id: organizationId, name });
+    if (error) throw error;
+  }, [organizationId]);
+
+  const invite = useCallback(async (email: string, role: OrgRole, teamId: string | null) => {
+    if (!organizationId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error } = await supabase.from('organization_invitations').insert({
+      organization_id: organizationId,
+      email: email.trim().toLowerCase(),
+      role,
+      team_id: teamId,
+      invited_by: user?.id ?? null,
+    });
+    if (error) throw error;
+    await refresh();
+  }, [organizationId, refresh]);
+
+  const revokeInvitation = useCallback(async (id: string) => {
+    const { error } = await supabase.from('organization_invitations').delete().eq('id', id);
+    if (error) throw error;
+    setInvitations((prev) => prev.filter((invitation) => invitation.id !== id));
+  }, []);
+
+  const updateMember = useCallback(async (id: string, patch: { role?: OrgRole; team_id?: string | null }) => {
+    const { error } = await supabase.from('organization_members').update(patch).eq('id', id);
+    if (error) throw error;
+    setMembers((prev) => prev.map((member) => (member.id === id ? { ...member, ...patch } : member)));
+  }, []);
+
+  const removeMember = useCallback(async (id: string) => {
+    const { error } = await supabase.from('organization_members').delete().eq('id', id);
+    if (error) throw error;
+    setMembers((prev) => prev.filter((member) => member.id !== id));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { members, invitations, loading, refresh, createTeam, invite, revokeInvitation, updateMember, removeMember };
+}
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type OrgRole = Database['public']['Enums']['org_role'];
+export type Team = Tables<'teams'>;
+
+export interface OrgMembership {
+  id: string;
+  organizationId: string;
+  organizationName: string;
+  role: OrgRole;
+  teamId: string | null;
+}
+
+export interface PendingInvitation {
+  token: string;
+  organizationName: string;
+  role: OrgRole;
+  expiresAt: string;
+}
+
+// The signed-in user's organizations, the teams in them and invitations waiting for them
+export function useOrganizations() {
+  const [memberships, setMemberships] = useState<OrgMembership[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const [membershipsResult, invitationsResult] = await Promise.all([
+        supabase
+          .from('organization_members')
+          .select('id, organization_id, role, team_id, organizations(name)')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('organization_invitations')
+          .select('token, role, expires_at, organizations(name)')
+          .eq('email', (user.email ?? '').toLowerCase())
+          .is('accepted_at', null)
+          .gt('expires_at', new Date().toISOString()),
+      ]);
+
+      if (membershipsResult.error) throw membershipsResult.error;
+      if (invitationsResult.error) throw invitationsResult.error;
+
+      const rows = membershipsResult.data || [];
+      setMemberships(rows.map((row) => ({
+        id: row.id,
+        organizationId: row.organization_id,
+        organizationName: row.organizations?.name ?? '',
+        role: row.role,
+        teamId: row.team_id,
+      })));
+      setInvitations((invitationsResult.data || []).map((row) => ({
+        token: row.token,
+        organizationName: row.organizations?.name ?? '',
+        role: row.role,
+        expiresAt: row.expires_at,
+      })));
+
+      const organizationIds = rows.map((row) => row.organization_id);
+      if (organizationIds.length === 0) {
+        setTeams([]);
+        return;
+      }
+
+      const { data: teamRows, error } = await supabase
+        .from('teams')
+        .select('*')
+        .in('organization_id', organizationIds)
+        .order('name', { ascending: true });
+      if (error) throw error;
+
+      setTeams(teamRows || []);
+    } catch (error) {
+      console.error('Error loading organizations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createOrganization = useCallback(async (name: string) => {
+    const { data, error } = await supabase.rpc('create_organization', { _name: name });
+    if (error) throw error;
+    await refresh();
+    return data;
+  }, [refresh]);
+
+  const acceptInvitation = useCallback(async (token: string) => {
+    const { data, error } = await supabase.rpc('accept_organization_invitation', { _token: token });
+    if (error) throw error;
+    await refresh();
+    return data;
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { memberships, teams, invitations, loading, refresh, createOrganization, acceptInvitation };
+}
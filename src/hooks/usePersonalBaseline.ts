@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { BASELINE_WINDOW_DAYS, computeBaselines, type PersonalBaselines } from '@/lib/personalBaseline';
+
+export function usePersonalBaseline() {
+  const [baselines, setBaselines] = useState<PersonalBaselines | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const since = new Date();
+      since.setDate(since.getDate() - BASELINE_WINDOW_DAYS);
+
+      const { data, error } = await supabase
+        .from('stress_scans')
+        .select('created_at, blink_rate, rmssd, heart_rate')
+        .eq('user_id', user.id)
+        .eq('is_valid', true)
+        .gt('blink_rate', 0)
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+
+      setBaselines(computeBaselines(data || []));
+    } catch (error) {
+      console.error('Error loading personal baseline:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { baselines, loading, refresh };
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// The Web Speech API is not in TypeScript's DOM lib; only the parts used here are typed
+interface SpeechRecognitionResultLike {
+  isFinal: boolean;
+  0: { transcript: string };
+}
+
+interface SpeechRecognitionEventLike {
+  resultIndex: number;
+  results: ArrayLike<SpeechRecognitionResultLike>;
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as Window & {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied',
+  'service-not-allowed': 'Speech recognition is blocked in this browser',
+  'audio-capture': 'No microphone was found',
+  network: 'Speech recognition needs a network connection',
+};
+
+interface SpeechRecognitionOptions {
+  lang: string;
+  // Called once per push-to-talk with the full final transcript
+  onFinal: (transcript: string) => void;
+  onError?: (message: string) => void;
+}
+
+// Push-to-talk speech-to-text: start() while the button is held, stop() on release
+export function useSpeechRecognition({ lang, onFinal, onError }: SpeechRecognitionOptions) {
+  const [listening, setListening] = useState(false);
+  const [interim, setInterim] = useState('');
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+  const finalRef = useRef('');
+  const callbacksRef = useRef({ onFinal, onError });
+  callbacksRef.current = { onFinal, onError };
+
+  const supported = !!getRecognitionConstructor();
+
+  const start = useCallback(() => {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition || recognitionRef.current) return;
+
+    const recognition = new Recognition();
+    recognition.lang = lang;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    finalRef.current = '';
+
+    recognition.onresult = (event) => {
+      let pending = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          finalRef.current += `${result[0].transcript} `;
+        } else {
+          pending += result[0].transcript;
+        }
+      }
+      setInterim(`${finalRef.current}${pending}`.trim());
+    };
+    recognition.onerror = (event) => {
+      // "no-speech" and "aborted" just mean nothing was captured
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      callbacksRef.current.onError?.(ERROR_MESSAGES[event.error] ?? 'Speech recognition failed');
+    };
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      setListening(false);
+      setInterim('');
+      const transcript = finalRef.current.trim();
+      finalRef.current = '';
+      if (transcript) callbacksRef.current.onFinal(transcript);
+    };
+
+    try {
+      recognition.start();
+      recognitionRef.current = recognition;
+      setListening(true);
+    } catch (error) {
+      console.error('Error starting speech recognition:', error);
+      callbacksRef.current.onError?.('Speech recognition could not start');
+    }
+  }, [lang]);
+
+  // Final results arrive after stop(), then onend delivers the transcript
+  const stop = useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  useEffect(() => () => recognitionRef.current?.abort(), []);
+
+  return { supported, listening, interim, start, stop };
+}
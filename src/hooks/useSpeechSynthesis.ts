@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const getSynth = () => (typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : undefined);
+
+// Spoken replies; voices load asynchronously in most browsers
+export function useSpeechSynthesis() {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [speaking, setSpeaking] = useState(false);
+  const synth = getSynth();
+
+  useEffect(() => {
+    if (!synth) return;
+
+    const loadVoices = () => setVoices(synth.getVoices());
+    loadVoices();
+    synth.addEventListener('voiceschanged', loadVoices);
+    return () => {
+      synth.removeEventListener('voiceschanged', loadVoices);
+      synth.cancel();
+    };
+  }, [synth]);
+
+  const speak = useCallback((text: string, { lang, voiceURI }: { lang: string; voiceURI?: string }) => {
+    if (!synth || !text.trim()) return;
+
+    synth.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = lang;
+    utterance.voice = synth.getVoices().find((voice) => voice.voiceURI === voiceURI) ?? null;
+    utterance.rate = 1.0;
+    utterance.onstart = () => setSpeaking(true);
+    utterance.onend = () => setSpeaking(false);
+    utterance.onerror = () => setSpeaking(false);
+    synth.speak(utterance);
+  }, [synth]);
+
+  const cancel = useCallback(() => {
+    synth?.cancel();
+    setSpeaking(false);
+  }, [synth]);
+
+  return { supported: !!synth, voices, speaking, speak, cancel };
+}
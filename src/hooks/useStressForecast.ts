@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { StressForecastInput } from '@/lib/validations';
+import type { BacktestReport, ForecastDriver, RiskForecast } from '../../supabase/functions/_shared/forecast.ts';
+
+export type { BacktestReport, ForecastDriver, RiskForecast };
+
+export interface StressForecast {
+  scope: 'self' | 'team';
+  // Local date the forecast starts from
+  asOf: string;
+  k?: number;
+  epsilon?: number | null;
+  forecast: RiskForecast;
+  backtest: BacktestReport;
+}
+
+// Two-week burnout-risk forecast from the stress-forecast edge function.
+// Without an organizationId it covers the signed-in user's own scans.
+export function useStressForecast(query: StressForecastInput | null) {
+  const [data, setData] = useState<StressForecast | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const queryKey = query ? JSON.stringify(query) : null;
+
+  const refresh = useCallback(async () => {
+    if (!queryKey) {
+      setData(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data: result, error } = await supabase.functions.invoke('stress-forecast', { body: JSON.parse(queryKey) });
+      if (error) throw error;
+      if (result?.error) throw new Error(result.error);
+
+      setData(result);
+      setError(null);
+    } catch (error) {
+      console.error('Error loading stress forecast:', error);
+      setData(null);
+      setError(error instanceof Error ? error.message : 'Could not compute the forecast');
+    } finally {
+      setLoading(false);
+    }
+  }, [queryKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { data, loading, error, refresh };
+}
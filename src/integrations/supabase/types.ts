@@ -14,13 +14,60 @@ export type Database = {
   }
   public: {
     Tables: {
+      coach_action_items: {
+        Row: {
+          completed_at: string | null
+          conversation_id: string | null
+          created_at: string
+          deadline: string | null
+          id: string
+          metric: string | null
+          status: string
+          task: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          deadline?: string | null
+          id?: string
+          metric?: string | null
+          status?: string
+          task: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          deadline?: string | null
+          id?: string
+          metric?: string | null
+          status?: string
+          task?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coach_action_items_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "coach_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       coach_conversations: {
         Row: {
           action_plan: string | null
           created_at: string | null
           id: string
           messages: Json
+          persona: string
+          persona_version: number
           stress_level: string
+          title: string | null
           updated_at: string | null
           user_id: string
         }
@@ -29,7 +76,10 @@ export type Database = {
           created_at?: string | null
           id?: string
           messages?: Json
+          persona?: string
+          persona_version?: number
           stress_level: string
+          title?: string | null
           updated_at?: string | null
           user_id: string
         }
@@ -38,12 +88,130 @@ export type Database = {
           created_at?: string | null
           id?: string
           messages?: Json
+          persona?: string
+          persona_version?: number
           stress_level?: string
+          title?: string | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      coach_memories: {
+        Row: {
+          content: string
+          conversation_id: string | null
+          created_at: string
+          id: string
+          kind: string
+          source: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          conversation_id?: string | null
+          created_at?: string
+          id?: string
+          kind: string
+          source?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string | null
+          created_at?: string
+          id?: string
+          kind?: string
+          source?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coach_memories_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "coach_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coach_safety_events: {
+        Row: {
+          category: string
+          created_at: string
+          id: string
+          language: string
+          persona: string
+          source: string
+          stage: string
+          subject_hash: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          id?: string
+          language: string
+          persona: string
+          source: string
+          stage: string
+          subject_hash: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          id?: string
+          language?: string
+          persona?: string
+          source?: string
+          stage?: string
+          subject_hash?: string
+        }
+        Relationships: []
+      }
+      compliance_reports: {
+        Row: {
+          content_hash: string
+          created_at: string
+          generated_by: string | null
+          id: string
+          organization_id: string
+          period_from: string
+          period_to: string
+          report: Json
+        }
+        Insert: {
+          content_hash: string
+          created_at?: string
+          generated_by?: string | null
+          id?: string
+          organization_id: string
+          period_from: string
+          period_to: string
+          report: Json
+        }
+        Update: {
+          content_hash?: string
+          created_at?: string
+          generated_by?: string | null
+          id?: string
+          organization_id?: string
+          period_from?: string
+          period_to?: string
+          report?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_reports_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       email_logs: {
         Row: {
           email_type: string
@@ -112,8 +280,204 @@ export type Database = {
           },
         ]
       }
+      llm_calls: {
+        Row: {
+          attempts: number
+          completion_tokens: number | null
+          created_at: string
+          error: string | null
+          feature: string
+          id: string
+          latency_ms: number
+          model: string
+          prompt_tokens: number | null
+          provider: string
+          status: string
+          total_tokens: number | null
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          completion_tokens?: number | null
+          created_at?: string
+          error?: string | null
+          feature: string
+          id?: string
+          latency_ms: number
+          model: string
+          prompt_tokens?: number | null
+          provider: string
+          status: string
+          total_tokens?: number | null
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          completion_tokens?: number | null
+          created_at?: string
+          error?: string | null
+          feature?: string
+          id?: string
+          latency_ms?: number
+          model?: string
+          prompt_tokens?: number | null
+          provider?: string
+          status?: string
+          total_tokens?: number | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      meditation_sessions: {
+        Row: {
+          completed: boolean
+          created_at: string
+          duration_seconds: number
+          id: string
+          started_at: string
+          user_id: string
+        }
+        Insert: {
+          completed?: boolean
+          created_at?: string
+          duration_seconds: number
+          id?: string
+          started_at: string
+          user_id: string
+        }
+        Update: {
+          completed?: boolean
+          created_at?: string
+          duration_seconds?: number
+          id?: string
+          started_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      organization_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+          team_id: string | null
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role?: Database["public"]["Enums"]["org_role"]
+          team_id?: string | null
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: Database["public"]["Enums"]["org_role"]
+          team_id?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_invitations_team_id_organization_id_fkey"
+            columns: ["team_id", "organization_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id", "organization_id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+          team_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          organization_id: string
+          role?: Database["public"]["Enums"]["org_role"]
+          team_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["org_role"]
+          team_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_team_id_organization_id_fkey"
+            columns: ["team_id", "organization_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id", "organization_id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
+          coach_persona: string | null
           created_at: string | null
           email: string | null
           full_name: string | null
@@ -121,6 +485,7 @@ export type Database = {
           preferred_name: string | null
         }
         Insert: {
+          coach_persona?: string | null
           created_at?: string | null
           email?: string | null
           full_name?: string | null
@@ -128,6 +493,7 @@ export type Database = {
           preferred_name?: string | null
         }
         Update: {
+          coach_persona?: string | null
           created_at?: string | null
           email?: string | null
           full_name?: string | null
@@ -138,31 +504,102 @@ export type Database = {
       }
       stress_scans: {
         Row: {
+          blink_duration_ms: number | null
           blink_rate: number
           created_at: string | null
+          heart_rate: number | null
+          hf_power: number | null
           hrv_value: number | null
           id: string
+          is_valid: boolean
+          lf_hf_ratio: number | null
+          lf_power: number | null
+          model_id: string | null
+          pnn50: number | null
+          quality_metrics: Json | null
+          quality_score: number | null
+          rmssd: number | null
+          sdnn: number | null
+          stress_confidence: number | null
           stress_level: string
+          stress_score: number | null
           user_id: string
         }
         Insert: {
+          blink_duration_ms?: number | null
           blink_rate: number
           created_at?: string | null
+          heart_rate?: number | null
+          hf_power?: number | null
           hrv_value?: number | null
           id?: string
+          is_valid?: boolean
+          lf_hf_ratio?: number | null
+          lf_power?: number | null
+          model_id?: string | null
+          pnn50?: number | null
+          quality_metrics?: Json | null
+          quality_score?: number | null
+          rmssd?: number | null
+          sdnn?: number | null
+          stress_confidence?: number | null
           stress_level: string
+          stress_score?: number | null
           user_id: string
         }
         Update: {
+          blink_duration_ms?: number | null
           blink_rate?: number
           created_at?: string | null
+          heart_rate?: number | null
+          hf_power?: number | null
           hrv_value?: number | null
           id?: string
+          is_valid?: boolean
+          lf_hf_ratio?: number | null
+          lf_power?: number | null
+          model_id?: string | null
+          pnn50?: number | null
+          quality_metrics?: Json | null
+          quality_score?: number | null
+          rmssd?: number | null
+          sdnn?: number | null
+          stress_confidence?: number | null
           stress_level?: string
+          stress_score?: number | null
           user_id?: string
         }
         Relationships: []
       }
+      teams: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          organization_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          organization_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_ear_baselines: {
         Row: {
           baseline_closed: number
@@ -229,15 +666,159 @@ export type Database = {
         }
         Relationships: []
       }
+      vision_analyses: {
+        Row: {
+          confidence: number
+          created_at: string
+          id: string
+          is_fallback: boolean
+          language: string
+          overall_stress_level: string
+          report: Json
+          scan_id: string | null
+          user_id: string
+        }
+        Insert: {
+          confidence: number
+          created_at?: string
+          id?: string
+          is_fallback?: boolean
+          language?: string
+          overall_stress_level: string
+          report: Json
+          scan_id?: string | null
+          user_id: string
+        }
+        Update: {
+          confidence?: number
+          created_at?: string
+          id?: string
+          is_fallback?: boolean
+          language?: string
+          overall_stress_level?: string
+          report?: Json
+          scan_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vision_analyses_scan_id_fkey"
+            columns: ["scan_id"]
+            isOneToOne: false
+            referencedRelation: "stress_scans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vision_analysis_requests: {
+        Row: {
+          created_at: string
+          frame_count: number
+          id: string
+          latency_ms: number | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          frame_count?: number
+          id?: string
+          latency_ms?: number | null
+          status: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          frame_count?: number
+          id?: string
+          latency_ms?: number | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_organization_invitation: {
+        Args: { _token: string }
+        Returns: string
+      }
+      append_coach_messages: {
+        Args: {
+          _conversation_id: string
+          _messages: Json
+          _user_id: string
+        }
+        Returns: string
+      }
+      create_organization: {
+        Args: { _name: string }
+        Returns: string
+      }
+      has_org_role: {
+        Args: {
+          _organization_id: string
+          _role: Database["public"]["Enums"]["org_role"]
+        }
+        Returns: boolean
+      }
+      hr_intervention_counts: {
+        Args: {
+          _from: string
+          _organization_id: string
+          _team_id: string
+          _to: string
+          _user_id: string
+        }
+        Returns: {
+          action_item_members: number
+          action_items_completed: number
+          action_items_created: number
+          coach_members: number
+          coach_sessions: number
+          meditation_members: number
+          meditation_sessions: number
+          member_count: number
+        }[]
+      }
+      hr_stress_buckets: {
+        Args: {
+          _after?: string
+          _from: string
+          _grouping?: string
+          _limit?: number
+          _max_scans_per_member?: number
+          _organization_id: string
+          _team_id: string
+          _timezone?: string
+          _to: string
+          _user_id: string
+        }
+        Returns: {
+          avg_rmssd: number | null
+          bucket: string
+          high_count: number
+          high_members: number
+          low_count: number
+          low_members: number
+          member_count: number
+          moderate_count: number
+          moderate_members: number
+          reporting_members: number
+          rmssd_members: number
+          scan_count: number
+        }[]
+      }
+      is_org_member: {
+        Args: { _organization_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
-      [_ in never]: never
+      org_role: "employee" | "manager" | "hr_admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -364,6 +945,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      org_role: ["employee", "manager", "hr_admin"],
+    },
   },
 } as const
@@ -0,0 +1,35 @@
+// Biometric context for NeuroCoach: built from the user's latest valid scans by the shared module,
+// described here for the "Data shared with NeuroCoach" panel
+import type { BiometricContext } from '@/lib/validations';
+
+export {
+  BIOMETRIC_SCAN_COUNT,
+  buildBiometricContext,
+  type BiometricScan,
+} from '../../supabase/functions/_shared/biometricContext.ts';
+
+const TREND_LABELS: Record<BiometricContext['trend'], string> = {
+  improving: 'improving',
+  worsening: 'worsening',
+  stable: 'stable',
+  insufficient_data: 'not enough scans yet',
+};
+
+const formatAge = (hours: number) => {
+  if (hours < 1) return 'less than an hour ago';
+  if (hours < 48) return `${Math.round(hours)}h ago`;
+  return `${Math.round(hours / 24)} days ago`;
+};
+
+// Human-readable lines, shown to the user as "what the coach sees"
+export const describeBiometricContext = (context: BiometricContext): string[] => {
+  if (!context.latest) return [];
+  const { latest, averages } = context;
+
+  return [
+    `Last scan: ${latest.stressLevel} stress${latest.stressScore != null ? ` (${latest.stressScore}/100)` : ''}${context.hoursSinceLastScan != null ? `, ${formatAge(context.hoursSinceLastScan)}` : ''}`,
+    ...(latest.rmssd != null ? [`HRV (RMSSD): ${latest.rmssd}ms${averages.rmssd != null ? ` (avg ${averages.rmssd}ms)` : ''}`] : []),
+    ...(latest.heartRate != null ? [`Heart rate: ${latest.heartRate} bpm${averages.heartRate != null ? ` (avg ${averages.heartRate} bpm)` : ''}`] : []),
+    `Trend over ${context.scanCount} scan${context.scanCount > 1 ? 's' : ''}: ${TREND_LABELS[context.trend]}`,
+  ];
+};
@@ -0,0 +1,102 @@
+// Conversation exports for NeuroCoach: Markdown, PDF and JSON
+import { markdownToPlainText } from '@/lib/markdown';
+import { createTextPdf, type PdfLine } from '@/lib/pdf';
+
+export interface CoachExportMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt?: string;
+}
+
+export interface CoachExportActionItem {
+  task: string;
+  deadline: string | null;
+  metric: string | null;
+  status: string;
+  completed_at: string | null;
+}
+
+export interface CoachExportData {
+  conversationId: string | null;
+  title: string;
+  stressLevel: string;
+  persona: string | null;
+  exportedAt: string;
+  messages: CoachExportMessage[];
+  actionItems: CoachExportActionItem[];
+}
+
+export type CoachExportFormat = 'markdown' | 'pdf' | 'json';
+
+const speaker = (message: CoachExportMessage) => (message.role === 'user' ? 'You' : 'NeuroCoach');
+
+const formatTimestamp = (iso?: string | null) => (iso ? new Date(iso).toLocaleString() : '');
+
+const actionItemLine = (item: CoachExportActionItem) =>
+  `${item.task}${item.deadline ? ` (by ${item.deadline})` : ''}${item.metric ? ` - metric: ${item.metric}` : ''}`;
+
+export const toMarkdown = (data: CoachExportData) => {
+  const lines = [
+    `# ${data.title}`,
+    '',
+    `- Exported: ${formatTimestamp(data.exportedAt)}`,
+    `- Stress level: ${data.stressLevel}`,
+    ...(data.persona ? [`- Persona: ${data.persona}`] : []),
+    '',
+  ];
+
+  if (data.actionItems.length > 0) {
+    lines.push('## Action plan', '');
+    data.actionItems.forEach((item) => lines.push(`- [${item.status === 'done' ? 'x' : ' '}] ${actionItemLine(item)}`));
+    lines.push('');
+  }
+
+  lines.push('## Conversation', '');
+  data.messages.forEach((message) => {
+    const timestamp = formatTimestamp(message.createdAt);
+    lines.push(`### ${speaker(message)}${timestamp ? ` · ${timestamp}` : ''}`, '', message.content, '');
+  });
+
+  return lines.join('\n');
+};
+
+export const toJson = (data: CoachExportData) => JSON.stringify(data, null, 2);
+
+export const toPdf = (data: CoachExportData) => {
+  const lines: PdfLine[] = [
+    { text: data.title, bold: true, size: 16 },
+    { text: `Exported ${formatTimestamp(data.exportedAt)} · Stress level: ${data.stressLevel}${data.persona ? ` · Persona: ${data.persona}` : ''}`, size: 9, spaceBefore: 4 },
+  ];
+
+  if (data.actionItems.length > 0) {
+    lines.push({ text: 'Action plan', bold: true, size: 12, spaceBefore: 14 });
+    data.actionItems.forEach((item) =>
+      lines.push({ text: `[${item.status === 'done' ? 'x' : ' '}] ${actionItemLine(item)}`, spaceBefore: 2 })
+    );
+  }
+
+  lines.push({ text: 'Conversation', bold: true, size: 12, spaceBefore: 14 });
+  data.messages.forEach((message) => {
+    const timestamp = formatTimestamp(message.createdAt);
+    lines.push({ text: `${speaker(message)}${timestamp ? ` · ${timestamp}` : ''}`, bold: true, spaceBefore: 8 });
+    lines.push({ text: markdownToPlainText(message.content) });
+  });
+
+  return createTextPdf(lines);
+};
+
+export const downloadCoachExport = (data: CoachExportData, format: CoachExportFormat) => {
+  const blob =
+    format === 'pdf'
+      ? toPdf(data)
+      : new Blob([format === 'json' ? toJson(data) : toMarkdown(data)], {
+          type: format === 'json' ? 'application/json' : 'text/markdown',
+        });
+  const extension = format === 'markdown' ? 'md' : format;
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `neurosuite-coach-${data.exportedAt.slice(0, 10)}.${extension}`;
+  a.click();
+};
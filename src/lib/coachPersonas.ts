@@ -0,0 +1,14 @@
+// NeuroCoach personas selectable in the UI (prompt templates live in the neuro-coach edge function)
+import type { CoachMessageInput } from '@/lib/validations';
+
+export type CoachPersona = NonNullable<CoachMessageInput['persona']>;
+
+export const COACH_PERSONAS: { id: CoachPersona; label: string; description: string }[] = [
+  { id: 'supportive', label: 'Supportive', description: 'Warm and encouraging, one small step at a time' },
+  { id: 'brutal', label: 'Brutal Neurotruth', description: 'Direct confrontation backed by science' },
+  { id: 'clinical', label: 'Clinical-neutral', description: 'Objective indicators, no emotional language' },
+  { id: 'manager', label: 'Manager-facing', description: 'Team, workload and NR-1 decisions for leaders' },
+];
+
+export const isCoachPersona = (value: unknown): value is CoachPersona =>
+  COACH_PERSONAS.some((persona) => persona.id === value);
@@ -0,0 +1,113 @@
+// Client for the neuro-coach server-sent events stream
+import { supabase } from '@/integrations/supabase/client';
+import type { CoachMessageInput } from '@/lib/validations';
+
+interface StreamOptions {
+  signal?: AbortSignal;
+  onDelta: (delta: string) => void;
+  // The server swapped the streamed text for its safety response
+  onReplace?: (text: string) => void;
+  // Action items extracted from the reply and saved; arrives after the reply has resolved
+  onActionItems?: (count: number) => void;
+}
+
+interface CoachEvent {
+  delta?: string;
+  replace?: string;
+  done?: boolean;
+  conversationId?: string | null;
+  safety?: boolean;
+  actionItems?: number;
+  error?: string;
+}
+
+export interface CoachReply {
+  reply: string;
+  // Conversation the turns were appended to (null for ephemeral prompts)
+  conversationId: string | null;
+  // Reply is the safety response with helpline resources
+  safety: boolean;
+}
+
+// Parsed `data:` events of a server-sent events body
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<CoachEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+      if (line.startsWith('data:')) yield JSON.parse(line.slice(5));
+    }
+  }
+}
+
+// supabase.functions.invoke buffers the whole body, so the stream is read with fetch directly
+export const streamCoachReply = async (
+  body: CoachMessageInput,
+  { signal, onDelta, onReplace, onActionItems }: StreamOptions
+): Promise<CoachReply> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const anonKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/neuro-coach`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: anonKey,
+      Authorization: `Bearer ${session?.access_token ?? anonKey}`,
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? `NeuroCoach request failed (${response.status})`);
+  }
+
+  const events = readEvents(response.body);
+  let reply = '';
+
+  while (true) {
+    const { done, value: event } = await events.next();
+    if (done) break;
+
+    if (event.error) throw new Error(event.error);
+    if (event.replace !== undefined) {
+      reply = event.replace;
+      onReplace?.(event.replace);
+    }
+    if (event.done) {
+      // The stream stays open until the action items are saved; they are reported without holding the reply
+      void (async () => {
+        while (true) {
+          const { done: ended, value: later } = await events.next();
+          if (ended) return;
+          if (later.actionItems) onActionItems?.(later.actionItems);
+        }
+      })().catch(() => undefined);
+
+      return {
+        reply,
+        conversationId: event.conversationId ?? null,
+        safety: event.safety ?? false,
+      };
+    }
+    if (event.delta) {
+      reply += event.delta;
+      onDelta(event.delta);
+    }
+  }
+
+  // The server always ends a successful stream with {done}
+  throw new Error('NeuroCoach stream ended unexpectedly');
+};
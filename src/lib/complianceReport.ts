@@ -0,0 +1,144 @@
+// NR-1 psychosocial risk reports: PDF/JSON export and hash verification of archived reports.
+// Types and canonical hashing come from the module the nr1-report edge function generates them with.
+import {
+  canonicalJson,
+  sha256Hex,
+  type ComplianceReport,
+  type GroupAssessment,
+  type RiskLevel,
+} from '../../supabase/functions/_shared/complianceReport.ts';
+import { createTextPdf, type PdfLine } from '@/lib/pdf';
+import { memberCountLabel } from '@/lib/organizations';
+
+export { canonicalJson, sha256Hex };
+export type { ComplianceReport };
+export type ComplianceRiskLevel = RiskLevel;
+export type ComplianceGroup = GroupAssessment;
+
+// A report as stored in compliance_reports
+export interface ArchivedComplianceReport {
+  id: string;
+  createdAt: string;
+  contentHash: string;
+  report: ComplianceReport;
+}
+
+export type ComplianceExportFormat = 'pdf' | 'json';
+
+export const RISK_LEVEL_LABELS: Record<ComplianceRiskLevel, string> = {
+  critical: 'Critical',
+  high: 'High',
+  moderate: 'Moderate',
+  low: 'Low',
+  not_assessed: 'Not assessed',
+};
+
+// True when the archived content still matches the hash recorded when it was generated
+export const verifyComplianceReport = async (archived: ArchivedComplianceReport) =>
+  (await sha256Hex(canonicalJson(archived.report))) === archived.contentHash;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+// Periods end at an exclusive instant; show the last day they cover
+const formatEndDate = (iso: string) => new Date(new Date(iso).getTime() - 1).toLocaleDateString();
+const show = (value: number | null, unit = '') => (value === null ? 'withheld' : `${value}${unit}`);
+const showPeople = (value: number | null, step: number) => (value === null ? 'withheld' : memberCountLabel(value, step));
+
+const groupLines = (group: ComplianceGroup, k: number, step: number): PdfLine[] => {
+  const { exposure, trend, forecast, risk, interventions } = group;
+  const lines: PdfLine[] = [
+    { text: `${group.name} (${showPeople(group.memberCount, step)} members)`, bold: true, size: 12, spaceBefore: 14 },
+    {
+      text: `Risk level: ${RISK_LEVEL_LABELS[risk.level]}${risk.score !== null ? ` (exposure ${risk.exposure} × severity ${risk.severity} = ${risk.score})` : ''}`,
+      bold: true,
+      spaceBefore: 4,
+    },
+    ...risk.rationale.map((text) => ({ text: `• ${text}` })),
+    { text: 'Exposure during the period', bold: true, spaceBefore: 6 },
+  ];
+
+  if (exposure.suppressed) {
+    lines.push({ text: `Withheld: fewer than ${k} members scanned.` });
+  } else {
+    lines.push({
+      text: `Low ${show(exposure.percentages.low, '%')} • Moderate ${show(exposure.percentages.moderate, '%')} • High ${show(exposure.percentages.high, '%')} • Scans ${show(exposure.scanCount)} • Members with scans ${showPeople(exposure.reportingMembers, step)} • Average HRV ${exposure.avgRmssd === null ? 'withheld' : `${Math.round(exposure.avgRmssd)} ms`}`,
+    });
+  }
+
+  lines.push({ text: 'Trend evidence', bold: true, spaceBefore: 6 });
+  lines.push({
+    text: `High stress ${show(trend.previousHighPercent, '%')} in the previous period, ${show(trend.currentHighPercent, '%')} in this one (${trend.direction}${trend.changePoints !== null ? `, ${trend.changePoints > 0 ? '+' : ''}${trend.changePoints} points` : ''})`,
+  });
+  if (trend.weekly.length > 0) {
+    lines.push({
+      text: `Weekly high stress: ${trend.weekly.map((w) => `${w.week} ${show(w.highPercent, '%')}`).join(' • ')}`,
+      size: 9,
+    });
+  }
+
+  lines.push({ text: `Forecast (next ${forecast.horizonDays} days)`, bold: true, spaceBefore: 6 });
+  if (forecast.status === 'ok' && forecast.probability !== null) {
+    lines.push({
+      text: `${Math.round(forecast.probability * 100)}% probability of sustained high stress${forecast.probabilityInterval ? ` (90% CI ${Math.round(forecast.probabilityInterval.low * 100)}–${Math.round(forecast.probabilityInterval.high * 100)}%)` : ''}; expected high-stress share ${forecast.expectedHighPercent}%`,
+    });
+    forecast.drivers.forEach((driver) => lines.push({ text: `• ${driver.text}`, size: 9 }));
+  } else {
+    lines.push({ text: `Not enough history (${forecast.observedDays} days with published data).` });
+  }
+
+  lines.push({ text: 'Interventions performed', bold: true, spaceBefore: 6 });
+  lines.push({
+    text: `Mini-meditations completed: ${show(interventions.meditationSessions)} by ${showPeople(interventions.meditationParticipants, step)} people • NeuroCoach sessions: ${show(interventions.coachSessions)} by ${showPeople(interventions.coachParticipants, step)} people • Action items: ${show(interventions.actionItemsCreated)} created, ${show(interventions.actionItemsCompleted)} completed by ${showPeople(interventions.actionItemParticipants, step)} people`,
+  });
+
+  lines.push({ text: 'Recommended actions', bold: true, spaceBefore: 6 });
+  group.recommendedActions.forEach((text) => lines.push({ text: `• ${text}` }));
+  return lines;
+};
+
+export const toPdf = (archived: ArchivedComplianceReport) => {
+  const { report } = archived;
+  const lines: PdfLine[] = [
+    { text: 'NR-1 Psychosocial Risk Inventory (PGR)', bold: true, size: 16 },
+    { text: report.organization.name, bold: true, size: 12, spaceBefore: 4 },
+    {
+      text: `Period ${formatDate(report.period.from)} – ${formatEndDate(report.period.to)} (${report.period.timezone}) • Generated ${new Date(report.generatedAt).toLocaleString()}${report.generatedBy.email ? ` by ${report.generatedBy.email}` : ''}`,
+      size: 9,
+      spaceBefore: 4,
+    },
+    { text: `Report ${archived.id} • SHA-256 ${archived.contentHash}`, size: 8, spaceBefore: 2 },
+    { text: 'Summary', bold: true, size: 12, spaceBefore: 14 },
+    {
+      text: `${report.summary.groupsAssessed} groups assessed, ${report.summary.groupsNotAssessed} not assessed • Highest level: ${RISK_LEVEL_LABELS[report.summary.highestLevel]}`,
+    },
+    {
+      text: (Object.keys(RISK_LEVEL_LABELS) as ComplianceRiskLevel[])
+        .map((level) => `${RISK_LEVEL_LABELS[level]}: ${report.summary.byLevel[level] ?? 0}`)
+        .join(' • '),
+    },
+  ];
+
+  report.groups.forEach((group) => lines.push(...groupLines(group, report.privacy.k, report.privacy.memberStep)));
+
+  lines.push({ text: 'Methodology', bold: true, size: 12, spaceBefore: 14 });
+  report.methodology.forEach((text) => lines.push({ text: `• ${text}`, size: 9 }));
+  lines.push({
+    text: `Integrity: SHA-256 ${archived.contentHash} of the archived JSON (keys sorted). Export the JSON to verify it independently.`,
+    size: 8,
+    spaceBefore: 10,
+  });
+
+  return createTextPdf(lines);
+};
+
+export const toJson = (archived: ArchivedComplianceReport) =>
+  JSON.stringify({ id: archived.id, createdAt: archived.createdAt, hashAlgorithm: 'SHA-256', contentHash: archived.contentHash, report: archived.report }, null, 2);
+
+export const downloadComplianceReport = (archived: ArchivedComplianceReport, format: ComplianceExportFormat) => {
+  const blob = format === 'pdf' ? toPdf(archived) : new Blob([toJson(archived)], { type: 'application/json' });
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `nr1-report-${archived.report.period.to.slice(0, 10)}-${archived.id.slice(0, 8)}.${format}`;
+  a.click();
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { computeEarBaseline, needsRecalibration, thresholdsFromBaseline } from './earCalibration';
+
+const repeat = (value: number, count = 10) => Array<number>(count).fill(value);
+
+describe('thresholdsFromBaseline', () => {
+  it.each([
+    // open, closed, threshold, expected open threshold
+    [0.3, 0.1, 0.17, 0.24],
+    [0.34, 0.14, 0.21, 0.28],
+    // The open threshold always sits at least 0.01 above the close one
+    [0.3, 0.1, 0.3, 0.31],
+  ])('with open %s, closed %s and threshold %s re-arms above %s', (baselineOpen, baselineClosed, threshold, open) => {
+    const thresholds = thresholdsFromBaseline({ baselineOpen, baselineClosed, threshold });
+
+    expect(thresholds.close).toBe(threshold);
+    expect(thresholds.open).toBeCloseTo(open);
+  });
+});
+
+describe('computeEarBaseline', () => {
+  it('places the close threshold 35% of the way from closed to open', () => {
+    expect(computeEarBaseline({ open: repeat(0.3), blink: [], closed: repeat(0.1) })).toEqual({
+      baselineOpen: 0.3,
+      baselineClosed: 0.1,
+      threshold: 0.17,
+    });
+  });
+
+  it('uses deliberate blinks when they close further than the closed phase', () => {
+    const blink = [...repeat(0.28, 15), ...repeat(0.06, 5)];
+
+    expect(computeEarBaseline({ open: repeat(0.3), blink, closed: repeat(0.1) }).baselineClosed).toBe(0.06);
+  });
+
+  it.each([
+    ['too few samples', { open: repeat(0.3, 9), blink: [], closed: repeat(0.1) }, /Not enough face data/],
+    ['no separation', { open: repeat(0.3), blink: [], closed: repeat(0.27) }, /could not be told apart/],
+  ])('rejects %s', (_, samples, message) => {
+    expect(() => computeEarBaseline(samples)).toThrow(message);
+  });
+});
+
+describe('needsRecalibration', () => {
+  const thresholds = { close: 0.17, open: 0.24 };
+
+  it.each([
+    // resting EAR, samples, blinks, expected
+    [0.3, 10, 5, false],
+    [0.25, 10, 5, false],
+    [0.24, 10, 5, true],
+    [0.2, 10, 5, true],
+    [0.3, 10, 0, true],
+    // Too short to judge
+    [0.2, 9, 0, false],
+  ])('with a resting EAR of %s over %i samples and %i blinks is %s', (ear, samples, blinkCount, expected) => {
+    expect(needsRecalibration(repeat(ear, samples), blinkCount, thresholds)).toBe(expected);
+  });
+});
@@ -0,0 +1,90 @@
+// Personal EAR (Eye Aspect Ratio) calibration
+// Converts the samples collected during the guided calibration flow into
+// per-user thresholds stored in user_ear_baselines.
+
+export interface EarBaseline {
+  baselineOpen: number;
+  baselineClosed: number;
+  threshold: number;
+}
+
+export interface EarThresholds {
+  // EAR at or below this value counts as a closed eye
+  close: number;
+  // EAR must rise above this value before a new blink can be counted
+  open: number;
+}
+
+export interface EarCalibrationSamples {
+  open: number[];
+  blink: number[];
+  closed: number[];
+}
+
+export type CalibrationPhase = keyof EarCalibrationSamples;
+
+// Guided flow: eyes open, deliberate blinks, eyes closed
+export const CALIBRATION_PHASES: { phase: CalibrationPhase; durationMs: number; instruction: string }[] = [
+  { phase: 'open', durationMs: 5000, instruction: 'Keep your eyes open and look at the camera' },
+  { phase: 'blink', durationMs: 6000, instruction: 'Blink deliberately a few times' },
+  { phase: 'closed', durationMs: 3000, instruction: 'Close your eyes gently' },
+];
+
+// Position of the close/open thresholds between closed (0) and open (1) EAR
+const CLOSE_RATIO = 0.35;
+const OPEN_RATIO = 0.7;
+const MIN_SAMPLES_PER_PHASE = 10;
+const MIN_SEPARATION = 0.04;
+
+// Fallback used until the user calibrates (previous hard-coded values)
+export const getDefaultThresholds = (isMobile: boolean): EarThresholds =>
+  isMobile ? { close: 0.12, open: 0.18 } : { close: 0.15, open: 0.2 };
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * p)));
+  return sorted[index];
+};
+
+export const median = (values: number[]) => percentile(values, 0.5);
+
+export const thresholdsFromBaseline = (baseline: EarBaseline): EarThresholds => {
+  const range = baseline.baselineOpen - baseline.baselineClosed;
+  return {
+    close: baseline.threshold,
+    open: Math.max(baseline.threshold + 0.01, baseline.baselineClosed + range * OPEN_RATIO),
+  };
+};
+
+export const computeEarBaseline = (samples: EarCalibrationSamples): EarBaseline => {
+  if (samples.open.length < MIN_SAMPLES_PER_PHASE || samples.closed.length < MIN_SAMPLES_PER_PHASE) {
+    throw new Error('Not enough face data collected. Keep your face centred and well lit.');
+  }
+
+  const baselineOpen = median(samples.open);
+  // Deliberate blinks give a second estimate of the closed level
+  const closedCandidates = [median(samples.closed)];
+  if (samples.blink.length >= MIN_SAMPLES_PER_PHASE) {
+    closedCandidates.push(percentile(samples.blink, 0.05));
+  }
+  const baselineClosed = Math.min(...closedCandidates);
+
+  if (baselineOpen - baselineClosed < MIN_SEPARATION) {
+    throw new Error('Open and closed eyes could not be told apart. Try again with better lighting.');
+  }
+
+  const threshold = baselineClosed + (baselineOpen - baselineClosed) * CLOSE_RATIO;
+
+  return {
+    baselineOpen: Math.round(baselineOpen * 1000) / 1000,
+    baselineClosed: Math.round(baselineClosed * 1000) / 1000,
+    threshold: Math.round(threshold * 1000) / 1000,
+  };
+};
+
+// Detection quality dropped: resting EAR no longer clears the open threshold
+// (blinks cannot re-arm) or no blink was counted during a full scan.
+export const needsRecalibration = (earSamples: number[], blinkCount: number, thresholds: EarThresholds) => {
+  if (earSamples.length < MIN_SAMPLES_PER_PHASE) return false;
+  return median(earSamples) <= thresholds.open || blinkCount === 0;
+};
@@ -0,0 +1,49 @@
+// Date ranges for the HR Dashboard (sent to hr-aggregates as ISO timestamps)
+
+export type RangePreset = '7' | '30' | '90' | 'custom';
+
+export const RANGE_PRESETS: { id: RangePreset; label: string }[] = [
+  { id: '7', label: 'Last 7 days' },
+  { id: '30', label: 'Last 30 days' },
+  { id: '90', label: 'Last 90 days' },
+  { id: 'custom', label: 'Custom range' },
+];
+
+export const MAX_RANGE_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Whole local days, as the server widens every range to them: custom dates are inclusive (YYYY-MM-DD),
+// presets end with today
+export const resolveRange = (preset: RangePreset, customFrom: string, customTo: string, now = new Date()) => {
+  if (preset !== 'custom') {
+    const today = startOfDay(now);
+    const from = new Date(today.getFullYear(), today.getMonth(), today.getDate() - Number(preset) + 1);
+    return { from: from.toISOString(), to: new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1).toISOString() };
+  }
+  if (!customFrom || !customTo) return null;
+
+  const from = startOfDay(new Date(`${customFrom}T00:00:00`));
+  const to = new Date(startOfDay(new Date(`${customTo}T00:00:00`)).getTime() + DAY_MS);
+  const days = (to.getTime() - from.getTime()) / DAY_MS;
+  if (Number.isNaN(days) || days < 1 || days > MAX_RANGE_DAYS) return null;
+
+  return { from: from.toISOString(), to: to.toISOString() };
+};
+
+export const rangeDays = (range: { from: string; to: string }) =>
+  Math.round((new Date(range.to).getTime() - new Date(range.from).getTime()) / DAY_MS);
+
+export const browserTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+// YYYY-MM-DD in local time, for date inputs
+export const dateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
@@ -0,0 +1,118 @@
+// Minimal markdown subset used by coach replies and vision reports.
+// Parsed into plain data so nothing is ever injected as HTML.
+
+export type MarkdownInline =
+  | { type: 'text' | 'strong' | 'em' | 'code'; text: string }
+  | { type: 'link'; text: string; href: string }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*\s][^*]*\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const UNORDERED_PATTERN = /^\s*[-*•]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+
+// Only web and mail links are kept; anything else (javascript:, data:) stays as text
+export const isSafeHref = (href: string) => /^(https?:\/\/|mailto:)/i.test(href);
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+
+  for (const part of text.split(INLINE_PATTERN)) {
+    if (!part) continue;
+
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      nodes.push({ type: 'strong', text: part.slice(2, -2) });
+    } else if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      nodes.push({ type: 'code', text: part.slice(1, -1) });
+    } else if (part.startsWith('*') && part.endsWith('*') && part.length > 2) {
+      nodes.push({ type: 'em', text: part.slice(1, -1) });
+    } else if (part.startsWith('[')) {
+      const match = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+      if (match && isSafeHref(match[2])) {
+        nodes.push({ type: 'link', text: match[1], href: match[2] });
+      } else {
+        nodes.push({ type: 'text', text: match ? match[1] : part });
+      }
+    } else {
+      nodes.push({ type: 'text', text: part });
+    }
+  }
+
+  return nodes;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      const children = paragraph.flatMap((line, index): MarkdownInline[] =>
+        index === 0 ? parseInline(line) : [{ type: 'break' }, ...parseInline(line)]
+      );
+      blocks.push({ type: 'paragraph', children });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseInline) });
+      list = null;
+    }
+  };
+
+  for (const rawLine of source.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trimEnd();
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      flush();
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2]) });
+      continue;
+    }
+
+    const unordered = line.match(UNORDERED_PATTERN);
+    const ordered = unordered ? null : line.match(ORDERED_PATTERN);
+    const item = unordered ?? ordered;
+    if (item) {
+      const isOrdered = !!ordered;
+      if (paragraph.length > 0 || (list && list.ordered !== isOrdered)) flush();
+      if (!list) list = { ordered: isOrdered, items: [] };
+      list.items.push(item[1]);
+      continue;
+    }
+
+    // A line without a marker continues the previous list item
+    if (list) {
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+    paragraph.push(line);
+  }
+
+  flush();
+  return blocks;
+};
+
+const inlineText = (nodes: MarkdownInline[]) =>
+  nodes.map((node) => (node.type === 'break' ? '\n' : node.type === 'link' ? `${node.text} (${node.href})` : node.text)).join('');
+
+// Plain-text lines for exports that cannot render markdown (PDF)
+export const markdownToPlainText = (source: string) =>
+  parseMarkdown(source)
+    .map((block) => {
+      if (block.type === 'list') {
+        return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '•'} ${inlineText(item)}`).join('\n');
+      }
+      return inlineText(block.children);
+    })
+    .join('\n\n');
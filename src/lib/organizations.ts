@@ -0,0 +1,51 @@
+// Roles and HR Dashboard scopes for organizations
+import type { OrgMembership, OrgRole, Team } from '@/hooks/useOrganizations';
+
+export const ORG_ROLES: { id: OrgRole; label: string }[] = [
+  { id: 'employee', label: 'Employee' },
+  { id: 'manager', label: 'Manager' },
+  { id: 'hr_admin', label: 'HR admin' },
+];
+
+export const roleLabel = (role: OrgRole) => ORG_ROLES.find((r) => r.id === role)?.label ?? role;
+
+export interface DashboardScope {
+  key: string;
+  organizationId: string;
+  // null for the whole organization
+  teamId: string | null;
+  label: string;
+}
+
+// HR admins see every team plus the organization as a whole; managers only their own team
+export const dashboardScopes = (memberships: OrgMembership[], teams: Team[]): DashboardScope[] =>
+  memberships.flatMap((membership) => {
+    const orgTeams = teams.filter((team) => team.organization_id === membership.organizationId);
+
+    if (membership.role === 'hr_admin') {
+      return [
+        { key: membership.organizationId, organizationId: membership.organizationId, teamId: null, label: `${membership.organizationName} · All teams` },
+        ...orgTeams.map((team) => ({
+          key: team.id,
+          organizationId: membership.organizationId,
+          teamId: team.id,
+          label: `${membership.organizationName} · ${team.name}`,
+        })),
+      ];
+    }
+
+    if (membership.role === 'manager' && membership.teamId) {
+      const team = orgTeams.find((t) => t.id === membership.teamId);
+      return team
+        ? [{ key: team.id, organizationId: membership.organizationId, teamId: team.id, label: `${membership.organizationName} · ${team.name}` }]
+        : [];
+    }
+
+    return [];
+  });
+
+export const invitationLink = (token: string) => `${window.location.origin}/?invite=${token}`;
+
+// Member counts from HR aggregates are rounded down to `step`
+export const memberCountLabel = (count: number, step: number) =>
+  step <= 1 ? `${count}` : count < step ? `fewer than ${step}` : `${count}+`;
@@ -0,0 +1,114 @@
+// Minimal text-only PDF writer (standard Helvetica fonts, A4, automatic wrapping and pages)
+
+export interface PdfLine {
+  text: string;
+  bold?: boolean;
+  size?: number;
+  // Extra space before the line, in points
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_SIZE = 10;
+// Helvetica averages ~0.5em per character; a little extra keeps wide glyphs inside the margin
+const CHAR_WIDTH = 0.53;
+
+// Typographic characters that WinAnsiEncoding places outside Latin-1
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+const encode = (text: string) =>
+  Array.from(text)
+    .map((char) => {
+      const code = WIN_ANSI[char] ?? char.charCodeAt(0);
+      if (code > 0xff || char.length > 1) return ''; // emoji and other scripts are not in the standard fonts
+      const encoded = String.fromCharCode(code);
+      return encoded === '\\' || encoded === '(' || encoded === ')' ? `\\${encoded}` : encoded;
+    })
+    .join('');
+
+const wrap = (text: string, size: number) => {
+  const maxChars = Math.floor((PAGE_WIDTH - MARGIN * 2) / (size * CHAR_WIDTH));
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let current = '';
+    for (const word of paragraph.split(/\s+/)) {
+      if (!word) continue;
+      const candidate = current ? `${current} ${word}` : word;
+      if (candidate.length <= maxChars) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+      // Words longer than a line are hard-split
+      let rest = word;
+      while (rest.length > maxChars) {
+        lines.push(rest.slice(0, maxChars));
+        rest = rest.slice(maxChars);
+      }
+      current = rest;
+    }
+    lines.push(current);
+  }
+
+  return lines;
+};
+
+export const createTextPdf = (lines: PdfLine[]): Blob => {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_SIZE;
+    const leading = size * 1.4;
+    y -= line.spaceBefore ?? 0;
+
+    for (const text of wrap(line.text, size)) {
+      if (y - leading < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      if (text) {
+        pages[pages.length - 1].push(
+          `BT /${line.bold ? 'F2' : 'F1'} ${size} Tf 1 0 0 1 ${MARGIN} ${y.toFixed(1)} Tm (${encode(text)}) Tj ET`
+        );
+      }
+    }
+  }
+
+  // 1 catalog, 2 page tree, 3-4 fonts, then a page and a content stream object per page
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((commands, i) => {
+    const content = commands.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Every character is a single byte, so string lengths are byte offsets
+  let body = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = body.length;
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = body.length;
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(body.length);
+  for (let i = 0; i < body.length; i++) bytes[i] = body.charCodeAt(i);
+  return new Blob([bytes], { type: 'application/pdf' });
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { baselineFor, computeBaselines, describeDeviations, getTimeOfDay, type BaselineScan, type PersonalBaselines } from './personalBaseline';
+
+// Local wall-clock times, as getTimeOfDay reads local hours
+const at = (hour: number, minute = 0, day = 2) => new Date(2025, 5, day, hour, minute);
+
+const scan = (date: Date | null, blink_rate: number | null, rmssd: number | null = null): BaselineScan => ({
+  created_at: date ? date.toISOString() : null,
+  blink_rate,
+  rmssd,
+  heart_rate: null,
+});
+
+describe('getTimeOfDay', () => {
+  it.each([
+    [0, 0, 'night'],
+    [4, 59, 'night'],
+    [5, 0, 'morning'],
+    [11, 59, 'morning'],
+    [12, 0, 'afternoon'],
+    [16, 59, 'afternoon'],
+    [17, 0, 'evening'],
+    [21, 59, 'evening'],
+    [22, 0, 'night'],
+  ])('buckets %i:%i as %s', (hour, minute, timeOfDay) => {
+    expect(getTimeOfDay(at(hour, minute))).toBe(timeOfDay);
+  });
+});
+
+describe('computeBaselines', () => {
+  const scans = [
+    scan(at(8, 0, 1), 10, 40),
+    scan(at(9, 0, 2), 12, 40),
+    scan(at(10, 0, 3), 14, 40),
+    // Two evening scans are too few for an evening baseline; zero RMSSD means no reading
+    scan(at(19, 0, 1), 12, 0),
+    scan(at(20, 0, 2), 12, 0),
+    // Undated scans only count towards the all-day baseline
+    scan(null, 12, 40),
+  ];
+
+  it('builds a baseline per time of day from at least three readings', () => {
+    const { byTimeOfDay } = computeBaselines(scans);
+
+    expect(byTimeOfDay.morning).toEqual({ blinkRate: { mean: 12, sd: 2 }, rmssd: { mean: 40, sd: 2 } });
+    expect(byTimeOfDay.evening).toEqual({});
+    expect(byTimeOfDay.night).toBeUndefined();
+  });
+
+  it('builds the all-day baseline from every positive reading, with the SD floored at 5% of the mean', () => {
+    const { overall } = computeBaselines(scans);
+
+    expect(overall.blinkRate?.mean).toBe(12);
+    expect(overall.blinkRate?.sd).toBeCloseTo(Math.sqrt(1.6));
+    // Identical RMSSD readings: the floor keeps the SD at 2 ms rather than 0
+    expect(overall.rmssd).toEqual({ mean: 40, sd: 2 });
+    expect(overall.heartRate).toBeUndefined();
+  });
+});
+
+describe('baseline lookups', () => {
+  const baselines: PersonalBaselines = {
+    byTimeOfDay: { morning: { blinkRate: { mean: 12, sd: 2 } } },
+    overall: { blinkRate: { mean: 16, sd: 4 }, rmssd: { mean: 50, sd: 10 }, heartRate: { mean: 100, sd: 5 } },
+  };
+
+  it('prefers the time-of-day baseline per metric', () => {
+    expect(baselineFor(baselines, at(9))).toEqual({ ...baselines.overall, blinkRate: { mean: 12, sd: 2 } });
+    expect(baselineFor(baselines, at(19))).toEqual(baselines.overall);
+  });
+
+  it.each([
+    // metric, value, time, z, percent, text
+    ['blinkRate', 15, 9, 1.5, 25, 'Blink rate 25% above your usual morning'],
+    ['blinkRate', 13, 9, 0.5, 8, 'Blink rate within your usual morning range'],
+    ['blinkRate', 11, 19, -1.25, -31, 'Blink rate 31% below your usual'],
+    ['rmssd', 35, 9, -1.5, -30, 'HRV 30% below your usual'],
+    // One SD above, but under 10% from the mean
+    ['heartRate', 106, 9, 1.2, 6, 'Heart rate within your usual range'],
+  ] as const)('scores %s %i at %i:00 as z %s', (metric, value, hour, z, percent, text) => {
+    const [deviation] = describeDeviations({ [metric]: value }, baselines, at(hour));
+
+    expect(deviation).toMatchObject({ metric, value, z, percent, text, notable: !text.includes('within') });
+  });
+
+  it('skips missing, non-positive and unreferenced values', () => {
+    const noRmssd: PersonalBaselines = { byTimeOfDay: {}, overall: { blinkRate: { mean: 16, sd: 4 } } };
+
+    expect(describeDeviations({ blinkRate: null, rmssd: 0, heartRate: undefined }, baselines, at(9))).toEqual([]);
+    expect(describeDeviations({ rmssd: 40 }, noRmssd, at(9))).toEqual([]);
+  });
+});
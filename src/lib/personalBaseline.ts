@@ -0,0 +1,127 @@
+// Per-user rolling baselines by time of day, and z-score interpretation of a scan against them
+import type { MetricBaseline, PersonalBaseline } from '@/lib/stressModel';
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+export type BaselineMetric = keyof PersonalBaseline;
+
+export interface BaselineScan {
+  created_at: string | null;
+  blink_rate: number | null;
+  rmssd: number | null;
+  heart_rate: number | null;
+}
+
+export interface PersonalBaselines {
+  byTimeOfDay: Partial<Record<TimeOfDay, PersonalBaseline>>;
+  overall: PersonalBaseline;
+}
+
+export interface BaselineDeviation {
+  metric: BaselineMetric;
+  value: number;
+  mean: number;
+  z: number;
+  percent: number; // signed % difference from the personal mean
+  notable: boolean;
+  text: string;
+}
+
+export const BASELINE_WINDOW_DAYS = 14;
+// Fewer samples than this for a time of day falls back to the all-day baseline
+const MIN_SAMPLES = 3;
+const NOTABLE_Z = 1;
+const NOTABLE_PERCENT = 10;
+
+const METRIC_LABELS: Record<BaselineMetric, string> = {
+  blinkRate: 'Blink rate',
+  rmssd: 'HRV',
+  heartRate: 'Heart rate',
+};
+
+const SCAN_COLUMNS: Record<BaselineMetric, keyof BaselineScan> = {
+  blinkRate: 'blink_rate',
+  rmssd: 'rmssd',
+  heartRate: 'heart_rate',
+};
+
+export const getTimeOfDay = (date: Date): TimeOfDay => {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+};
+
+const metricBaseline = (values: number[]): MetricBaseline | undefined => {
+  if (values.length < MIN_SAMPLES) return undefined;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  // Sample SD with a small floor so a very stable history does not inflate z-scores
+  const variance = values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / (values.length - 1);
+  return { mean, sd: Math.max(Math.sqrt(variance), Math.abs(mean) * 0.05) };
+};
+
+const buildBaseline = (scans: BaselineScan[]): PersonalBaseline => {
+  const baseline: PersonalBaseline = {};
+  (Object.keys(SCAN_COLUMNS) as BaselineMetric[]).forEach((metric) => {
+    const values = scans
+      .map((scan) => Number(scan[SCAN_COLUMNS[metric]]))
+      .filter((value) => Number.isFinite(value) && value > 0);
+    const result = metricBaseline(values);
+    if (result) baseline[metric] = result;
+  });
+  return baseline;
+};
+
+export const computeBaselines = (scans: BaselineScan[]): PersonalBaselines => {
+  const groups: Partial<Record<TimeOfDay, BaselineScan[]>> = {};
+  scans.forEach((scan) => {
+    if (!scan.created_at) return;
+    const key = getTimeOfDay(new Date(scan.created_at));
+    groups[key] = [...(groups[key] ?? []), scan];
+  });
+
+  const byTimeOfDay: PersonalBaselines['byTimeOfDay'] = {};
+  (Object.keys(groups) as TimeOfDay[]).forEach((key) => {
+    byTimeOfDay[key] = buildBaseline(groups[key] ?? []);
+  });
+
+  return { byTimeOfDay, overall: buildBaseline(scans) };
+};
+
+// Time-of-day baseline per metric, falling back to the all-day one
+export const baselineFor = (baselines: PersonalBaselines, date: Date): PersonalBaseline => ({
+  ...baselines.overall,
+  ...baselines.byTimeOfDay[getTimeOfDay(date)],
+});
+
+export const describeDeviations = (
+  values: Partial<Record<BaselineMetric, number | null | undefined>>,
+  baselines: PersonalBaselines,
+  date: Date
+): BaselineDeviation[] => {
+  const timeOfDay = getTimeOfDay(date);
+  const slot = baselines.byTimeOfDay[timeOfDay] ?? {};
+
+  return (Object.keys(METRIC_LABELS) as BaselineMetric[]).flatMap((metric) => {
+    const value = values[metric];
+    const reference = slot[metric] ?? baselines.overall[metric];
+    if (value == null || !Number.isFinite(value) || value <= 0 || !reference || reference.mean <= 0) return [];
+
+    const z = (value - reference.mean) / reference.sd;
+    const percent = ((value - reference.mean) / reference.mean) * 100;
+    const notable = Math.abs(z) >= NOTABLE_Z && Math.abs(percent) >= NOTABLE_PERCENT;
+    const usual = slot[metric] ? `your usual ${timeOfDay}` : 'your usual';
+
+    return [{
+      metric,
+      value,
+      mean: Math.round(reference.mean * 10) / 10,
+      z: Math.round(z * 100) / 100,
+      percent: Math.round(percent),
+      notable,
+      text: notable
+        ? `${METRIC_LABELS[metric]} ${Math.abs(Math.round(percent))}% ${percent < 0 ? 'below' : 'above'} ${usual}`
+        : `${METRIC_LABELS[metric]} within ${usual} range`,
+    }];
+  });
+};
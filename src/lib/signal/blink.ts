@@ -0,0 +1,96 @@
+// Blink detection from MediaPipe face landmarks (framework-free)
+import type { EarThresholds } from '@/lib/earCalibration';
+
+export interface LandmarkPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Full MediaPipe landmark array, or a sparse map holding only the eye indices
+export type FaceLandmarks = Record<number, LandmarkPoint>;
+
+// Left eye: outer corner, top1, top2, inner corner, bottom1, bottom2
+export const LEFT_EYE = [33, 160, 158, 133, 144, 153];
+// Right eye: inner corner, top1, top2, outer corner, bottom1, bottom2
+export const RIGHT_EYE = [362, 385, 387, 263, 380, 373];
+export const EYE_LANDMARKS = [...LEFT_EYE, ...RIGHT_EYE];
+
+export const BLINK_DEBOUNCE_MS = 100;
+// Closures longer than this are eyes-closed episodes, not blinks
+const MAX_BLINK_DURATION_MS = 1000;
+
+const distance = (a: LandmarkPoint, b: LandmarkPoint) =>
+  Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2) + Math.pow(a.z - b.z, 2));
+
+const eyeAspectRatio = (landmarks: FaceLandmarks, eye: number[]) => {
+  const [outerCorner, top1, top2, innerCorner, bottom1, bottom2] = eye.map((index) => landmarks[index]);
+
+  // EAR = (vertical1 + vertical2) / (2.0 * horizontal)
+  return (distance(top1, bottom1) + distance(top2, bottom2)) / (2.0 * distance(outerCorner, innerCorner));
+};
+
+// Eye Aspect Ratio averaged over both eyes
+export const calculateEAR = (landmarks: FaceLandmarks) =>
+  (eyeAspectRatio(landmarks, LEFT_EYE) + eyeAspectRatio(landmarks, RIGHT_EYE)) / 2.0;
+
+export interface BlinkDetectorState {
+  lastEAR: number;
+  lastBlinkTime: number;
+  blinkCount: number;
+  closedSince: number | null; // start of the blink currently in progress
+  durationSum: number;
+  durationCount: number;
+}
+
+export const createBlinkDetectorState = (): BlinkDetectorState => ({
+  lastEAR: 0.3,
+  lastBlinkTime: 0,
+  blinkCount: 0,
+  closedSince: null,
+  durationSum: 0,
+  durationCount: 0,
+});
+
+// One frame of the blink state machine: a blink is an open -> closed
+// transition between consecutive frames, debounced by BLINK_DEBOUNCE_MS.
+// Its duration runs until the EAR rises back above the close threshold.
+export const stepBlinkDetector = (
+  state: BlinkDetectorState,
+  ear: number,
+  timestamp: number,
+  thresholds: EarThresholds
+): { state: BlinkDetectorState; blinked: boolean } => {
+  const blinked =
+    state.lastEAR > thresholds.open &&
+    ear <= thresholds.close &&
+    timestamp - state.lastBlinkTime > BLINK_DEBOUNCE_MS;
+
+  let { closedSince, durationSum, durationCount } = state;
+  if (blinked) {
+    closedSince = timestamp;
+  } else if (closedSince !== null && ear > thresholds.close) {
+    const duration = timestamp - closedSince;
+    if (duration <= MAX_BLINK_DURATION_MS) {
+      durationSum += duration;
+      durationCount += 1;
+    }
+    closedSince = null;
+  }
+
+  return {
+    blinked,
+    state: {
+      lastEAR: ear,
+      lastBlinkTime: blinked ? timestamp : state.lastBlinkTime,
+      blinkCount: blinked ? state.blinkCount + 1 : state.blinkCount,
+      closedSince,
+      durationSum,
+      durationCount,
+    },
+  };
+};
+
+// Mean duration of completed blinks in ms, null when none were timed
+export const meanBlinkDuration = (state: BlinkDetectorState) =>
+  state.durationCount > 0 ? Math.round(state.durationSum / state.durationCount) : null;
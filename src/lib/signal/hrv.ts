@@ -0,0 +1,251 @@
+// Heart rate variability from an rPPG trace (framework-free)
+// Pipeline: resample -> detrend -> band-pass -> peak detection with parabolic
+// interpolation -> artifact/ectopic rejection -> time and frequency domain metrics.
+
+export interface TraceSample {
+  t: number; // ms
+  value: number;
+}
+
+export interface HRVMetrics {
+  heartRate: number; // bpm
+  sdnn: number; // ms
+  rmssd: number; // ms
+  pnn50: number; // % of successive differences > 50ms
+  lfPower: number | null; // ms², 0.04-0.15 Hz
+  hfPower: number | null; // ms², 0.15-0.4 Hz
+  lfHfRatio: number | null;
+  beats: number;
+  rejectedBeats: number;
+  durationSeconds: number;
+}
+
+export const SAMPLE_RATE = 30; // Hz after resampling
+// Pass band 0.7-3.5 Hz = 42-210 bpm
+const LOW_CUT_HZ = 0.7;
+const HIGH_CUT_HZ = 3.5;
+const DETREND_WINDOW_S = 2;
+const MIN_RR_MS = 300;
+const MAX_RR_MS = 1500;
+// Intervals deviating more than this from the local median are treated as ectopic/artifact
+const ECTOPIC_TOLERANCE = 0.2;
+const MIN_NN_INTERVALS = 10;
+// LF band needs at least a few 25s cycles to be meaningful
+const MIN_FREQUENCY_DOMAIN_S = 40;
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Linear interpolation onto a uniform grid (the capture interval jitters)
+export const resample = (samples: TraceSample[], sampleRate = SAMPLE_RATE): number[] => {
+  if (samples.length < 2) return samples.map((s) => s.value);
+
+  const step = 1000 / sampleRate;
+  const start = samples[0].t;
+  const end = samples[samples.length - 1].t;
+  const out: number[] = [];
+  let j = 0;
+
+  for (let t = start; t <= end; t += step) {
+    while (j < samples.length - 2 && samples[j + 1].t < t) j++;
+    const a = samples[j];
+    const b = samples[j + 1];
+    const span = b.t - a.t;
+    out.push(span > 0 ? a.value + ((b.value - a.value) * (t - a.t)) / span : a.value);
+  }
+
+  return out;
+};
+
+// Remove slow illumination/motion drift with a centred moving average
+export const detrend = (values: number[], windowSize = Math.round(DETREND_WINDOW_S * SAMPLE_RATE)): number[] => {
+  const half = Math.floor(windowSize / 2);
+  return values.map((value, i) => {
+    const window = values.slice(Math.max(0, i - half), Math.min(values.length, i + half + 1));
+    return value - mean(window);
+  });
+};
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number];
+}
+
+// RBJ cookbook second-order sections (Butterworth Q)
+const biquad = (type: 'lowpass' | 'highpass', cutoff: number, sampleRate: number): Biquad => {
+  const w0 = (2 * Math.PI * cutoff) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+  const a0 = 1 + alpha;
+  const b = type === 'lowpass'
+    ? [(1 - cos) / 2, 1 - cos, (1 - cos) / 2]
+    : [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2];
+
+  return {
+    b: [b[0] / a0, b[1] / a0, b[2] / a0],
+    a: [(-2 * cos) / a0, (1 - alpha) / a0],
+  };
+};
+
+const applyBiquad = (values: number[], { b, a }: Biquad) => {
+  const out: number[] = [];
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (const x0 of values) {
+    const y0 = b[0] * x0 + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    out.push(y0);
+    x2 = x1; x1 = x0;
+    y2 = y1; y1 = y0;
+  }
+  return out;
+};
+
+// Zero-phase (forward-backward) band-pass so peak timing is not shifted
+export const bandPass = (values: number[], sampleRate = SAMPLE_RATE, low = LOW_CUT_HZ, high = HIGH_CUT_HZ) => {
+  const sections = [biquad('highpass', low, sampleRate), biquad('lowpass', high, sampleRate)];
+  const run = (input: number[]) => sections.reduce(applyBiquad, input);
+  return run(run(values).reverse()).reverse();
+};
+
+// Local maxima separated by the shortest plausible beat, refined by parabolic interpolation.
+// Returns peak times in ms relative to the first sample.
+export const detectPeaks = (values: number[], sampleRate = SAMPLE_RATE): number[] => {
+  const minDistance = Math.floor((MIN_RR_MS / 1000) * sampleRate);
+  const sd = Math.sqrt(mean(values.map((v) => v * v)));
+  const peaks: number[] = [];
+
+  for (let i = 1; i < values.length - 1; i++) {
+    if (values[i] <= values[i - 1] || values[i] < values[i + 1] || values[i] < sd * 0.3) continue;
+
+    const last = peaks[peaks.length - 1];
+    if (last !== undefined && i - last < minDistance) {
+      if (values[i] > values[last]) peaks[peaks.length - 1] = i;
+      continue;
+    }
+    peaks.push(i);
+  }
+
+  return peaks.map((i) => {
+    const [y0, y1, y2] = [values[i - 1], values[i], values[i + 1]];
+    const denominator = y0 - 2 * y1 + y2;
+    const offset = denominator !== 0 ? (0.5 * (y0 - y2)) / denominator : 0;
+    return ((i + offset) / sampleRate) * 1000;
+  });
+};
+
+interface NNInterval {
+  t: number; // ms, time of the closing beat
+  rr: number; // ms
+  valid: boolean;
+}
+
+// Physiological range plus local-median ectopic filter
+export const rejectArtifacts = (peakTimes: number[]): NNInterval[] => {
+  const intervals = peakTimes.slice(1).map((t, i) => {
+    const rr = t - peakTimes[i];
+    return { t, rr, valid: rr >= MIN_RR_MS && rr <= MAX_RR_MS };
+  });
+
+  return intervals.map((interval, i) => {
+    if (!interval.valid) return interval;
+    const neighbours = intervals
+      .slice(Math.max(0, i - 2), i + 3)
+      .filter((n) => n.valid)
+      .map((n) => n.rr);
+    const localMedian = median(neighbours);
+    return { ...interval, valid: Math.abs(interval.rr - localMedian) <= localMedian * ECTOPIC_TOLERANCE };
+  });
+};
+
+// Lomb-Scargle periodogram of the (unevenly sampled) NN tachogram, scaled so the
+// spectrum integrates to the NN variance; returns band powers in ms².
+export const frequencyDomain = (nn: { t: number; rr: number }[]) => {
+  const times = nn.map((n) => n.t / 1000);
+  const values = nn.map((n) => n.rr);
+  const avg = mean(values);
+  const centred = values.map((v) => v - avg);
+  const variance = mean(centred.map((v) => v * v));
+
+  const df = 0.005;
+  const spectrum: { f: number; p: number }[] = [];
+  for (let f = df; f <= 0.5; f += df) {
+    const w = 2 * Math.PI * f;
+    let s2 = 0, c2 = 0;
+    for (const t of times) {
+      s2 += Math.sin(2 * w * t);
+      c2 += Math.cos(2 * w * t);
+    }
+    const tau = Math.atan2(s2, c2) / (2 * w);
+
+    let yc = 0, ys = 0, cc = 0, ss = 0;
+    times.forEach((t, i) => {
+      const c = Math.cos(w * (t - tau));
+      const s = Math.sin(w * (t - tau));
+      yc += centred[i] * c;
+      ys += centred[i] * s;
+      cc += c * c;
+      ss += s * s;
+    });
+    spectrum.push({ f, p: 0.5 * ((cc > 0 ? (yc * yc) / cc : 0) + (ss > 0 ? (ys * ys) / ss : 0)) });
+  }
+
+  const total = spectrum.reduce((sum, { p }) => sum + p * df, 0);
+  const scale = total > 0 ? variance / total : 0;
+  const band = (low: number, high: number) =>
+    spectrum.filter(({ f }) => f >= low && f < high).reduce((sum, { p }) => sum + p * df * scale, 0);
+
+  const lfPower = band(0.04, 0.15);
+  const hfPower = band(0.15, 0.4);
+
+  return { lfPower, hfPower, lfHfRatio: hfPower > 0 ? lfPower / hfPower : null };
+};
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// HRV from a uniformly sampled pulse signal (raw green trace or fused POS output)
+export const analyzePulse = (values: number[], sampleRate = SAMPLE_RATE): HRVMetrics | null => {
+  if (values.length < sampleRate * 5) return null;
+
+  const filtered = bandPass(detrend(values, Math.round(DETREND_WINDOW_S * sampleRate)), sampleRate);
+  const intervals = rejectArtifacts(detectPeaks(filtered, sampleRate));
+  const nn = intervals.filter((i) => i.valid);
+
+  if (nn.length < MIN_NN_INTERVALS) return null;
+
+  const rr = nn.map((n) => n.rr);
+  const avgRR = mean(rr);
+  const sdnn = Math.sqrt(mean(rr.map((v) => Math.pow(v - avgRR, 2))));
+
+  // Successive differences only between adjacent accepted intervals
+  const successive: number[] = [];
+  for (let i = 1; i < intervals.length; i++) {
+    if (intervals[i].valid && intervals[i - 1].valid) {
+      successive.push(intervals[i].rr - intervals[i - 1].rr);
+    }
+  }
+  const rmssd = successive.length > 0 ? Math.sqrt(mean(successive.map((d) => d * d))) : 0;
+  const pnn50 = successive.length > 0 ? (successive.filter((d) => Math.abs(d) > 50).length / successive.length) * 100 : 0;
+
+  const durationSeconds = (nn[nn.length - 1].t - nn[0].t + nn[0].rr) / 1000;
+  const frequency = durationSeconds >= MIN_FREQUENCY_DOMAIN_S ? frequencyDomain(nn) : null;
+
+  return {
+    heartRate: Math.round(60000 / avgRR),
+    sdnn: round(sdnn),
+    rmssd: round(rmssd),
+    pnn50: round(pnn50),
+    lfPower: frequency ? round(frequency.lfPower) : null,
+    hfPower: frequency ? round(frequency.hfPower) : null,
+    lfHfRatio: frequency?.lfHfRatio != null ? round(frequency.lfHfRatio, 2) : null,
+    beats: intervals.length + 1,
+    rejectedBeats: intervals.length - nn.length,
+    durationSeconds: round(durationSeconds),
+  };
+};
+
+export const analyzeHRV = (samples: TraceSample[], sampleRate = SAMPLE_RATE): HRVMetrics | null =>
+  analyzePulse(resample(samples, sampleRate), sampleRate);
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { FaceLandmarks } from './blink';
+import { createScanQualityState, scoreScanQuality, stepScanQuality, type ScanQualityState } from './quality';
+
+// Ten frames with the face present and fully tracked; brightness and motion are set per test
+const state = (overrides: Partial<ScanQualityState> = {}): ScanQualityState => ({
+  ...createScanQualityState(),
+  totalFrames: 10,
+  faceFrames: 10,
+  trackedFrames: 10,
+  ...overrides,
+});
+
+const withBrightness = (luma: number) => state({ brightnessSum: luma, brightnessSamples: 1 });
+const withMotion = (motion: number) => state({ motionSum: motion, motionSamples: 1 });
+
+const face = (overrides: FaceLandmarks = {}, noseX = 0.5): FaceLandmarks => ({
+  1: { x: noseX, y: 0.5, z: 0 },
+  10: { x: 0.5, y: 0.2, z: 0 },
+  152: { x: 0.5, y: 0.8, z: 0 },
+  33: { x: 0.4, y: 0.4, z: 0 },
+  263: { x: 0.6, y: 0.4, z: 0 },
+  ...overrides,
+});
+
+describe('scoreScanQuality', () => {
+  it.each([
+    // mean luma, score, issue
+    [20, 0.74, 'Lighting too low'],
+    [40, 0.78, 'Lighting too low'],
+    [59, 0.87, 'Lighting too low'],
+    [60, 0.87, null],
+    [90, 1, null],
+    [230, 1, null],
+    [242.5, 0.85, 'Image overexposed'],
+  ])('scores a mean luma of %s at %s', (luma, score, issue) => {
+    const quality = scoreScanQuality(withBrightness(luma));
+
+    expect(quality.score).toBe(score);
+    expect(quality.issues).toEqual(issue ? [issue] : []);
+  });
+
+  it.each([
+    // nose displacement per frame, score, issue
+    [0, 1, null],
+    [0.01, 0.95, null],
+    [0.03, 0.85, null],
+    [0.031, 0.84, 'Too much head movement'],
+    [0.05, 0.75, 'Too much head movement'],
+  ])('scores head motion of %s at %s', (motion, score, issue) => {
+    const quality = scoreScanQuality(withMotion(motion));
+
+    expect(quality.score).toBe(score);
+    expect(quality.issues).toEqual(issue ? [issue] : []);
+  });
+
+  it.each([
+    [0.3, []],
+    [0.29, ['Weak heart-rate signal']],
+  ])('flags an rPPG SQI of %s only below 0.3', (sqi, issues) => {
+    expect(scoreScanQuality(state(), sqi).issues).toEqual(issues);
+  });
+
+  it.each([
+    // face frames, tracked frames, rPPG SQI, valid
+    [10, 10, null, true],
+    [5, 5, null, true],
+    [4, 4, null, false],
+    [10, 0, 0.5, true],
+    [10, 0, 0.4, false],
+  ])('with %i face frames, %i tracked and SQI %s validity is %s', (faceFrames, trackedFrames, sqi, isValid) => {
+    expect(scoreScanQuality(state({ faceFrames, trackedFrames }), sqi).isValid).toBe(isValid);
+  });
+
+  it('reports a missing face and poor tracking', () => {
+    expect(scoreScanQuality(state({ faceFrames: 4, trackedFrames: 2 })).issues).toEqual([
+      'Face not visible for 60% of the scan',
+      'Face partly out of frame or too far from the camera',
+    ]);
+  });
+
+  it('is invalid without frames', () => {
+    expect(scoreScanQuality(createScanQualityState())).toMatchObject({ score: 0, isValid: false, brightness: null, motion: null });
+  });
+});
+
+describe('stepScanQuality', () => {
+  it('counts tracked faces only when inside the frame and close enough', () => {
+    const frames: (FaceLandmarks | null)[] = [
+      face(),
+      face({ 152: { x: 0.5, y: 1.1, z: 0 } }),
+      face({ 33: { x: 0.48, y: 0.4, z: 0 }, 263: { x: 0.52, y: 0.4, z: 0 } }),
+      null,
+    ];
+    const result = frames.reduce((acc, landmarks) => stepScanQuality(acc, landmarks, 100), createScanQualityState());
+
+    expect(result).toMatchObject({ totalFrames: 4, faceFrames: 3, trackedFrames: 1, brightnessSum: 400, brightnessSamples: 4 });
+  });
+
+  it('measures nose motion in inter-ocular distances and restarts after a lost face', () => {
+    const steps: (FaceLandmarks | null)[] = [face({}, 0.5), face({}, 0.51), null, face({}, 0.7), face({}, 0.7)];
+    const result = steps.reduce((acc, landmarks) => stepScanQuality(acc, landmarks), createScanQualityState());
+
+    // 0.01 / 0.2 and 0; the jump across the lost frame is not counted
+    expect(result.motionSamples).toBe(2);
+    expect(result.motionSum).toBeCloseTo(0.05);
+  });
+});
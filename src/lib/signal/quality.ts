@@ -0,0 +1,151 @@
+// Per-scan quality model (framework-free)
+// Accumulates face presence, tracking confidence, brightness and head motion frame
+// by frame, then combines them with the rPPG signal-quality index into one score.
+import type { FaceLandmarks } from './blink';
+
+export interface ScanQuality {
+  score: number; // 0-1
+  isValid: boolean;
+  facePresentRatio: number; // 0-1
+  landmarkConfidence: number; // 0-1, share of face frames with a complete, large enough face
+  brightness: number | null; // mean luma 0-255
+  motion: number | null; // mean nose displacement per frame, in inter-ocular distances
+  rppgSqi: number | null; // 0-1
+  issues: string[];
+}
+
+export interface ScanQualityState {
+  totalFrames: number;
+  faceFrames: number;
+  trackedFrames: number;
+  brightnessSum: number;
+  brightnessSamples: number;
+  motionSum: number;
+  motionSamples: number;
+  lastNose: { x: number; y: number } | null;
+}
+
+// Scans scoring below this (or with the face missing for half the scan) are flagged
+export const MIN_QUALITY_SCORE = 0.6;
+const MIN_FACE_PRESENT_RATIO = 0.5;
+
+const WEIGHTS = { face: 0.3, landmarks: 0.15, brightness: 0.2, motion: 0.15, rppg: 0.2 };
+
+const NOSE_TIP = 1;
+const LEFT_EYE_OUTER = 33;
+const RIGHT_EYE_OUTER = 263;
+// Forehead, chin and both eye corners must be inside the frame
+const FRAME_CHECK_LANDMARKS = [10, 152, LEFT_EYE_OUTER, RIGHT_EYE_OUTER];
+// Inter-ocular distance below this fraction of frame width = face too far away
+const MIN_EYE_DISTANCE = 0.08;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const createScanQualityState = (): ScanQualityState => ({
+  totalFrames: 0,
+  faceFrames: 0,
+  trackedFrames: 0,
+  brightnessSum: 0,
+  brightnessSamples: 0,
+  motionSum: 0,
+  motionSamples: 0,
+  lastNose: null,
+});
+
+// Mean luma of an RGBA buffer
+export const frameBrightness = (pixels: Uint8ClampedArray | number[]) => {
+  let sum = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    sum += 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+  }
+  return pixels.length > 0 ? sum / (pixels.length / 4) : 0;
+};
+
+export const stepScanQuality = (
+  state: ScanQualityState,
+  landmarks: FaceLandmarks | null,
+  brightness?: number
+): ScanQualityState => {
+  const next = { ...state, totalFrames: state.totalFrames + 1 };
+
+  if (brightness !== undefined) {
+    next.brightnessSum += brightness;
+    next.brightnessSamples += 1;
+  }
+
+  if (!landmarks) {
+    next.lastNose = null;
+    return next;
+  }
+
+  next.faceFrames += 1;
+
+  const left = landmarks[LEFT_EYE_OUTER];
+  const right = landmarks[RIGHT_EYE_OUTER];
+  const eyeDistance = left && right ? Math.hypot(left.x - right.x, left.y - right.y) : 0;
+  const inFrame = FRAME_CHECK_LANDMARKS.every((index) => {
+    const point = landmarks[index];
+    return point && point.x >= 0 && point.x <= 1 && point.y >= 0 && point.y <= 1;
+  });
+  if (inFrame && eyeDistance >= MIN_EYE_DISTANCE) {
+    next.trackedFrames += 1;
+  }
+
+  const nose = landmarks[NOSE_TIP];
+  if (nose && eyeDistance > 0) {
+    if (state.lastNose) {
+      next.motionSum += Math.hypot(nose.x - state.lastNose.x, nose.y - state.lastNose.y) / eyeDistance;
+      next.motionSamples += 1;
+    }
+    next.lastNose = { x: nose.x, y: nose.y };
+  }
+
+  return next;
+};
+
+const brightnessScore = (luma: number) => {
+  if (luma < 40) return clamp(luma / 40) * 0.3;
+  if (luma > 230) return clamp((255 - luma) / 25);
+  return clamp(0.3 + ((luma - 40) / 50) * 0.7);
+};
+
+export const scoreScanQuality = (state: ScanQualityState, rppgSqi: number | null = null): ScanQuality => {
+  const facePresentRatio = state.totalFrames > 0 ? state.faceFrames / state.totalFrames : 0;
+  const landmarkConfidence = state.faceFrames > 0 ? state.trackedFrames / state.faceFrames : 0;
+  const brightness = state.brightnessSamples > 0 ? state.brightnessSum / state.brightnessSamples : null;
+  const motion = state.motionSamples > 0 ? state.motionSum / state.motionSamples : null;
+
+  // Missing components are left out and the remaining weights renormalised
+  const components: [number, number | null][] = [
+    [WEIGHTS.face, facePresentRatio],
+    [WEIGHTS.landmarks, landmarkConfidence],
+    [WEIGHTS.brightness, brightness === null ? null : brightnessScore(brightness)],
+    [WEIGHTS.motion, motion === null ? null : clamp(1 - motion / 0.05)],
+    [WEIGHTS.rppg, rppgSqi],
+  ];
+  const present = components.filter(([, value]) => value !== null) as [number, number][];
+  const weightSum = present.reduce((sum, [weight]) => sum + weight, 0);
+  const score = weightSum > 0 ? present.reduce((sum, [weight, value]) => sum + weight * value, 0) / weightSum : 0;
+
+  const issues: string[] = [];
+  if (facePresentRatio < MIN_FACE_PRESENT_RATIO) {
+    issues.push(`Face not visible for ${Math.round((1 - facePresentRatio) * 100)}% of the scan`);
+  }
+  if (landmarkConfidence < 0.7) issues.push('Face partly out of frame or too far from the camera');
+  if (brightness !== null && brightness < 60) issues.push('Lighting too low');
+  if (brightness !== null && brightness > 230) issues.push('Image overexposed');
+  if (motion !== null && motion > 0.03) issues.push('Too much head movement');
+  if (rppgSqi !== null && rppgSqi < 0.3) issues.push('Weak heart-rate signal');
+
+  return {
+    score: round(score),
+    isValid: score >= MIN_QUALITY_SCORE && facePresentRatio >= MIN_FACE_PRESENT_RATIO,
+    facePresentRatio: round(facePresentRatio),
+    landmarkConfidence: round(landmarkConfidence),
+    brightness: brightness === null ? null : Math.round(brightness),
+    motion: motion === null ? null : Math.round(motion * 1000) / 1000,
+    rppgSqi,
+    issues,
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateSession, type RecordedSession } from './replay';
+
+// Synthetic recordings with exact ground truth (blink onsets and beat times are known by construction)
+const fixtures = Object.values(
+  import.meta.glob<RecordedSession>('./__fixtures__/*.json', { eager: true, import: 'default' })
+);
+
+const fixture = (id: string) => {
+  const session = fixtures.find((s) => s.id === id);
+  if (!session) throw new Error(`Missing fixture ${id}`);
+  return session;
+};
+
+describe('recorded session replay', () => {
+  it('loads the fixtures', () => {
+    expect(fixtures.length).toBeGreaterThanOrEqual(4);
+  });
+
+  it.each(fixtures.map((session) => [session.id, session] as const))(
+    '%s matches its ground truth within tolerance',
+    (_, session) => {
+      const report = evaluateSession(session);
+
+      expect(report.checks.length).toBeGreaterThan(0);
+      for (const check of report.checks) {
+        expect(check.actual, `${check.metric} was not measured`).not.toBeNull();
+        expect(
+          Math.abs(check.actual! - check.expected),
+          `${check.metric}: expected ${check.expected} ± ${check.tolerance}, got ${check.actual}`
+        ).toBeLessThanOrEqual(check.tolerance);
+      }
+      expect(report.passed).toBe(true);
+    }
+  );
+
+  it('skips frames without a face and ignores half-closures', () => {
+    const { blink } = evaluateSession(fixture('blink-calibrated-dropouts'));
+
+    expect(blink!.faceFrames).toBeLessThan(blink!.totalFrames);
+    expect(blink!.blinkCount).toBe(4);
+  });
+
+  it('down-weights a noisy region when fusing', () => {
+    const { pulse } = evaluateSession(fixture('pulse-elevated-three-regions'));
+    const quality = pulse!.metrics!.regionQuality;
+
+    expect(quality.rightCheek).toBeLessThan(quality.forehead);
+    expect(quality.rightCheek).toBeLessThan(quality.leftCheek);
+    expect(pulse!.metrics!.rejectedBeats).toBe(0);
+  });
+
+  it('fails a check when the measurement is off', () => {
+    const session = fixture('pulse-resting-forehead');
+    const report = evaluateSession({
+      ...session,
+      groundTruth: { heartRate: session.groundTruth.heartRate! + 20 },
+      tolerance: { heartRate: 3 },
+    });
+
+    expect(report.passed).toBe(false);
+    expect(report.checks[0]).toMatchObject({ metric: 'heartRate', passed: false });
+  });
+});
@@ -0,0 +1,135 @@
+// Offline replay of recorded scan sessions through the blink and rPPG pipelines.
+// Lets detector changes be evaluated against labelled recordings instead of a live webcam.
+import { getDefaultThresholds, type EarThresholds } from '@/lib/earCalibration';
+import { calculateEAR, createBlinkDetectorState, stepBlinkDetector, type FaceLandmarks } from './blink';
+import { analyzeRegions, type RGBSample, type RppgMetrics } from './rppg';
+
+/**
+ * Recorded session fixture (JSON).
+ * - landmarkFrames: one entry per processed frame; `landmarks` is null when no face was found.
+ *   Only the EYE_LANDMARKS indices need to be stored.
+ * - roiTrace: mean RGB of a single rPPG region of interest per sample.
+ * - regionTraces: mean RGB per landmark region (forehead, leftCheek, rightCheek), fused like the live monitor.
+ * - groundTruth: manually labelled values (hrv is RMSSD in ms); `tolerance` is the allowed absolute error.
+ */
+export interface RecordedSession {
+  id: string;
+  description?: string;
+  landmarkFrames?: { t: number; landmarks: FaceLandmarks | null }[];
+  roiTrace?: RGBSample[];
+  regionTraces?: Record<string, RGBSample[]>;
+  earThresholds?: EarThresholds;
+  groundTruth: {
+    blinkCount?: number;
+    heartRate?: number;
+    hrv?: number;
+  };
+  tolerance?: {
+    blinkCount?: number;
+    heartRate?: number;
+    hrv?: number;
+  };
+}
+
+export interface BlinkReplayResult {
+  blinkCount: number;
+  blinkRate: number;
+  durationSeconds: number;
+  faceFrames: number;
+  totalFrames: number;
+}
+
+export interface PulseReplayResult {
+  heartRate: number | null;
+  hrv: number | null;
+  metrics: RppgMetrics | null;
+}
+
+export interface ReplayCheck {
+  metric: 'blinkCount' | 'heartRate' | 'hrv';
+  expected: number;
+  actual: number | null;
+  tolerance: number;
+  passed: boolean;
+}
+
+export interface ReplayReport {
+  sessionId: string;
+  blink?: BlinkReplayResult;
+  pulse?: PulseReplayResult;
+  checks: ReplayCheck[];
+  passed: boolean;
+}
+
+const DEFAULT_TOLERANCE = { blinkCount: 2, heartRate: 5, hrv: 10 };
+
+export const replayBlinks = (
+  frames: NonNullable<RecordedSession['landmarkFrames']>,
+  thresholds: EarThresholds = getDefaultThresholds(false)
+): BlinkReplayResult => {
+  let state = createBlinkDetectorState();
+  let faceFrames = 0;
+
+  for (const frame of frames) {
+    if (!frame.landmarks) continue;
+    faceFrames++;
+    state = stepBlinkDetector(state, calculateEAR(frame.landmarks), frame.t, thresholds).state;
+  }
+
+  const durationSeconds = frames.length > 1 ? (frames[frames.length - 1].t - frames[0].t) / 1000 : 0;
+
+  return {
+    blinkCount: state.blinkCount,
+    blinkRate: durationSeconds > 0 ? state.blinkCount / (durationSeconds / 60) : 0,
+    durationSeconds,
+    faceFrames,
+    totalFrames: frames.length,
+  };
+};
+
+export const replayPulse = (traces: Record<string, RGBSample[]>): PulseReplayResult => {
+  const metrics = analyzeRegions(traces);
+
+  return {
+    heartRate: metrics?.heartRate ?? null,
+    hrv: metrics?.rmssd ?? null,
+    metrics,
+  };
+};
+
+const check = (
+  metric: ReplayCheck['metric'],
+  expected: number | undefined,
+  actual: number | null,
+  tolerance: number
+): ReplayCheck[] => {
+  if (expected === undefined) return [];
+  return [{
+    metric,
+    expected,
+    actual,
+    tolerance,
+    passed: actual !== null && Math.abs(actual - expected) <= tolerance,
+  }];
+};
+
+export const evaluateSession = (session: RecordedSession): ReplayReport => {
+  const tolerance = { ...DEFAULT_TOLERANCE, ...session.tolerance };
+  const blink = session.landmarkFrames ? replayBlinks(session.landmarkFrames, session.earThresholds) : undefined;
+  const traces = session.regionTraces ?? (session.roiTrace ? { roi: session.roiTrace } : undefined);
+  const pulse = traces ? replayPulse(traces) : undefined;
+
+  const checks = [
+    ...check('blinkCount', session.groundTruth.blinkCount, blink?.blinkCount ?? null, tolerance.blinkCount),
+    ...check('heartRate', session.groundTruth.heartRate, pulse?.heartRate ?? null, tolerance.heartRate),
+    ...check('hrv', session.groundTruth.hrv, pulse?.hrv ?? null, tolerance.hrv),
+  ];
+
+  return {
+    sessionId: session.id,
+    blink,
+    pulse,
+    checks,
+    passed: checks.every((c) => c.passed),
+  };
+};
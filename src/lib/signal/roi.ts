@@ -0,0 +1,79 @@
+// Landmark-tracked skin regions for rPPG sampling (framework-free)
+import type { FaceLandmarks } from './blink';
+
+export type RegionName = 'forehead' | 'leftCheek' | 'rightCheek';
+
+// MediaPipe face mesh indices outlining each region (normalized image coordinates)
+export const ROI_POLYGONS: Record<RegionName, number[]> = {
+  forehead: [67, 109, 10, 338, 297, 299, 9, 69],
+  leftCheek: [116, 117, 118, 101, 36, 205, 187, 123],
+  rightCheek: [345, 346, 347, 330, 266, 425, 411, 352],
+};
+
+export const REGION_NAMES = Object.keys(ROI_POLYGONS) as RegionName[];
+
+export interface RGBMean {
+  r: number;
+  g: number;
+  b: number;
+  pixels: number;
+}
+
+interface PixelFrame {
+  data: Uint8ClampedArray | number[];
+  width: number;
+  height: number;
+}
+
+const isSkin = (r: number, g: number, b: number) => r > 60 && g > 40 && b > 20 && r > g && r > b;
+
+// Ray casting point-in-polygon test
+const contains = (polygon: { x: number; y: number }[], x: number, y: number) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Mean RGB of skin pixels inside the landmark polygon; null when the region is not visible
+export const regionMean = (frame: PixelFrame, landmarks: FaceLandmarks, indices: number[]): RGBMean | null => {
+  const polygon = indices.map((index) => ({
+    x: landmarks[index].x * frame.width,
+    y: landmarks[index].y * frame.height,
+  }));
+
+  const minX = Math.max(0, Math.floor(Math.min(...polygon.map((p) => p.x))));
+  const maxX = Math.min(frame.width - 1, Math.ceil(Math.max(...polygon.map((p) => p.x))));
+  const minY = Math.max(0, Math.floor(Math.min(...polygon.map((p) => p.y))));
+  const maxY = Math.min(frame.height - 1, Math.ceil(Math.max(...polygon.map((p) => p.y))));
+
+  let r = 0, g = 0, b = 0, pixels = 0;
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (!contains(polygon, x + 0.5, y + 0.5)) continue;
+      const i = (y * frame.width + x) * 4;
+      const [pr, pg, pb] = [frame.data[i], frame.data[i + 1], frame.data[i + 2]];
+      if (!isSkin(pr, pg, pb)) continue;
+      r += pr;
+      g += pg;
+      b += pb;
+      pixels++;
+    }
+  }
+
+  return pixels === 0 ? null : { r: r / pixels, g: g / pixels, b: b / pixels, pixels };
+};
+
+export const sampleRegions = (frame: PixelFrame, landmarks: FaceLandmarks) => {
+  const regions: Partial<Record<RegionName, RGBMean>> = {};
+  for (const name of REGION_NAMES) {
+    const mean = regionMean(frame, landmarks, ROI_POLYGONS[name]);
+    if (mean) regions[name] = mean;
+  }
+  return regions;
+};
@@ -0,0 +1,209 @@
+// Remote photoplethysmography (rPPG) pulse extraction (framework-free)
+// stepPulseDetector drives the live beat indicator; fuseRegions builds the
+// multi-region POS pulse signal that analyzePulse in ./hrv turns into metrics.
+import { analyzePulse, bandPass, resample, SAMPLE_RATE, type HRVMetrics } from './hrv';
+
+// Window kept for peak thresholding (15s at ~30 FPS)
+export const MAX_SAMPLES = 450;
+const THRESHOLD_WINDOW = 30;
+const REFRACTORY_MS = 150;
+
+export interface PulseDetectorState {
+  values: number[];
+  lastPeakTime: number;
+}
+
+export const createPulseDetectorState = (): PulseDetectorState => ({
+  values: [],
+  lastPeakTime: 0,
+});
+
+// One sample of the adaptive-threshold peak detector
+export const stepPulseDetector = (
+  state: PulseDetectorState,
+  value: number,
+  timestamp: number
+): { state: PulseDetectorState; peak: boolean } => {
+  const values = [...state.values, value].slice(-MAX_SAMPLES);
+  const next: PulseDetectorState = { ...state, values };
+
+  if (values.length <= THRESHOLD_WINDOW) {
+    return { state: next, peak: false };
+  }
+
+  const recentValues = values.slice(-THRESHOLD_WINDOW);
+  const avg = recentValues.reduce((a, b) => a + b, 0) / recentValues.length;
+  const stdDev = Math.sqrt(
+    recentValues.reduce((sum, val) => sum + Math.pow(val - avg, 2), 0) / recentValues.length
+  );
+  const threshold = avg + stdDev * 0.5;
+
+  const inRefractory = state.lastPeakTime > 0 && timestamp - state.lastPeakTime < REFRACTORY_MS;
+  if (value <= threshold || inRefractory) {
+    return { state: next, peak: false };
+  }
+
+  next.lastPeakTime = timestamp;
+
+  return { state: next, peak: true };
+};
+
+export interface RGBSample {
+  t: number; // ms
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface RppgAnalysis {
+  pulse: number[];
+  sampleRate: number;
+  // Spectral signal-quality index (0-1) per region, per window and overall
+  regionQuality: Record<string, number>;
+  windowQuality: number[];
+  quality: number;
+}
+
+// POS needs ~1.6s windows (at least one cardiac cycle at 40 bpm)
+const POS_WINDOW_S = 1.6;
+const SQI_WINDOW_S = 10;
+const SQI_HOP_S = 5;
+const SQI_PEAK_HALF_WIDTH_HZ = 0.1;
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const std = (values: number[]) => {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map((v) => Math.pow(v - avg, 2))));
+};
+
+const resampleRGB = (samples: RGBSample[], sampleRate: number) => {
+  const channel = (key: 'r' | 'g' | 'b') => resample(samples.map((s) => ({ t: s.t, value: s[key] })), sampleRate);
+  const [r, g, b] = [channel('r'), channel('g'), channel('b')];
+  return r.map((_, i) => ({ r: r[i], g: g[i], b: b[i] }));
+};
+
+// Plane-Orthogonal-to-Skin (Wang et al., 2017): projects temporally normalised RGB
+// onto a plane that cancels specular/illumination changes, then overlap-adds windows.
+export const posPulse = (rgb: { r: number; g: number; b: number }[], sampleRate = SAMPLE_RATE): number[] => {
+  const windowSize = Math.ceil(POS_WINDOW_S * sampleRate);
+  const pulse = new Array(rgb.length).fill(0);
+
+  for (let end = windowSize; end <= rgb.length; end++) {
+    const window = rgb.slice(end - windowSize, end);
+    const [mr, mg, mb] = [mean(window.map((c) => c.r)), mean(window.map((c) => c.g)), mean(window.map((c) => c.b))];
+    if (mr === 0 || mg === 0 || mb === 0) continue;
+
+    const s1 = window.map((c) => c.g / mg - c.b / mb);
+    const s2 = window.map((c) => c.g / mg + c.b / mb - (2 * c.r) / mr);
+    const s2Std = std(s2);
+    const alpha = s2Std > 0 ? std(s1) / s2Std : 0;
+    const h = s1.map((v, i) => v + alpha * s2[i]);
+    const hMean = mean(h);
+
+    h.forEach((v, i) => {
+      pulse[end - windowSize + i] += v - hMean;
+    });
+  }
+
+  return pulse;
+};
+
+// Share of in-band power concentrated around the dominant pulse frequency and its
+// first harmonic. Clean pulse signals score close to 1, noise close to 0.
+export const signalQuality = (values: number[], sampleRate = SAMPLE_RATE): number => {
+  if (values.length < sampleRate * 2) return 0;
+
+  const spectrum: { f: number; p: number }[] = [];
+  for (let f = 0.5; f <= 4; f += 0.02) {
+    let re = 0, im = 0;
+    values.forEach((v, n) => {
+      const w = (2 * Math.PI * f * n) / sampleRate;
+      re += v * Math.cos(w);
+      im -= v * Math.sin(w);
+    });
+    spectrum.push({ f, p: re * re + im * im });
+  }
+
+  const total = spectrum.reduce((sum, { p }) => sum + p, 0);
+  if (total === 0) return 0;
+
+  const inBand = spectrum.filter(({ f }) => f >= 0.7 && f <= 3.5);
+  const peak = inBand.reduce((best, bin) => (bin.p > best.p ? bin : best), inBand[0]);
+  const near = (f: number, target: number) => Math.abs(f - target) <= SQI_PEAK_HALF_WIDTH_HZ;
+  const signal = spectrum
+    .filter(({ f }) => near(f, peak.f) || near(f, 2 * peak.f))
+    .reduce((sum, { p }) => sum + p, 0);
+
+  return Math.round((signal / total) * 100) / 100;
+};
+
+export const windowedSignalQuality = (values: number[], sampleRate = SAMPLE_RATE): number[] => {
+  const windowSize = Math.round(SQI_WINDOW_S * sampleRate);
+  const hop = Math.round(SQI_HOP_S * sampleRate);
+  if (values.length < windowSize) return [signalQuality(values, sampleRate)];
+
+  const windows: number[] = [];
+  for (let start = 0; start + windowSize <= values.length; start += hop) {
+    windows.push(signalQuality(values.slice(start, start + windowSize), sampleRate));
+  }
+  return windows;
+};
+
+// POS pulse per region, fused with weights from each region's signal quality
+export const fuseRegions = (traces: Record<string, RGBSample[]>, sampleRate = SAMPLE_RATE): RppgAnalysis | null => {
+  const regionPulses = Object.entries(traces)
+    .filter(([, samples]) => samples.length >= sampleRate * 5)
+    .map(([name, samples]) => {
+      const filtered = bandPass(posPulse(resampleRGB(samples, sampleRate), sampleRate), sampleRate);
+      const sd = std(filtered);
+      return {
+        name,
+        pulse: sd > 0 ? filtered.map((v) => v / sd) : filtered,
+        quality: signalQuality(filtered, sampleRate),
+      };
+    });
+
+  if (regionPulses.length === 0) return null;
+
+  // Regions can differ by a sample or two when a region dropped out
+  const length = Math.min(...regionPulses.map((r) => r.pulse.length));
+  const weights = regionPulses.map((r) => Math.pow(r.quality, 2));
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+
+  const pulse = Array.from({ length }, (_, i) =>
+    weightSum > 0
+      ? regionPulses.reduce((sum, r, k) => sum + r.pulse[r.pulse.length - length + i] * weights[k], 0) / weightSum
+      : mean(regionPulses.map((r) => r.pulse[r.pulse.length - length + i]))
+  );
+
+  const windowQuality = windowedSignalQuality(pulse, sampleRate);
+
+  return {
+    pulse,
+    sampleRate,
+    regionQuality: Object.fromEntries(regionPulses.map((r) => [r.name, r.quality])),
+    windowQuality,
+    quality: Math.round(mean(windowQuality) * 100) / 100,
+  };
+};
+
+export interface RppgMetrics extends HRVMetrics {
+  signalQuality: number;
+  windowQuality: number[];
+  regionQuality: Record<string, number>;
+}
+
+export const analyzeRegions = (traces: Record<string, RGBSample[]>, sampleRate = SAMPLE_RATE): RppgMetrics | null => {
+  const fused = fuseRegions(traces, sampleRate);
+  if (!fused) return null;
+
+  const metrics = analyzePulse(fused.pulse, fused.sampleRate);
+  if (!metrics) return null;
+
+  return {
+    ...metrics,
+    signalQuality: fused.quality,
+    windowQuality: fused.windowQuality,
+    regionQuality: fused.regionQuality,
+  };
+};
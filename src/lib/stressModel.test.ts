@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { getStressModel, levelFromScore, multimodalModel, rulesModel } from './stressModel';
+
+describe('levelFromScore', () => {
+  it.each([
+    [0, 'low'],
+    [33, 'low'],
+    [34, 'moderate'],
+    [66, 'moderate'],
+    [67, 'high'],
+    [100, 'high'],
+  ])('maps %i to %s', (score, level) => {
+    expect(levelFromScore(score)).toBe(level);
+  });
+});
+
+describe('rulesModel', () => {
+  it.each([
+    [0, 'low', 0],
+    [14.9, 'low', 33],
+    [15, 'moderate', 34],
+    [25, 'moderate', 66],
+    [25.1, 'high', 67],
+    [40, 'high', 100],
+    [60, 'high', 100],
+  ])('rates %s blinks/min as %s (score %i)', (blinkRate, level, score) => {
+    expect(rulesModel.assess({ blinkRate })).toMatchObject({ level, score });
+  });
+
+  it.each([
+    // blinks/min, RMSSD, level, score
+    [26, 29, 'high', 85],
+    [26, 30, 'high', 69],
+    [26, 0, 'high', 69],
+    [20, 20, 'moderate', 50],
+  ])('at %s blinks/min with RMSSD %s ms rates %s (score %i)', (blinkRate, rmssd, level, score) => {
+    expect(rulesModel.assess({ blinkRate, rmssd })).toMatchObject({ level, score });
+  });
+
+  it('is more confident with HRV and scales confidence by signal quality', () => {
+    expect(rulesModel.assess({ blinkRate: 20 }).confidence).toBe(0.5);
+    expect(rulesModel.assess({ blinkRate: 20, rmssd: 40 }).confidence).toBe(0.6);
+    expect(rulesModel.assess({ blinkRate: 20, rmssd: 40, signalQuality: 0.5 }).confidence).toBe(0.3);
+  });
+});
+
+describe('multimodalModel', () => {
+  it.each([
+    [15, 'low', 27],
+    [20, 'moderate', 50],
+    [25, 'high', 73],
+  ])('rates %s blinks/min alone against the population as %s (score %i)', (blinkRate, level, score) => {
+    expect(multimodalModel.assess({ blinkRate })).toMatchObject({ level, score });
+  });
+
+  it('reweights over the cues present', () => {
+    // Blink rate at the population midpoint (0.5) and RMSSD 15 ms (full evidence), equal weights
+    expect(multimodalModel.assess({ blinkRate: 20, rmssd: 15 })).toMatchObject({ score: 75, level: 'high' });
+    expect(multimodalModel.assess({ blinkRate: 20, rmssd: 0 }).score).toBe(50);
+  });
+
+  it('uses personal baselines instead of the population reference', () => {
+    const baseline = { blinkRate: { mean: 25, sd: 5 } };
+
+    expect(multimodalModel.assess({ blinkRate: 25, baseline })).toMatchObject({ score: 50, level: 'moderate' });
+    expect(multimodalModel.assess({ blinkRate: 20, baseline }).level).toBe('low');
+  });
+
+  it('lowers confidence with fewer cues and raises it with a baseline', () => {
+    expect(multimodalModel.assess({ blinkRate: 20 }).confidence).toBe(0.27);
+    expect(multimodalModel.assess({ blinkRate: 20, baseline: { blinkRate: { mean: 20, sd: 4 } } }).confidence).toBe(0.37);
+    expect(
+      multimodalModel.assess({ blinkRate: 20, blinkDurationMs: 200, rmssd: 40, heartRate: 70, headJitter: 0.01 }).confidence
+    ).toBe(0.9);
+  });
+});
+
+describe('getStressModel', () => {
+  it('falls back to the rules model for unknown ids', () => {
+    expect(getStressModel('multimodal-v1')).toBe(multimodalModel);
+    expect(getStressModel('unknown')).toBe(rulesModel);
+    expect(getStressModel()).toBe(rulesModel);
+  });
+});
@@ -0,0 +1,134 @@
+// Stress classification models
+// Every model maps the same scan features to a 0-100 score plus a confidence, and
+// reports a versioned id that is stored with the scan so results stay comparable.
+
+export type StressLevel = 'low' | 'moderate' | 'high';
+
+// Personal reference for a metric (rolling mean and standard deviation)
+export interface MetricBaseline {
+  mean: number;
+  sd: number;
+}
+
+export type PersonalBaseline = Partial<Record<'blinkRate' | 'rmssd' | 'heartRate', MetricBaseline>>;
+
+export interface StressFeatures {
+  blinkRate: number; // blinks/min
+  blinkDurationMs?: number | null; // mean blink duration
+  rmssd?: number | null; // ms
+  heartRate?: number | null; // bpm
+  headJitter?: number | null; // mean head displacement per frame, in inter-ocular distances
+  signalQuality?: number | null; // 0-1 scan quality, scales the confidence
+  baseline?: PersonalBaseline | null;
+}
+
+export interface StressAssessment {
+  modelId: string;
+  score: number; // 0-100
+  level: StressLevel;
+  confidence: number; // 0-1
+}
+
+export interface StressModel {
+  id: string;
+  description: string;
+  assess: (features: StressFeatures) => StressAssessment;
+}
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+const present = (value: number | null | undefined): value is number => typeof value === 'number' && !Number.isNaN(value);
+
+export const levelFromScore = (score: number): StressLevel => (score < 34 ? 'low' : score < 67 ? 'moderate' : 'high');
+
+// Original population bands: <15 blinks/min low, 15-25 moderate, >25 high,
+// escalated to high when HRV is also low (cross-validation).
+export const rulesModel: StressModel = {
+  id: 'rules-v1',
+  description: 'Blink-rate bands (15/25 per minute) with low-HRV cross-validation',
+  assess: ({ blinkRate, rmssd, signalQuality }) => {
+    let level: StressLevel = 'low';
+    // Linear within each band so the score is continuous across band edges
+    let score = (clamp(blinkRate, 0, 15) / 15) * 33;
+
+    if (blinkRate >= 15 && blinkRate <= 25) {
+      level = 'moderate';
+      score = 34 + ((blinkRate - 15) / 10) * 32;
+    } else if (blinkRate > 25) {
+      level = 'high';
+      score = 67 + (clamp(blinkRate - 25, 0, 15) / 15) * 33;
+    }
+
+    if (present(rmssd) && rmssd > 0 && rmssd < 30 && blinkRate > 25) {
+      level = 'high';
+      score = Math.max(score, 85);
+    }
+
+    const confidence = (present(rmssd) ? 0.6 : 0.5) * (signalQuality ?? 1);
+
+    return { modelId: rulesModel.id, score: Math.round(score), level, confidence: Math.round(confidence * 100) / 100 };
+  },
+};
+
+// Each cue maps to 0-1 stress evidence; personal baselines (z-scores) replace the
+// population reference when available.
+const fromBaseline = (value: number, baseline: MetricBaseline | undefined, direction: 1 | -1) =>
+  baseline && baseline.sd > 0 ? logistic((direction * (value - baseline.mean)) / baseline.sd) : null;
+
+const MULTIMODAL_WEIGHTS = { blinkRate: 0.3, blinkDuration: 0.1, rmssd: 0.3, heartRate: 0.15, headJitter: 0.15 };
+
+export const multimodalModel: StressModel = {
+  id: 'multimodal-v1',
+  description: 'Weighted fusion of blink rate and duration, HRV, heart rate and head jitter against personal baselines',
+  assess: ({ blinkRate, blinkDurationMs, rmssd, heartRate, headJitter, signalQuality, baseline }) => {
+    const cues: [number, number | null][] = [
+      [
+        MULTIMODAL_WEIGHTS.blinkRate,
+        fromBaseline(blinkRate, baseline?.blinkRate, 1) ?? logistic((blinkRate - 20) / 5),
+      ],
+      [
+        MULTIMODAL_WEIGHTS.blinkDuration,
+        // Long, slow blinks signal fatigue
+        present(blinkDurationMs) ? clamp((blinkDurationMs - 150) / 250) : null,
+      ],
+      [
+        MULTIMODAL_WEIGHTS.rmssd,
+        present(rmssd) && rmssd > 0 ? fromBaseline(rmssd, baseline?.rmssd, -1) ?? clamp((50 - rmssd) / 35) : null,
+      ],
+      [
+        MULTIMODAL_WEIGHTS.heartRate,
+        present(heartRate) && heartRate > 0 ? fromBaseline(heartRate, baseline?.heartRate, 1) ?? clamp((heartRate - 65) / 35) : null,
+      ],
+      [
+        MULTIMODAL_WEIGHTS.headJitter,
+        present(headJitter) ? clamp(headJitter / 0.03) : null,
+      ],
+    ];
+
+    const available = cues.filter(([, value]) => value !== null) as [number, number][];
+    const weightSum = available.reduce((sum, [weight]) => sum + weight, 0);
+    const score = (available.reduce((sum, [weight, value]) => sum + weight * value, 0) / weightSum) * 100;
+
+    // Fewer cues and poorer signal lower the confidence
+    const baselineBonus = baseline && Object.keys(baseline).length > 0 ? 0.1 : 0;
+    const confidence = clamp(weightSum * 0.9 + baselineBonus) * (signalQuality ?? 1);
+
+    return {
+      modelId: multimodalModel.id,
+      score: Math.round(score),
+      level: levelFromScore(score),
+      confidence: Math.round(confidence * 100) / 100,
+    };
+  },
+};
+
+export const STRESS_MODELS: Record<string, StressModel> = {
+  [rulesModel.id]: rulesModel,
+  [multimodalModel.id]: multimodalModel,
+};
+
+export const DEFAULT_STRESS_MODEL_ID = rulesModel.id;
+
+// Unknown ids fall back to the default model
+export const getStressModel = (id: string | undefined = DEFAULT_STRESS_MODEL_ID): StressModel =>
+  STRESS_MODELS[id] ?? STRESS_MODELS[DEFAULT_STRESS_MODEL_ID];
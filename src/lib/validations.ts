@@ -1,5 +1,8 @@
 import { z } from 'zod';
 
+// Edge function request schemas live next to the functions that enforce them
+export * from '../../supabase/functions/_shared/validations.ts';
+
 // Authentication validation schemas
 export const signupSchema = z.object({
   email: z.string().email('Invalid email').max(255, 'Email too long'),
@@ -13,18 +16,5 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password required').max(100, 'Password too long'),
 });
 
-// NeuroCoach message validation
-export const coachMessageSchema = z.object({
-  messages: z.array(z.object({
-    role: z.enum(['user', 'assistant']),
-    content: z.string().trim().min(1, 'Message cannot be empty').max(2000, 'Message too long'),
-  })).min(1, 'At least one message is required'),
-  stressLevel: z.enum(['low', 'moderate', 'high']),
-  context: z.string().max(1000).optional(),
-  userName: z.string().max(100).optional(),
-  hrvValue: z.number().min(0).max(200).optional(),
-});
-
 export type SignupInput = z.infer<typeof signupSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
-export type CoachMessageInput = z.infer<typeof coachMessageSchema>;
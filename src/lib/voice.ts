@@ -0,0 +1,28 @@
+// NeuroCoach voice mode settings, kept per browser
+
+export const VOICE_LANGUAGES = [
+  { id: 'pt-BR', label: 'Português (BR)' },
+  { id: 'en-US', label: 'English (US)' },
+] as const;
+
+export interface VoiceSettings {
+  enabled: boolean;
+  lang: string;
+  // Empty for the browser's default voice for the language
+  voiceURI: string;
+}
+
+const VOICE_STORAGE_KEY = 'neurosuite-voice';
+
+export const loadVoiceSettings = (): VoiceSettings => {
+  const fallback = { enabled: false, lang: localStorage.getItem('neurosuite-lang') === 'en' ? 'en-US' : 'pt-BR', voiceURI: '' };
+  try {
+    return { ...fallback, ...JSON.parse(localStorage.getItem(VOICE_STORAGE_KEY) ?? '{}') };
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings) => {
+  localStorage.setItem(VOICE_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,6 +11,10 @@ import neuroSuiteLogo from '@/assets/neurosuite-logo.jpg';
 
 export default function Auth() {
   const navigate = useNavigate();
+  // Keep an invitation link's token through sign-in
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+  const homePath = inviteToken ? `/?invite=${encodeURIComponent(inviteToken)}` : '/';
   const { signIn, signUp } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
 
@@ -30,7 +34,7 @@ export default function Auth() {
       const validated = loginSchema.parse({ email: loginEmail, password: loginPassword });
       const { error } = await signIn(validated.email, validated.password);
       if (!error) {
-        navigate('/');
+        navigate(homePath);
       }
     } catch (error: any) {
       if (error.errors) {
@@ -61,7 +65,7 @@ export default function Auth() {
       );
 
       if (!error) {
-        navigate('/');
+        navigate(homePath);
       }
     } catch (error: any) {
       if (error.errors) {
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -17,16 +17,19 @@ import BackButton from '@/components/BackButton';
 export default function Dashboard() {
   const { user, signOut, loading } = useAuth();
   const navigate = useNavigate();
+  // Invitation links (?invite=<token>) open the HR Dashboard, where the invitation can be accepted
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
   const [stressLevel, setStressLevel] = useState<string>('');
   const [hrvValue, setHRVValue] = useState<number | undefined>(undefined);
-  const [activeTab, setActiveTab] = useState('neuroscore');
+  const [activeTab, setActiveTab] = useState(inviteToken ? 'dashboard-rh' : 'neuroscore');
   const [showMeditation, setShowMeditation] = useState(false);
 
   useEffect(() => {
     if (!loading && !user) {
-      navigate('/auth');
+      navigate(inviteToken ? `/auth?invite=${encodeURIComponent(inviteToken)}` : '/auth');
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, navigate, inviteToken]);
 
   const handleStressLevelComplete = (level: string, hrv?: number) => {
     setStressLevel(level);
@@ -143,7 +146,7 @@ export default function Dashboard() {
           </TabsContent>
 
           <TabsContent value="dashboard-rh" className="space-y-6">
-            <DashboardRH />
+            <DashboardRH inviteToken={inviteToken} />
           </TabsContent>
         </Tabs>
 
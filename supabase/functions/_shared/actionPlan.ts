@@ -0,0 +1,70 @@
+// Extracts the commitments a coach reply asks the user to make (task, deadline, metric)
+import { callLLM } from "./llm.ts";
+
+export interface ActionItemDraft {
+  task: string;
+  deadline: string | null; // YYYY-MM-DD
+  metric: string | null;
+}
+
+const MAX_ITEMS = 3;
+
+const EXTRACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          task: { type: 'string' },
+          deadline: { type: 'string' },
+          metric: { type: 'string' },
+        },
+        required: ['task', 'deadline', 'metric'],
+      },
+    },
+  },
+  required: ['items'],
+};
+
+const cleanText = (value: unknown, maxLength: number) =>
+  typeof value === 'string' && value.trim() ? value.trim().substring(0, maxLength) : null;
+
+export const extractActionItems = async (reply: string, userId: string): Promise<ActionItemDraft[]> => {
+  const today = new Date().toISOString().slice(0, 10);
+
+  try {
+    const result = await callLLM('coach', {
+      messages: [
+        {
+          role: 'system',
+          content: `Extract the concrete actions a coach reply asks the user to commit to. For each: task (short imperative sentence, in the reply's language), deadline (YYYY-MM-DD; resolve relative deadlines such as "tomorrow" or "in 3 days" against today, ${today}; empty string if none) and metric (how success is measured; empty string if none). At most ${MAX_ITEMS} items. Return {"items": []} when the reply asks for no concrete action. Respond only with JSON matching the schema.`,
+        },
+        { role: 'user', content: reply },
+      ],
+      jsonSchema: EXTRACTION_SCHEMA,
+      temperature: 0,
+    }, { userId });
+
+    const parsed = JSON.parse(result.text);
+    if (!Array.isArray(parsed.items)) return [];
+
+    return parsed.items.slice(0, MAX_ITEMS).flatMap((item: Record<string, unknown>) => {
+      const task = cleanText(item.task, 200);
+      if (!task) return [];
+      const deadline = typeof item.deadline === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(item.deadline) ? item.deadline : null;
+      return [{ task, deadline, metric: cleanText(item.metric, 200) }];
+    });
+  } catch (error) {
+    // Extraction is best-effort: the reply itself has already been delivered
+    console.error('Action item extraction failed:', error);
+    return [];
+  }
+};
+
+// Plain-text plan stored on coach_conversations.action_plan
+export const formatActionPlan = (items: ActionItemDraft[]) =>
+  items
+    .map((item) => `- ${item.task}${item.deadline ? ` (by ${item.deadline})` : ''}${item.metric ? ` — metric: ${item.metric}` : ''}`)
+    .join('\n');
@@ -0,0 +1,82 @@
+// Biometric context for NeuroCoach, summarised from the user's latest valid scans.
+// Built by the neuro-coach edge function from stress_scans; the app uses it to show what the coach sees.
+import type { BiometricContext } from "./validations.ts";
+
+export interface BiometricScan {
+  created_at: string | null;
+  stress_level: string;
+  stress_score: number | null;
+  rmssd: number | null;
+  heart_rate: number | null;
+  blink_rate: number | null;
+}
+
+type StressLevel = BiometricContext['recentLevels'][number];
+
+export const BIOMETRIC_SCAN_COUNT = 5;
+// Stress score change (0-100) between older and newer scans that counts as a trend
+const TREND_THRESHOLD = 5;
+
+const round = (value: number | null | undefined, digits = 0) => {
+  if (value == null || !Number.isFinite(Number(value))) return null;
+  const factor = Math.pow(10, digits);
+  return Math.round(Number(value) * factor) / factor;
+};
+
+const mean = (values: (number | null)[]) => {
+  const present = values.filter((v): v is number => v != null && Number.isFinite(Number(v))).map(Number);
+  return present.length > 0 ? present.reduce((a, b) => a + b, 0) / present.length : null;
+};
+
+// Compares the newer half of the scans with the older half; falls back to RMSSD when scores are missing
+const computeTrend = (scans: BiometricScan[]): BiometricContext['trend'] => {
+  if (scans.length < 4) return 'insufficient_data';
+  const half = Math.floor(scans.length / 2);
+  const newer = scans.slice(0, half);
+  const older = scans.slice(-half);
+
+  const newerScore = mean(newer.map((s) => s.stress_score));
+  const olderScore = mean(older.map((s) => s.stress_score));
+  if (newerScore != null && olderScore != null) {
+    if (newerScore - olderScore > TREND_THRESHOLD) return 'worsening';
+    if (olderScore - newerScore > TREND_THRESHOLD) return 'improving';
+    return 'stable';
+  }
+
+  const newerHrv = mean(newer.map((s) => s.rmssd));
+  const olderHrv = mean(older.map((s) => s.rmssd));
+  if (newerHrv == null || olderHrv == null || olderHrv === 0) return 'insufficient_data';
+  const change = (newerHrv - olderHrv) / olderHrv;
+  // Higher HRV means lower stress
+  if (change > 0.1) return 'improving';
+  if (change < -0.1) return 'worsening';
+  return 'stable';
+};
+
+// scans: newest first
+export const buildBiometricContext = (scans: BiometricScan[], now = new Date()): BiometricContext => {
+  const latest = scans[0];
+  const takenAt = latest?.created_at ? new Date(latest.created_at) : null;
+
+  return {
+    scanCount: scans.length,
+    latest: latest
+      ? {
+          takenAt: latest.created_at ?? '',
+          stressLevel: latest.stress_level as StressLevel,
+          stressScore: round(latest.stress_score),
+          rmssd: round(latest.rmssd, 1),
+          heartRate: round(latest.heart_rate),
+          blinkRate: round(latest.blink_rate, 1),
+        }
+      : null,
+    averages: {
+      stressScore: round(mean(scans.map((s) => s.stress_score))),
+      rmssd: round(mean(scans.map((s) => s.rmssd)), 1),
+      heartRate: round(mean(scans.map((s) => s.heart_rate))),
+    },
+    trend: computeTrend(scans),
+    hoursSinceLastScan: takenAt ? round(Math.max(0, (now.getTime() - takenAt.getTime()) / 3_600_000), 1) : null,
+    recentLevels: scans.map((s) => s.stress_level as StressLevel),
+  };
+};
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assessRisk,
+  canonicalJson,
+  methodologyNotes,
+  protectInterventions,
+  summarize,
+  type GroupAssessment,
+  type InterventionCounts,
+  type RiskLevel,
+  type TrendEvidence,
+} from './complianceReport.ts';
+import type { RiskForecast } from './forecast.ts';
+import { MAX_SCANS_PER_MEMBER, type ProtectedCell } from './privacy.ts';
+
+const K = 5;
+
+const cell = (high: number, avgRmssd: number | null = 45): ProtectedCell => ({
+  memberCount: 20,
+  reportingMembers: 15,
+  scanCount: 120,
+  percentages: { low: 100 - high - 20, moderate: 20, high },
+  avgRmssd,
+  suppressed: false,
+  suppressedLevels: [],
+  noised: false,
+});
+
+const suppressed: ProtectedCell = {
+  memberCount: 5,
+  reportingMembers: null,
+  scanCount: null,
+  percentages: { low: null, moderate: null, high: null },
+  avgRmssd: null,
+  suppressed: true,
+  suppressedLevels: ['low', 'moderate', 'high'],
+  noised: false,
+};
+
+const forecast = (probability: number | null): RiskForecast => ({
+  status: probability === null ? 'insufficient_data' : 'ok',
+  horizonDays: 14,
+  thresholdPercent: 30,
+  observedDays: probability === null ? 3 : 90,
+  expectedHighPercent: null,
+  expectedInterval: null,
+  probability,
+  probabilityInterval: null,
+  riskLevel: null,
+  drivers: [],
+});
+
+const trend = (direction: TrendEvidence['direction'], changePoints: number | null = 0): TrendEvidence => ({
+  currentHighPercent: null,
+  previousHighPercent: null,
+  changePoints,
+  direction,
+  weekly: [],
+});
+
+describe('assessRisk', () => {
+  it.each([
+    // high %, probability, exposure, severity, score, level
+    [10, 0.1, 1, 1, 1, 'low'],
+    [14.9, 0.3, 1, 2, 2, 'low'],
+    [30, 0.29, 3, 1, 3, 'moderate'],
+    [15, 0.3, 2, 2, 4, 'moderate'],
+    [30, 0.3, 3, 2, 6, 'high'],
+    [29.9, 0.6, 2, 3, 6, 'high'],
+    [30, 0.6, 3, 3, 9, 'critical'],
+  ])('scores %s%% high stress at probability %s as %i x %i = %i (%s)', (high, probability, exposure, severity, score, level) => {
+    expect(assessRisk(cell(high), forecast(probability), trend('stable'), K)).toMatchObject({ exposure, severity, score, level });
+  });
+
+  it.each([
+    [29, 2, 'high'],
+    [30, 1, 'moderate'],
+  ])('raises severity to 2 only when average HRV is under 30 ms (%i ms)', (avgRmssd, severity, level) => {
+    expect(assessRisk(cell(30, avgRmssd), forecast(0.1), trend('stable'), K)).toMatchObject({ severity, level });
+  });
+
+  it('adds one severity step for a worsening trend, up to 3', () => {
+    expect(assessRisk(cell(15), forecast(0.3), trend('worsening', 6), K)).toMatchObject({ severity: 3, score: 6, level: 'high' });
+    expect(assessRisk(cell(30), forecast(0.6), trend('worsening', 6), K)).toMatchObject({ severity: 3, score: 9 });
+  });
+
+  it('uses the lowest severity without a forecast', () => {
+    const risk = assessRisk(cell(30), forecast(null), trend('unknown', null), K);
+
+    expect(risk).toMatchObject({ severity: 1, score: 3, level: 'moderate' });
+    expect(risk.rationale).toContain('Not enough history for a forecast');
+  });
+
+  it('does not assess suppressed groups', () => {
+    expect(assessRisk(suppressed, forecast(0.9), trend('worsening', 20), K)).toEqual({
+      exposure: null,
+      severity: null,
+      score: null,
+      level: 'not_assessed',
+      rationale: [`Fewer than ${K} members scanned during the period, so results are withheld`],
+    });
+  });
+});
+
+describe('protectInterventions', () => {
+  const counts = (members: number): InterventionCounts => ({
+    member_count: 20,
+    meditation_sessions: 31,
+    meditation_members: members,
+    coach_sessions: 12,
+    coach_members: members,
+    action_items_created: 9,
+    action_items_completed: 4,
+    action_item_members: members,
+  });
+
+  it('withholds counts backed by fewer than k people', () => {
+    expect(Object.values(protectInterventions(counts(K - 1), K))).toEqual(Array(7).fill(null));
+  });
+
+  it('publishes counts backed by k or more people, with participants rounded down', () => {
+    expect(protectInterventions(counts(K + 2), K)).toEqual({
+      meditationSessions: 31,
+      meditationParticipants: 5,
+      coachSessions: 12,
+      coachParticipants: 5,
+      actionItemsCreated: 9,
+      actionItemsCompleted: 4,
+      actionItemParticipants: 5,
+    });
+  });
+
+  it('reports zero when nobody took part', () => {
+    expect(Object.values(protectInterventions(counts(0), K))).toEqual(Array(7).fill(0));
+    expect(Object.values(protectInterventions(undefined, K))).toEqual(Array(7).fill(0));
+  });
+});
+
+describe('summarize', () => {
+  const group = (level: RiskLevel) => ({ risk: { level } }) as GroupAssessment;
+
+  it('counts groups by level and reports the highest assessed level', () => {
+    expect(summarize(['low', 'high', 'not_assessed', 'moderate', 'high'].map((level) => group(level as RiskLevel)))).toEqual({
+      groupsAssessed: 4,
+      groupsNotAssessed: 1,
+      byLevel: { critical: 0, high: 2, moderate: 1, low: 1, not_assessed: 1 },
+      highestLevel: 'high',
+    });
+  });
+
+  it('falls back to not assessed when no group could be assessed', () => {
+    expect(summarize([group('not_assessed')]).highestLevel).toBe('not_assessed');
+    expect(summarize([])).toMatchObject({ groupsAssessed: 0, groupsNotAssessed: 0, highestLevel: 'not_assessed' });
+  });
+});
+
+describe('canonicalJson', () => {
+  it('sorts object keys recursively and keeps array order', () => {
+    const a = { b: 1, a: { d: [3, { z: 1, y: 2 }], c: 'x' } };
+    const b = { a: { c: 'x', d: [3, { y: 2, z: 1 }] }, b: 1 };
+
+    expect(canonicalJson(a)).toBe('{"a":{"c":"x","d":[3,{"y":2,"z":1}]},"b":1}');
+    expect(canonicalJson(b)).toBe(canonicalJson(a));
+  });
+
+  it('drops undefined properties like JSON.stringify and writes other undefined values as null', () => {
+    expect(canonicalJson({ a: undefined, b: null, c: [undefined, 1] })).toBe('{"b":null,"c":[null,1]}');
+    expect(canonicalJson(undefined)).toBe('null');
+  });
+});
+
+describe('methodologyNotes', () => {
+  it('states the per-member scan bound', () => {
+    expect(methodologyNotes(K, null, 14, 30).join('\n')).toContain(`at most ${MAX_SCANS_PER_MEMBER} scans per aggregate`);
+  });
+});
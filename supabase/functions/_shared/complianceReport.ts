@@ -0,0 +1,254 @@
+// NR-1 psychosocial risk inventory (PGR-style): per-group risk assessment, interventions and trend evidence.
+// Everything here works on already-protected aggregates; nothing identifies an employee.
+import type { RiskForecast } from "./forecast.ts";
+import { coarseMemberCount, MAX_SCANS_PER_MEMBER, MEMBER_COUNT_STEP, RMSSD_MAX, type ProtectedCell } from "./privacy.ts";
+
+export type RiskLevel = 'low' | 'moderate' | 'high' | 'critical' | 'not_assessed';
+
+export const RISK_LEVELS: RiskLevel[] = ['critical', 'high', 'moderate', 'low', 'not_assessed'];
+
+// Raw counts from public.hr_intervention_counts
+export interface InterventionCounts {
+  member_count: number;
+  meditation_sessions: number;
+  meditation_members: number;
+  coach_sessions: number;
+  coach_members: number;
+  action_items_created: number;
+  action_items_completed: number;
+  action_item_members: number;
+}
+
+// Counts backed by fewer than k people are null
+export interface ProtectedInterventions {
+  meditationSessions: number | null;
+  meditationParticipants: number | null;
+  coachSessions: number | null;
+  coachParticipants: number | null;
+  actionItemsCreated: number | null;
+  actionItemsCompleted: number | null;
+  actionItemParticipants: number | null;
+}
+
+export interface TrendEvidence {
+  currentHighPercent: number | null;
+  previousHighPercent: number | null;
+  changePoints: number | null;
+  direction: 'improving' | 'stable' | 'worsening' | 'unknown';
+  weekly: { week: string; highPercent: number | null; avgRmssd: number | null }[];
+}
+
+export interface RiskAssessment {
+  // 1-3: share of scans at high stress during the period
+  exposure: number | null;
+  // 1-3: forecast of sustained high stress and recovery (HRV)
+  severity: number | null;
+  score: number | null;
+  level: RiskLevel;
+  rationale: string[];
+}
+
+export interface GroupAssessment {
+  // null for the whole organization
+  teamId: string | null;
+  name: string;
+  memberCount: number;
+  exposure: ProtectedCell;
+  previous: ProtectedCell;
+  trend: TrendEvidence;
+  forecast: RiskForecast;
+  risk: RiskAssessment;
+  interventions: ProtectedInterventions;
+  recommendedActions: string[];
+}
+
+export interface ComplianceReport {
+  schemaVersion: 1;
+  reportType: 'nr1-psychosocial-risk-inventory';
+  organization: { id: string; name: string };
+  period: { from: string; to: string; previousFrom: string; timezone: string };
+  generatedAt: string;
+  generatedBy: { userId: string; email: string | null };
+  // Member and participant counts are rounded down to memberStep
+  privacy: { k: number; epsilon: number | null; memberStep: number };
+  summary: {
+    groupsAssessed: number;
+    groupsNotAssessed: number;
+    byLevel: Record<RiskLevel, number>;
+    highestLevel: RiskLevel;
+  };
+  groups: GroupAssessment[];
+  methodology: string[];
+}
+
+// Change in high-stress share (points) treated as a real movement rather than noise
+const TREND_POINTS = 5;
+
+const RECOMMENDED_ACTIONS: Record<RiskLevel, string[]> = {
+  critical: [
+    'Start an immediate review of workload, deadlines and staffing with the team manager',
+    'Offer confidential access to occupational health or psychological support',
+    'Schedule guided breathing breaks and NeuroCoach sessions for the team this week',
+    'Re-assess within 30 days and record the outcome in the PGR action plan',
+  ],
+  high: [
+    'Review workload distribution and meeting load with the team manager',
+    'Promote daily mini-meditations and NeuroCoach action plans',
+    'Re-assess within 60 days',
+  ],
+  moderate: [
+    'Encourage preventive breaks and regular scans',
+    'Monitor the trend monthly',
+  ],
+  low: ['Maintain current well-being practices and monitoring'],
+  not_assessed: ['Increase scan participation so the group can be assessed without identifying anyone'],
+};
+
+export const protectInterventions = (counts: InterventionCounts | undefined, k: number): ProtectedInterventions => {
+  const guard = (value: number, people: number) => (people === 0 ? 0 : people < k ? null : value);
+  const c = counts ?? {
+    member_count: 0, meditation_sessions: 0, meditation_members: 0, coach_sessions: 0, coach_members: 0,
+    action_items_created: 0, action_items_completed: 0, action_item_members: 0,
+  };
+  return {
+    meditationSessions: guard(c.meditation_sessions, c.meditation_members),
+    meditationParticipants: guard(coarseMemberCount(c.meditation_members), c.meditation_members),
+    coachSessions: guard(c.coach_sessions, c.coach_members),
+    coachParticipants: guard(coarseMemberCount(c.coach_members), c.coach_members),
+    actionItemsCreated: guard(c.action_items_created, c.action_item_members),
+    actionItemsCompleted: guard(c.action_items_completed, c.action_item_members),
+    actionItemParticipants: guard(coarseMemberCount(c.action_item_members), c.action_item_members),
+  };
+};
+
+export const trendEvidence = (
+  current: ProtectedCell,
+  previous: ProtectedCell,
+  weekly: { bucket: string; summary: ProtectedCell }[]
+): TrendEvidence => {
+  const now = current.percentages.high;
+  const before = previous.percentages.high;
+  const change = now === null || before === null ? null : Math.round((now - before) * 10) / 10;
+  return {
+    currentHighPercent: now,
+    previousHighPercent: before,
+    changePoints: change,
+    direction: change === null ? 'unknown' : change >= TREND_POINTS ? 'worsening' : change <= -TREND_POINTS ? 'improving' : 'stable',
+    weekly: weekly.map(({ bucket, summary }) => ({
+      week: bucket,
+      highPercent: summary.percentages.high,
+      avgRmssd: summary.avgRmssd === null ? null : Math.round(summary.avgRmssd),
+    })),
+  };
+};
+
+// Exposure x severity matrix (3 x 3), as commonly used in PGR risk inventories
+export const assessRisk = (current: ProtectedCell, forecast: RiskForecast, trend: TrendEvidence, k: number): RiskAssessment => {
+  const high = current.percentages.high;
+  if (current.suppressed || high === null) {
+    return {
+      exposure: null,
+      severity: null,
+      score: null,
+      level: 'not_assessed',
+      rationale: [`Fewer than ${k} members scanned during the period, so results are withheld`],
+    };
+  }
+
+  const rationale: string[] = [];
+  const exposure = high >= 30 ? 3 : high >= 15 ? 2 : 1;
+  rationale.push(`${high}% of scans at high stress (exposure ${exposure}/3)`);
+
+  let severity = 1;
+  if (forecast.status === 'ok' && forecast.probability !== null) {
+    severity = forecast.probability >= 0.6 ? 3 : forecast.probability >= 0.3 ? 2 : 1;
+    rationale.push(`${Math.round(forecast.probability * 100)}% probability of sustained high stress over the next ${forecast.horizonDays} days`);
+  } else {
+    rationale.push('Not enough history for a forecast');
+  }
+  if (current.avgRmssd !== null && current.avgRmssd < 30) {
+    severity = Math.max(severity, 2);
+    rationale.push(`Average HRV ${Math.round(current.avgRmssd)} ms indicates poor recovery`);
+  }
+  if (trend.direction === 'worsening') {
+    severity = Math.min(3, severity + 1);
+    rationale.push(`High stress rose ${trend.changePoints} points versus the previous period`);
+  }
+  rationale.push(`Severity ${severity}/3`);
+
+  const score = exposure * severity;
+  const level: RiskLevel = score >= 9 ? 'critical' : score >= 6 ? 'high' : score >= 3 ? 'moderate' : 'low';
+  return { exposure, severity, score, level, rationale };
+};
+
+export const assessGroup = (input: {
+  teamId: string | null;
+  name: string;
+  memberCount: number;
+  current: ProtectedCell;
+  previous: ProtectedCell;
+  weekly: { bucket: string; summary: ProtectedCell }[];
+  forecast: RiskForecast;
+  interventions: InterventionCounts | undefined;
+  k: number;
+}): GroupAssessment => {
+  const trend = trendEvidence(input.current, input.previous, input.weekly);
+  const risk = assessRisk(input.current, input.forecast, trend, input.k);
+  return {
+    teamId: input.teamId,
+    name: input.name,
+    memberCount: input.memberCount,
+    exposure: input.current,
+    previous: input.previous,
+    trend,
+    forecast: input.forecast,
+    risk,
+    interventions: protectInterventions(input.interventions, input.k),
+    recommendedActions: RECOMMENDED_ACTIONS[risk.level],
+  };
+};
+
+export const summarize = (groups: GroupAssessment[]): ComplianceReport['summary'] => {
+  const byLevel = Object.fromEntries(RISK_LEVELS.map((level) => [level, 0])) as Record<RiskLevel, number>;
+  groups.forEach((group) => byLevel[group.risk.level]++);
+  const assessed = groups.filter((group) => group.risk.level !== 'not_assessed');
+  return {
+    groupsAssessed: assessed.length,
+    groupsNotAssessed: groups.length - assessed.length,
+    byLevel,
+    highestLevel: RISK_LEVELS.find((level) => level !== 'not_assessed' && byLevel[level] > 0) ?? 'not_assessed',
+  };
+};
+
+export const methodologyNotes = (k: number, epsilon: number | null, horizonDays: number, thresholdPercent: number) => [
+  'Scope: psychosocial risk identification and assessment for the risk inventory of the Programa de Gerenciamento de Riscos (PGR), NR-1 item 1.5.',
+  `Hazard indicator: stress level of each valid NeuroScore scan (blink rate and camera-based heart rate variability) and the average HRV (RMSSD, clipped at ${RMSSD_MAX} ms).`,
+  `Privacy: every published figure is backed by at least ${k} employees; smaller groups and levels are withheld (with complementary suppression). Each employee counts for at most ${MAX_SCANS_PER_MEMBER} scans per aggregate. Periods cover whole local days, and member and participant counts are rounded down to multiples of ${MEMBER_COUNT_STEP}.`,
+  epsilon
+    ? `Differential privacy: Laplace noise with a total budget of epsilon = ${epsilon} per aggregate, drawn once per aggregate and underlying data so repeated queries return the same values.`
+    : 'Differential privacy: off (exact counts after suppression).',
+  'Exposure (1-3): share of scans at high stress in the period (under 15%, 15-30%, 30% or more).',
+  `Severity (1-3): probability that the next ${horizonDays} days average ${thresholdPercent}% or more high-stress scans (under 30%, 30-60%, 60% or more), raised to at least 2 when average HRV is under 30 ms and by one step when high stress rose ${TREND_POINTS}+ points versus the previous period of equal length.`,
+  'Risk level: exposure x severity; 1-2 low, 3-4 moderate, 6 high, 9 critical.',
+  'Forecast: damped-trend and weekday model fitted to the protected daily aggregates of the 180 days before the period end.',
+  'Interventions: completed mini-meditations, NeuroCoach conversations started and coach action items created/completed during the period, shown only when at least k employees took part.',
+  'Integrity: the report is archived unchanged; its SHA-256 is computed over the JSON with keys sorted.',
+  'This report supports, and does not replace, the assessment by the qualified professional responsible for the PGR.',
+];
+
+// JSON with object keys sorted recursively, so the hash does not depend on key order (jsonb reorders keys)
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addDays,
+  backtestRisk,
+  forecastRisk,
+  HIGH_STRESS_THRESHOLD,
+  HORIZON_DAYS,
+  MIN_OBSERVED_DAYS,
+  type DailyObservation,
+  type RiskForecast,
+} from './forecast.ts';
+
+const END = '2025-06-30';
+
+// Deterministic uniform source (mulberry32), so every run fits the same histories
+const seeded = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// `days` daily shares ending on END, with ±4 points of noise
+const history = (days: number, share: (day: number, date: string) => number, seed = 1): DailyObservation[] => {
+  const random = seeded(seed);
+  return Array.from({ length: days }, (_, day) => {
+    const date = addDays(END, day - days + 1);
+    const noisy = share(day, date) + (random() - 0.5) * 0.08;
+    return { date, highShare: Math.min(1, Math.max(0, noisy)), weight: 10, avgRmssd: 40 };
+  });
+};
+
+const isMonday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay() === 1;
+
+const flatLow = history(120, () => 0.1);
+const rising = history(120, (day) => 0.05 + day * 0.0025);
+const weekdaySeasonal = history(120, (_, date) => (isMonday(date) ? 0.5 : 0.1));
+// Five-week spells alternating between calm and high stress, ending a few days into a high one
+const regimes = history(180, (day) => (Math.floor(day / 35) % 2 === 0 ? 0.1 : 0.45), 3);
+
+const expectContained = (forecast: RiskForecast) => {
+  const { probability, probabilityInterval, expectedHighPercent, expectedInterval } = forecast;
+  expect(probabilityInterval!.low).toBeLessThanOrEqual(probability!);
+  expect(probabilityInterval!.high).toBeGreaterThanOrEqual(probability!);
+  expect(expectedInterval!.low).toBeLessThanOrEqual(expectedHighPercent!);
+  expect(expectedInterval!.high).toBeGreaterThanOrEqual(expectedHighPercent!);
+};
+
+describe('forecastRisk', () => {
+  it('orders the probability of sustained high stress by history', () => {
+    const low = forecastRisk(flatLow, END);
+    const mixed = forecastRisk(regimes, END);
+    const high = forecastRisk(rising, END);
+
+    expect(low.probability!).toBeLessThan(mixed.probability!);
+    expect(mixed.probability!).toBeLessThan(high.probability!);
+    expect([low.riskLevel, mixed.riskLevel, high.riskLevel]).toEqual(['low', 'elevated', 'high']);
+  });
+
+  it.each([
+    ['flat-low', flatLow],
+    ['rising', rising],
+    ['weekday-seasonal', weekdaySeasonal],
+    ['alternating', regimes],
+  ])('keeps %s estimates inside their intervals', (_, observations) => {
+    const forecast = forecastRisk(observations, END);
+
+    expect(forecast.status).toBe('ok');
+    expect(forecast.horizonDays).toBe(HORIZON_DAYS);
+    expect(forecast.thresholdPercent).toBe(HIGH_STRESS_THRESHOLD * 100);
+    expectContained(forecast);
+  });
+
+  it('recovers a flat level', () => {
+    const forecast = forecastRisk(flatLow, END);
+
+    expect(forecast.expectedHighPercent).toBeCloseTo(10, 0);
+    expect(forecast.drivers.find((d) => d.factor === 'trend')?.direction).toBe('neutral');
+  });
+
+  it('extrapolates a rising trend, damped over the horizon', () => {
+    const forecast = forecastRisk(rising, END);
+    const lastShare = (0.05 + 119 * 0.0025) * 100;
+
+    expect(forecast.expectedHighPercent!).toBeGreaterThan(lastShare);
+    // An undamped trend would add ~1.9 points (7.5 days at 0.25 points per day)
+    expect(forecast.expectedHighPercent!).toBeLessThan(lastShare + 1.9);
+    expect(forecast.drivers.find((d) => d.factor === 'trend')).toMatchObject({ direction: 'raises' });
+  });
+
+  it('averages weekday seasonality over the horizon and names the peak day', () => {
+    const forecast = forecastRisk(weekdaySeasonal, END);
+
+    // One Monday at 50% per week, 10% otherwise
+    expect(forecast.expectedHighPercent!).toBeCloseTo((0.1 + 0.4 / 7) * 100, 0);
+    expect(forecast.drivers.find((d) => d.factor === 'weekday')?.text).toMatch(/^Mondays run/);
+  });
+
+  it('needs at least 10 observed days', () => {
+    const sparse = history(MIN_OBSERVED_DAYS - 2, () => 0.2);
+
+    expect(forecastRisk(sparse, END)).toMatchObject({
+      status: 'insufficient_data',
+      observedDays: MIN_OBSERVED_DAYS - 2,
+      probability: null,
+      probabilityInterval: null,
+      expectedInterval: null,
+      riskLevel: null,
+      drivers: [],
+    });
+  });
+
+  it('ignores days after the forecast date', () => {
+    const upToMay = forecastRisk(rising, '2025-05-31');
+    const withoutJune = forecastRisk(rising.filter((o) => o.date <= '2025-05-31'), '2025-05-31');
+
+    expect(upToMay).toEqual(withoutJune);
+  });
+});
+
+describe('backtestRisk', () => {
+  it('beats the base rate when the trend carries on', () => {
+    const report = backtestRisk(rising, END);
+
+    expect(report.origins).toBe(12);
+    expect(report.events).toBeGreaterThan(0);
+    expect(report.skill!).toBeGreaterThan(0);
+    expect(report.brier!).toBeLessThan(report.baselineBrier!);
+  });
+
+  it('covers most outcomes of a stable series and leaves skill undefined without events', () => {
+    const report = backtestRisk(flatLow, END);
+
+    expect(report.events).toBe(0);
+    expect(report.skill).toBeNull();
+    expect(report.intervalCoverage!).toBeGreaterThanOrEqual(0.8);
+    expect(report.maePoints!).toBeLessThan(2);
+  });
+
+  it('scores nothing without enough history', () => {
+    expect(backtestRisk(history(20, () => 0.2), END)).toEqual({
+      origins: 0,
+      events: 0,
+      maePoints: null,
+      brier: null,
+      baselineBrier: null,
+      skill: null,
+      intervalCoverage: null,
+    });
+  });
+});
@@ -0,0 +1,403 @@
+// Burnout-risk forecasting: a damped-trend + weekday-seasonality model fitted to daily high-stress shares.
+// Pure functions with no Deno globals, so the edge function and the backtest share one implementation.
+
+export interface DailyObservation {
+  // Local calendar day, YYYY-MM-DD
+  date: string;
+  // Share of the day's scans at high stress (0-1); null when there were no scans or the cell is hidden
+  highShare: number | null;
+  // Scans behind the share (1 when unknown)
+  weight: number;
+  avgRmssd: number | null;
+}
+
+export type DriverFactor = 'level' | 'trend' | 'recent' | 'weekday' | 'hrv';
+
+export interface ForecastDriver {
+  factor: DriverFactor;
+  direction: 'raises' | 'lowers' | 'neutral';
+  // Contribution to the expected high-stress share over the horizon, in percentage points (null when descriptive only)
+  points: number | null;
+  text: string;
+}
+
+export interface Interval {
+  low: number;
+  high: number;
+}
+
+export type RiskLevel = 'low' | 'elevated' | 'high';
+
+export interface RiskForecast {
+  status: 'ok' | 'insufficient_data';
+  horizonDays: number;
+  // Sustained high stress = mean high-stress share over the horizon at or above this percentage
+  thresholdPercent: number;
+  observedDays: number;
+  expectedHighPercent: number | null;
+  // 80% prediction interval for the horizon mean
+  expectedInterval: Interval | null;
+  probability: number | null;
+  // 90% interval reflecting uncertainty in the fitted parameters
+  probabilityInterval: Interval | null;
+  riskLevel: RiskLevel | null;
+  drivers: ForecastDriver[];
+}
+
+export interface BacktestReport {
+  // Forecast origins scored (one per week, walking back from the end of the history)
+  origins: number;
+  events: number;
+  // Mean absolute error of the expected high-stress share, in percentage points
+  maePoints: number | null;
+  brier: number | null;
+  // Brier score of always predicting the historical base rate
+  baselineBrier: number | null;
+  // 1 - brier / baselineBrier; positive means the model beats the base rate
+  skill: number | null;
+  // Share of outcomes inside the 80% prediction interval
+  intervalCoverage: number | null;
+}
+
+export const HORIZON_DAYS = 14;
+export const HISTORY_DAYS = 180;
+export const HIGH_STRESS_THRESHOLD = 0.3;
+export const MIN_OBSERVED_DAYS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Recency weighting of the fit
+const HALF_LIFE_DAYS = 28;
+// Daily damping of the trend when extrapolating (Gardner-McKenzie damped trend)
+const TREND_DAMPING = 0.9;
+// Shrinks weekday effects towards zero when a weekday has few observations
+const SEASONAL_RIDGE = 2;
+const TREND_RIDGE = 0.5;
+// Days observed in the horizon for a backtest origin to be scored
+const MIN_SCORED_DAYS = 3;
+const MAX_BACKTEST_ORIGINS = 12;
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const dayNumber = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / DAY_MS;
+};
+
+export const addDays = (date: string, days: number) =>
+  new Date((dayNumber(date) + days) * DAY_MS).toISOString().slice(0, 10);
+
+const weekday = (day: number) => new Date(day * DAY_MS).getUTCDay();
+
+// Abramowitz-Stegun 7.1.26, accurate to ~1e-7
+const normalCdf = (z: number) => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Solves A x = b by Gaussian elimination with partial pivoting (A is small and symmetric positive definite)
+const solve = (matrix: number[][], vector: number[]) => {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const diagonal = a[col][col] || 1e-12;
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / diagonal;
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / (a[row][row] || 1e-12);
+  }
+  return x;
+};
+
+// Intercept, trend (weeks since the end of the history) and sum-to-zero weekday effects (Sunday is minus the rest)
+const features = (t: number, day: number) => {
+  const dow = weekday(day);
+  const seasonal = Array.from({ length: 6 }, (_, i) => (dow === 0 ? -1 : dow === i + 1 ? 1 : 0));
+  return [1, t / 7, ...seasonal];
+};
+
+interface FittedModel {
+  beta: number[];
+  covariance: number[][];
+  sigma: number;
+  rho: number;
+  lastResidual: number;
+  observedDays: number;
+  // Expected number of observed days in a horizon, from how often the last four weeks had scans
+  horizonCoverage: number;
+}
+
+const fit = (observations: DailyObservation[], end: number): FittedModel | null => {
+  const rows = observations.filter((o) => o.highShare !== null && dayNumber(o.date) <= end);
+  if (rows.length < MIN_OBSERVED_DAYS) return null;
+
+  const p = 8;
+  const xtx = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  const xty = new Array<number>(p).fill(0);
+  const samples = rows.map((o) => {
+    const day = dayNumber(o.date);
+    const x = features(day - end, day);
+    // Days backed by more scans count more, with diminishing returns, and old days fade out
+    const w = Math.sqrt(Math.min(Math.max(o.weight, 1), 25)) * Math.pow(0.5, (end - day) / HALF_LIFE_DAYS);
+    return { day, x, y: o.highShare as number, w };
+  });
+  const meanWeight = samples.reduce((sum, s) => sum + s.w, 0) / samples.length;
+
+  for (const s of samples) {
+    const w = s.w / meanWeight;
+    for (let i = 0; i < p; i++) {
+      xty[i] += w * s.x[i] * s.y;
+      for (let j = 0; j < p; j++) xtx[i][j] += w * s.x[i] * s.x[j];
+    }
+  }
+  xtx[1][1] += TREND_RIDGE;
+  for (let i = 2; i < p; i++) xtx[i][i] += SEASONAL_RIDGE;
+
+  const beta = solve(xtx, xty);
+  const residuals = samples.map((s) => s.y - s.x.reduce((sum, x, i) => sum + x * beta[i], 0));
+  // Recency weights are not inverse variances, so degrees of freedom come from the effective sample size
+  const weightSum = samples.reduce((sum, s) => sum + s.w, 0);
+  const effectiveN = (weightSum * weightSum) / samples.reduce((sum, s) => sum + s.w * s.w, 0);
+  const meanSquare = samples.reduce((sum, s, i) => sum + s.w * residuals[i] ** 2, 0) / weightSum;
+  const sigma = Math.sqrt((meanSquare * effectiveN) / Math.max(effectiveN - p, 1));
+
+  // Lag-1 autocorrelation of residuals on consecutive observed days
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i].day - samples[i - 1].day === 1) numerator += residuals[i] * residuals[i - 1];
+  }
+  for (const r of residuals) denominator += r * r;
+  const rho = denominator > 0 ? Math.min(0.9, Math.max(0, numerator / denominator)) : 0;
+
+  // ...and the covariance is scaled by n / effective sample size
+  const inflation = samples.length / Math.max(effectiveN, 1);
+  const inverse = Array.from({ length: p }, (_, i) => solve(xtx, Array.from({ length: p }, (_, j) => (i === j ? 1 : 0))));
+  const covariance = inverse.map((row) => row.map((value) => value * sigma * sigma * inflation));
+  const last = samples[samples.length - 1];
+  const recentDays = samples.filter((s) => s.day > end - 28).length;
+
+  return {
+    beta,
+    covariance,
+    sigma,
+    rho,
+    // Carry-over only applies if the last observation is recent
+    lastResidual: end - last.day <= 2 ? residuals[residuals.length - 1] : 0,
+    observedDays: rows.length,
+    horizonCoverage: Math.max(1, (recentDays / 28) * HORIZON_DAYS),
+  };
+};
+
+const insufficient = (observedDays: number): RiskForecast => ({
+  status: 'insufficient_data',
+  horizonDays: HORIZON_DAYS,
+  thresholdPercent: HIGH_STRESS_THRESHOLD * 100,
+  observedDays,
+  expectedHighPercent: null,
+  expectedInterval: null,
+  probability: null,
+  probabilityInterval: null,
+  riskLevel: null,
+  drivers: [],
+});
+
+const riskLevelFor = (probability: number): RiskLevel => (probability >= 0.6 ? 'high' : probability >= 0.3 ? 'elevated' : 'low');
+
+const direction = (points: number): ForecastDriver['direction'] =>
+  Math.abs(points) < 0.5 ? 'neutral' : points > 0 ? 'raises' : 'lowers';
+
+// Average of the latest and the preceding two weeks of daily HRV, for the descriptive HRV driver
+const hrvChange = (observations: DailyObservation[], end: number) => {
+  const window = (from: number, to: number) => {
+    const values = observations
+      .filter((o) => o.avgRmssd !== null && dayNumber(o.date) > end - to && dayNumber(o.date) <= end - from)
+      .map((o) => o.avgRmssd as number);
+    return values.length >= 3 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+  };
+  const recent = window(0, 14);
+  const before = window(14, 28);
+  return recent === null || before === null ? null : recent - before;
+};
+
+// Probability that the mean high-stress share over the next HORIZON_DAYS after `endDate` reaches the threshold
+export const forecastRisk = (observations: DailyObservation[], endDate: string): RiskForecast => {
+  const end = dayNumber(endDate);
+  const history = observations.filter((o) => dayNumber(o.date) > end - HISTORY_DAYS);
+  const model = fit(history, end);
+  if (!model) return insufficient(history.filter((o) => o.highShare !== null && dayNumber(o.date) <= end).length);
+
+  const { beta, covariance, sigma, rho, lastResidual, horizonCoverage } = model;
+  const horizon = Array.from({ length: HORIZON_DAYS }, (_, i) => i + 1);
+  // Damped trend: step h moves the trend clock by phi + phi^2 + ... + phi^h days
+  const tEffective = horizon.map((h) => (TREND_DAMPING * (1 - TREND_DAMPING ** h)) / (1 - TREND_DAMPING));
+  const xs = horizon.map((h, i) => features(tEffective[i], end + h));
+  const xMean = xs[0].map((_, j) => xs.reduce((sum, x) => sum + x[j], 0) / xs.length);
+
+  const fitted = xMean.reduce((sum, x, i) => sum + x * beta[i], 0);
+  const carryOver = (lastResidual * horizon.reduce((sum, h) => sum + rho ** h, 0)) / HORIZON_DAYS;
+  const expected = clamp01(fitted + carryOver);
+
+  const parameterVariance = xMean.reduce((sum, xi, i) => sum + xi * xMean.reduce((inner, xj, j) => inner + covariance[i][j] * xj, 0), 0);
+  // The outcome averages only the days with scans; autocorrelated noise averages out more slowly
+  const noiseVariance = ((sigma * sigma) / horizonCoverage) * ((1 + rho) / (1 - rho));
+  const sd = Math.max(Math.sqrt(parameterVariance + noiseVariance), 0.01);
+  const parameterSd = Math.sqrt(Math.max(parameterVariance, 0));
+  const noiseSd = Math.max(Math.sqrt(noiseVariance), 0.01);
+
+  const probabilityAt = (mean: number, spread: number) => 1 - normalCdf((HIGH_STRESS_THRESHOLD - mean) / spread);
+  const probability = probabilityAt(expected, sd);
+  const probabilityLow = probabilityAt(expected - 1.645 * parameterSd, noiseSd);
+  const probabilityHigh = probabilityAt(expected + 1.645 * parameterSd, noiseSd);
+
+  // ---- Drivers, in percentage points of the horizon mean ----
+  const level = beta[0] * 100;
+  const trendPoints = beta[1] * (xMean[1] * 100);
+  const seasonalEffects = [-(beta.slice(2).reduce((a, b) => a + b, 0)), ...beta.slice(2)].map((b) => b * 100);
+  const peak = seasonalEffects.reduce((best, value, dow) => (value > seasonalEffects[best] ? dow : best), 0);
+  const hrv = hrvChange(history, end);
+  const thresholdPoints = HIGH_STRESS_THRESHOLD * 100;
+
+  const drivers: ForecastDriver[] = [
+    {
+      factor: 'level',
+      direction: direction(level - thresholdPoints),
+      points: round(level),
+      text: `Current high-stress level is ${round(level)}% (threshold ${thresholdPoints}%)`,
+    },
+    {
+      factor: 'trend',
+      direction: direction(trendPoints),
+      points: round(trendPoints),
+      text: Math.abs(beta[1] * 100) < 0.5
+        ? 'No clear trend in high stress'
+        : `High stress is ${beta[1] > 0 ? 'rising' : 'falling'} about ${round(Math.abs(beta[1] * 100))} points per week`,
+    },
+    {
+      factor: 'recent',
+      direction: direction(carryOver * 100),
+      points: round(carryOver * 100),
+      text: Math.abs(carryOver * 100) < 0.5
+        ? 'Recent days are in line with the usual pattern'
+        : `Recent days ran ${carryOver > 0 ? 'above' : 'below'} the usual pattern and that tends to persist`,
+    },
+    {
+      factor: 'weekday',
+      direction: 'neutral',
+      points: null,
+      text: seasonalEffects[peak] < 1
+        ? 'No weekday stands out'
+        : `${WEEKDAY_NAMES[peak]}s run ${round(seasonalEffects[peak])} points above the weekly average`,
+    },
+  ];
+  if (hrv !== null) {
+    drivers.push({
+      factor: 'hrv',
+      direction: Math.abs(hrv) < 2 ? 'neutral' : hrv < 0 ? 'raises' : 'lowers',
+      points: null,
+      text: Math.abs(hrv) < 2
+        ? 'HRV is stable over the last two weeks'
+        : `HRV ${hrv < 0 ? 'dropped' : 'improved'} ${round(Math.abs(hrv))} ms versus the two weeks before`,
+    });
+  }
+  drivers.sort((a, b) => Math.abs(b.points ?? 0) - Math.abs(a.points ?? 0));
+
+  return {
+    status: 'ok',
+    horizonDays: HORIZON_DAYS,
+    thresholdPercent: thresholdPoints,
+    observedDays: model.observedDays,
+    expectedHighPercent: round(expected * 100),
+    expectedInterval: {
+      low: round(clamp01(expected - 1.2816 * sd) * 100),
+      high: round(clamp01(expected + 1.2816 * sd) * 100),
+    },
+    probability: round(probability, 3),
+    probabilityInterval: {
+      low: round(Math.min(probabilityLow, probability), 3),
+      high: round(Math.max(probabilityHigh, probability), 3),
+    },
+    riskLevel: riskLevelFor(probability),
+    drivers,
+  };
+};
+
+// Weighted mean high-stress share over the days observed in (start, start + HORIZON_DAYS]
+const horizonOutcome = (observations: DailyObservation[], start: number) => {
+  const days = observations.filter((o) => {
+    const day = dayNumber(o.date);
+    return o.highShare !== null && day > start && day <= start + HORIZON_DAYS;
+  });
+  if (days.length < MIN_SCORED_DAYS) return null;
+  const weight = days.reduce((sum, o) => sum + Math.max(o.weight, 1), 0);
+  return days.reduce((sum, o) => sum + (o.highShare as number) * Math.max(o.weight, 1), 0) / weight;
+};
+
+// Rolling-origin backtest: refit at weekly origins before `endDate` and score against what happened next
+export const backtestRisk = (observations: DailyObservation[], endDate: string): BacktestReport => {
+  const end = dayNumber(endDate);
+  const scored: { probability: number; baseRate: number; expected: number; interval: Interval; actual: number }[] = [];
+
+  for (let i = 0; i < MAX_BACKTEST_ORIGINS; i++) {
+    const origin = end - HORIZON_DAYS - 7 * i;
+    const actual = horizonOutcome(observations, origin);
+    if (actual === null) continue;
+
+    const training = observations.filter((o) => dayNumber(o.date) <= origin);
+    const forecast = forecastRisk(training, addDays(endDate, origin - end));
+    if (forecast.status !== 'ok' || forecast.probability === null || forecast.expectedHighPercent === null || !forecast.expectedInterval) continue;
+
+    // Base rate: how often a past horizon-length window crossed the threshold
+    let windows = 0;
+    let crossed = 0;
+    for (let start = origin - HISTORY_DAYS; start <= origin - HORIZON_DAYS; start++) {
+      const outcome = horizonOutcome(training, start);
+      if (outcome === null) continue;
+      windows++;
+      if (outcome >= HIGH_STRESS_THRESHOLD) crossed++;
+    }
+
+    scored.push({
+      probability: forecast.probability,
+      baseRate: windows > 0 ? crossed / windows : 0.5,
+      expected: forecast.expectedHighPercent / 100,
+      interval: forecast.expectedInterval,
+      actual,
+    });
+  }
+
+  if (scored.length === 0) {
+    return { origins: 0, events: 0, maePoints: null, brier: null, baselineBrier: null, skill: null, intervalCoverage: null };
+  }
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const outcome = (s: (typeof scored)[number]) => (s.actual >= HIGH_STRESS_THRESHOLD ? 1 : 0);
+  const brier = mean(scored.map((s) => (s.probability - outcome(s)) ** 2));
+  const baselineBrier = mean(scored.map((s) => (s.baseRate - outcome(s)) ** 2));
+  const events = scored.filter((s) => outcome(s) === 1).length;
+
+  return {
+    origins: scored.length,
+    events,
+    maePoints: round(mean(scored.map((s) => Math.abs(s.expected - s.actual))) * 100),
+    brier: round(brier, 3),
+    baselineBrier: round(baselineBrier, 3),
+    // Skill is undefined when every scored window had the same outcome
+    skill: events > 0 && events < scored.length && baselineBrier > 0 ? round(1 - brier / baselineBrier, 2) : null,
+    intervalCoverage: round(mean(scored.map((s) => (s.actual * 100 >= s.interval.low && s.actual * 100 <= s.interval.high ? 1 : 0))), 2),
+  };
+};
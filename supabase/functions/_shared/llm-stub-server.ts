@@ -0,0 +1,80 @@
+// Local OpenAI-compatible stub for exercising the edge functions without a real model.
+// Run: deno run --allow-net supabase/functions/_shared/llm-stub-server.ts
+// Then set LLM_<FEATURE>_PROVIDER=stub (and LLM_STUB_URL if not http://localhost:8787/v1).
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const PORT = Number(Deno.env.get('LLM_STUB_PORT') ?? '8787');
+
+interface JsonSchema {
+  type?: string;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+}
+
+// Minimal document satisfying a JSON schema, so structured-output callers get valid JSON
+const sampleFromSchema = (schema: JsonSchema): unknown => {
+  if (schema.enum) return schema.enum[0];
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, sampleFromSchema(value)])
+      );
+    case 'array':
+      return [sampleFromSchema(schema.items ?? {})];
+    case 'integer':
+      return 0;
+    case 'number':
+      return 0.5;
+    case 'boolean':
+      return false;
+    default:
+      return 'stub';
+  }
+};
+
+serve(async (req) => {
+  const url = new URL(req.url);
+  if (req.method !== 'POST' || !url.pathname.endsWith('/chat/completions')) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const body = await req.json();
+  const lastUser = [...(body.messages ?? [])].reverse().find((m: { role: string }) => m.role === 'user');
+  const prompt = typeof lastUser?.content === 'string' ? lastUser.content : '[multimodal]';
+  const schema = body.response_format?.json_schema?.schema;
+  const content = schema
+    ? JSON.stringify(sampleFromSchema(schema))
+    : `Stub response (${body.model}): ${prompt.substring(0, 80)}`;
+
+  const promptTokens = Math.ceil(JSON.stringify(body.messages ?? []).length / 4);
+  const completionTokens = Math.ceil(content.length / 4);
+  const usage = { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+
+  if (body.stream) {
+    // One chunk per word, then a usage-only chunk and [DONE], as with stream_options.include_usage
+    const encoder = new TextEncoder();
+    const words = content.split(/(?<= )/);
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+        for (const word of words) {
+          send({ object: 'chat.completion.chunk', model: body.model, choices: [{ index: 0, delta: { content: word } }] });
+          await new Promise((resolve) => setTimeout(resolve, 30));
+        }
+        send({ object: 'chat.completion.chunk', model: body.model, choices: [], usage });
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+    return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  return new Response(JSON.stringify({
+    id: `stub-${crypto.randomUUID()}`,
+    object: 'chat.completion',
+    model: body.model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage,
+  }), { headers: { 'Content-Type': 'application/json' } });
+}, { port: PORT });
@@ -0,0 +1,446 @@
+// Provider-agnostic LLM layer shared by the edge functions.
+// Each feature (coach, vision, safety) picks a provider and model from env, with defaults below:
+//   LLM_<FEATURE>_PROVIDER = gemini | openai | stub
+//   LLM_<FEATURE>_MODEL, LLM_<FEATURE>_TIMEOUT_MS, LLM_<FEATURE>_MAX_RETRIES
+// Every call is recorded in public.llm_calls (tokens, latency, attempts, outcome).
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type LLMFeature = 'coach' | 'vision' | 'safety';
+export type LLMProviderName = 'gemini' | 'openai' | 'stub';
+
+export type LLMPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string }; // base64
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | LLMPart[];
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // JSON Schema (lowercase types); the response text is then a JSON document
+  jsonSchema?: Record<string, unknown>;
+  // Provider hints (ignored where unsupported)
+  thinking?: 'low' | 'high';
+  highResolutionImages?: boolean;
+}
+
+export interface LLMUsage {
+  promptTokens: number | null;
+  completionTokens: number | null;
+  totalTokens: number | null;
+}
+
+export interface LLMResult {
+  text: string;
+  usage: LLMUsage;
+  provider: LLMProviderName;
+  model: string;
+  latencyMs: number;
+  attempts: number;
+}
+
+export class LLMError extends Error {
+  status: number | null;
+  // Worth another attempt: provider 5xx and timeouts, not configuration errors or cancellations
+  retryable: boolean;
+
+  constructor(message: string, status: number | null = null, retryable = status !== null && status >= 500) {
+    super(message);
+    this.name = 'LLMError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+interface FeatureConfig {
+  provider: LLMProviderName;
+  model: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+const FEATURE_DEFAULTS: Record<LLMFeature, FeatureConfig> = {
+  coach: { provider: 'openai', model: 'google/gemini-3-flash-preview', timeoutMs: 30_000, maxRetries: 2 },
+  vision: { provider: 'gemini', model: 'gemini-3-flash-preview', timeoutMs: 90_000, maxRetries: 1 },
+  safety: { provider: 'openai', model: 'google/gemini-3-flash-preview', timeoutMs: 10_000, maxRetries: 0 },
+};
+
+// Model quirks: Gemini 3 requires temperature = 1.0
+const FIXED_TEMPERATURES: { pattern: RegExp; temperature: number }[] = [
+  { pattern: /gemini-3/, temperature: 1.0 },
+];
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name) ?? NaN);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export const getFeatureConfig = (feature: LLMFeature): FeatureConfig => {
+  const prefix = `LLM_${feature.toUpperCase()}_`;
+  const defaults = FEATURE_DEFAULTS[feature];
+  const provider = Deno.env.get(`${prefix}PROVIDER`) as LLMProviderName | undefined;
+  if (provider && !['gemini', 'openai', 'stub'].includes(provider)) {
+    throw new LLMError(`Unknown LLM provider "${provider}" in ${prefix}PROVIDER`);
+  }
+
+  return {
+    provider: provider || defaults.provider,
+    model: Deno.env.get(`${prefix}MODEL`) || defaults.model,
+    timeoutMs: envNumber(`${prefix}TIMEOUT_MS`, defaults.timeoutMs),
+    maxRetries: envNumber(`${prefix}MAX_RETRIES`, defaults.maxRetries),
+  };
+};
+
+const resolveTemperature = (model: string, requested?: number) =>
+  FIXED_TEMPERATURES.find(({ pattern }) => pattern.test(model))?.temperature ?? requested;
+
+const toParts = (content: LLMMessage['content']): LLMPart[] =>
+  typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+
+// ---- Adapters ----
+
+interface AdapterResponse {
+  text: string;
+  usage: LLMUsage;
+}
+
+// With onDelta the adapter streams and reports text as it arrives; it always resolves with the full text
+type Adapter = (
+  model: string,
+  request: LLMRequest,
+  signal: AbortSignal,
+  onDelta?: (delta: string) => void
+) => Promise<AdapterResponse>;
+
+// Calls onData with the payload of every `data:` line of a server-sent events body
+const readSSE = async (response: Response, onData: (data: string) => void) => {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line.startsWith('data:')) onData(line.slice(5).trim());
+      newline = buffer.indexOf('\n');
+    }
+  }
+};
+
+// Gemini responseSchema uses OpenAPI type names (OBJECT, STRING, ...)
+const toGeminiSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(
+    Object.entries(schema as Record<string, unknown>).map(([key, value]) => [
+      key,
+      key === 'type' && typeof value === 'string' ? value.toUpperCase() : toGeminiSchema(value),
+    ])
+  );
+};
+
+interface GeminiChunk {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+}
+
+const geminiText = (chunk: GeminiChunk) =>
+  chunk.candidates?.[0]?.content?.parts?.map((p) => p.text ?? '').join('') ?? '';
+
+const geminiUsage = (chunk: GeminiChunk): LLMUsage => ({
+  promptTokens: chunk.usageMetadata?.promptTokenCount ?? null,
+  completionTokens: chunk.usageMetadata?.candidatesTokenCount ?? null,
+  totalTokens: chunk.usageMetadata?.totalTokenCount ?? null,
+});
+
+const geminiAdapter: Adapter = async (model, request, signal, onDelta) => {
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!apiKey) throw new LLMError('GEMINI_API_KEY not configured');
+
+  const system = request.messages.filter((m) => m.role === 'system');
+  const contents = request.messages
+    .filter((m) => m.role !== 'system')
+    .map((message) => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: toParts(message.content).map((part) =>
+        part.type === 'text'
+          ? { text: part.text }
+          : {
+              inline_data: { mime_type: part.mimeType, data: part.data },
+              // Gemini 3: media_resolution goes inside each image part (v1alpha)
+              ...(request.highResolutionImages ? { media_resolution: { level: 'media_resolution_high' } } : {}),
+            }
+      ),
+    }));
+
+  const generationConfig: Record<string, unknown> = {};
+  const temperature = resolveTemperature(model, request.temperature);
+  if (temperature !== undefined) generationConfig.temperature = temperature;
+  if (request.maxTokens) generationConfig.maxOutputTokens = request.maxTokens;
+  if (request.thinking) generationConfig.thinkingConfig = { thinkingLevel: request.thinking };
+  if (request.jsonSchema) {
+    generationConfig.responseMimeType = 'application/json';
+    generationConfig.responseSchema = toGeminiSchema(request.jsonSchema);
+  }
+
+  const method = onDelta ? 'streamGenerateContent?alt=sse' : 'generateContent';
+  const response = await fetch(`https://generativelanguage.googleapis.com/v1alpha/models/${model}:${method}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+    body: JSON.stringify({
+      ...(system.length > 0
+        ? { systemInstruction: { parts: system.flatMap((m) => toParts(m.content)).filter((p) => p.type === 'text') } }
+        : {}),
+      contents,
+      generationConfig,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new LLMError(`Gemini error ${response.status}: ${errorText.substring(0, 300)}`, response.status);
+  }
+
+  if (!onDelta) {
+    const data: GeminiChunk = await response.json();
+    return { text: geminiText(data), usage: geminiUsage(data) };
+  }
+
+  let text = '';
+  let usage: LLMUsage = { promptTokens: null, completionTokens: null, totalTokens: null };
+  await readSSE(response, (data) => {
+    const chunk: GeminiChunk = JSON.parse(data);
+    const delta = geminiText(chunk);
+    if (delta) {
+      text += delta;
+      onDelta(delta);
+    }
+    if (chunk.usageMetadata) usage = geminiUsage(chunk);
+  });
+
+  return { text, usage };
+};
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+const openAIUsage = (usage: OpenAIUsage | undefined): LLMUsage => ({
+  promptTokens: usage?.prompt_tokens ?? null,
+  completionTokens: usage?.completion_tokens ?? null,
+  totalTokens: usage?.total_tokens ?? null,
+});
+
+// OpenAI-compatible chat completions (Lovable AI gateway by default, or a local stub without a key)
+const openAICompatibleAdapter = (baseUrl: string, apiKey: string | undefined, keyName?: string): Adapter => async (model, request, signal, onDelta) => {
+  if (keyName && !apiKey) throw new LLMError(`${keyName} not configured`);
+  const temperature = resolveTemperature(model, request.temperature);
+
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+      ...(request.jsonSchema
+        ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.jsonSchema } } }
+        : {}),
+      ...(onDelta ? { stream: true, stream_options: { include_usage: true } } : {}),
+      messages: request.messages.map((message) => ({
+        role: message.role,
+        content: typeof message.content === 'string'
+          ? message.content
+          : message.content.map((part) =>
+              part.type === 'text'
+                ? { type: 'text', text: part.text }
+                : { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+            ),
+      })),
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new LLMError(`LLM gateway error ${response.status}: ${errorText.substring(0, 300)}`, response.status);
+  }
+
+  if (!onDelta) {
+    const data = await response.json();
+    return { text: data.choices?.[0]?.message?.content ?? '', usage: openAIUsage(data.usage) };
+  }
+
+  let text = '';
+  let usage = openAIUsage(undefined);
+  await readSSE(response, (data) => {
+    if (data === '[DONE]') return;
+    const chunk = JSON.parse(data);
+    const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onDelta(delta);
+    }
+    if (chunk.usage) usage = openAIUsage(chunk.usage);
+  });
+
+  return { text, usage };
+};
+
+const getAdapter = (provider: LLMProviderName): Adapter => {
+  if (provider === 'gemini') return geminiAdapter;
+  if (provider === 'stub') {
+    return openAICompatibleAdapter(Deno.env.get('LLM_STUB_URL') ?? 'http://localhost:8787/v1', undefined);
+  }
+  return openAICompatibleAdapter(
+    Deno.env.get('OPENAI_COMPAT_BASE_URL') ?? 'https://ai.gateway.lovable.dev/v1',
+    Deno.env.get('OPENAI_COMPAT_API_KEY') ?? Deno.env.get('LOVABLE_API_KEY'),
+    'OPENAI_COMPAT_API_KEY or LOVABLE_API_KEY'
+  );
+};
+
+// ---- Accounting ----
+
+const recordCall = async (entry: {
+  feature: LLMFeature;
+  userId?: string | null;
+  provider: LLMProviderName;
+  model: string;
+  status: 'success' | 'error';
+  attempts: number;
+  latencyMs: number;
+  usage?: LLMUsage;
+  error?: string;
+}) => {
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !serviceKey) return;
+
+  try {
+    const admin = createClient(url, serviceKey);
+    const { error } = await admin.from('llm_calls').insert({
+      feature: entry.feature,
+      user_id: entry.userId ?? null,
+      provider: entry.provider,
+      model: entry.model,
+      status: entry.status,
+      attempts: entry.attempts,
+      latency_ms: entry.latencyMs,
+      prompt_tokens: entry.usage?.promptTokens ?? null,
+      completion_tokens: entry.usage?.completionTokens ?? null,
+      total_tokens: entry.usage?.totalTokens ?? null,
+      error: entry.error?.substring(0, 500) ?? null,
+    });
+    if (error) console.error('Error recording LLM call:', error);
+  } catch (error) {
+    console.error('Error recording LLM call:', error);
+  }
+};
+
+// 429 (quota), 4xx and configuration errors are returned to the caller straight away; 5xx, timeouts and
+// network errors (fetch rejects with a TypeError, not an LLMError) are retried
+const isRetryable = (error: unknown) => !(error instanceof LLMError) || error.retryable;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface CallOptions {
+  userId?: string | null;
+  // Aborts the upstream request (e.g. when the client disconnects)
+  signal?: AbortSignal;
+  onDelta?: (delta: string) => void;
+}
+
+const runLLM = async (feature: LLMFeature, request: LLMRequest, options: CallOptions): Promise<LLMResult> => {
+  const config = getFeatureConfig(feature);
+  const adapter = getAdapter(config.provider);
+  const startTime = Date.now();
+  let attempts = 0;
+  let lastError: unknown;
+
+  while (attempts <= config.maxRetries) {
+    attempts++;
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    options.signal?.addEventListener('abort', abort);
+
+    // For streams the timeout applies between chunks, otherwise to the whole call
+    let timedOut = false;
+    let timer: number | undefined;
+    const armTimeout = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, config.timeoutMs);
+    };
+    armTimeout();
+
+    let streamed = false;
+    const onDelta = options.onDelta
+      ? (delta: string) => {
+          streamed = true;
+          armTimeout();
+          options.onDelta?.(delta);
+        }
+      : undefined;
+
+    try {
+      const { text, usage } = await adapter(config.model, request, controller.signal, onDelta);
+      const latencyMs = Date.now() - startTime;
+
+      await recordCall({ feature, userId: options.userId, provider: config.provider, model: config.model, status: 'success', attempts, latencyMs, usage });
+      console.log(`[llm] ${feature} via ${config.provider}/${config.model}: ${latencyMs}ms, ${usage.totalTokens ?? '?'} tokens, ${attempts} attempt(s)`);
+
+      return { text, usage, provider: config.provider, model: config.model, latencyMs, attempts };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        lastError = new LLMError('LLM request cancelled by the client');
+        break;
+      }
+      lastError = timedOut ? new LLMError(`LLM request timed out after ${config.timeoutMs}ms`, null, true) : error;
+      console.warn(`[llm] ${feature} attempt ${attempts} failed:`, lastError instanceof Error ? lastError.message : lastError);
+
+      // A stream that already produced output cannot be replayed
+      if (streamed || !isRetryable(lastError) || attempts > config.maxRetries) break;
+      await sleep(500 * Math.pow(2, attempts - 1));
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  const message = lastError instanceof Error ? lastError.message : 'LLM request failed';
+  await recordCall({ feature, userId: options.userId, provider: config.provider, model: config.model, status: 'error', attempts, latencyMs: Date.now() - startTime, error: message });
+
+  throw lastError instanceof LLMError ? lastError : new LLMError(message);
+};
+
+export const callLLM = (
+  feature: LLMFeature,
+  request: LLMRequest,
+  options: Omit<CallOptions, 'onDelta'> = {}
+): Promise<LLMResult> => runLLM(feature, request, options);
+
+// Streams text deltas to onDelta; resolves with the complete result once the model finishes
+export const streamLLM = (
+  feature: LLMFeature,
+  request: LLMRequest,
+  options: CallOptions & { onDelta: (delta: string) => void }
+): Promise<LLMResult> => runLLM(feature, request, options);
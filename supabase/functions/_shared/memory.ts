@@ -0,0 +1,187 @@
+// Long-term NeuroCoach memory: goals, recurring stressors, preferences and interventions that helped,
+// summarised from conversations and feedback into public.coach_memories and injected into the prompt.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callLLM } from "./llm.ts";
+
+export type MemoryKind = 'goal' | 'stressor' | 'preference' | 'helpful_intervention';
+
+export interface CoachMemory {
+  id: string;
+  kind: MemoryKind;
+  content: string;
+  source: 'conversation' | 'feedback' | 'user';
+}
+
+// Summarise every N messages (user + assistant) of a conversation
+export const MEMORY_UPDATE_EVERY = 6;
+const MAX_MEMORIES = 30;
+// Rough prompt budget for memories (~4 characters per token), override with COACH_MEMORY_TOKEN_BUDGET
+const DEFAULT_TOKEN_BUDGET = 400;
+
+const KIND_LABELS: Record<MemoryKind, string> = {
+  goal: 'Goals',
+  stressor: 'Recurring stressors',
+  helpful_intervention: 'What has helped before',
+  preference: 'Preferences',
+};
+
+const KINDS = Object.keys(KIND_LABELS) as MemoryKind[];
+
+const getAdmin = () => {
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return url && serviceKey ? createClient(url, serviceKey) : null;
+};
+
+export const loadMemories = async (userId: string): Promise<CoachMemory[]> => {
+  const admin = getAdmin();
+  if (!admin) return [];
+
+  const { data, error } = await admin
+    .from('coach_memories')
+    .select('id, kind, content, source')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(MAX_MEMORIES);
+
+  if (error) {
+    console.error('Error loading coach memories:', error);
+    return [];
+  }
+  return data ?? [];
+};
+
+// Grouped by kind in priority order, most recently updated first, cut off at the token budget
+export const formatMemoriesForPrompt = (memories: CoachMemory[]) => {
+  const budgetChars = Number(Deno.env.get('COACH_MEMORY_TOKEN_BUDGET') ?? DEFAULT_TOKEN_BUDGET) * 4;
+  const lines: string[] = [];
+  let used = 0;
+
+  for (const kind of KINDS) {
+    const items = memories.filter((memory) => memory.kind === kind);
+    if (items.length === 0) continue;
+
+    const heading = `${KIND_LABELS[kind]}:`;
+    if (used + heading.length > budgetChars) break;
+    const section = [heading];
+    used += heading.length;
+
+    for (const item of items) {
+      const line = `- ${item.content}`;
+      if (used + line.length > budgetChars) break;
+      section.push(line);
+      used += line.length;
+    }
+    if (section.length > 1) lines.push(...section);
+  }
+
+  return lines.join('\n');
+};
+
+const UPDATE_SCHEMA = {
+  type: 'object',
+  properties: {
+    add: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: KINDS },
+          content: { type: 'string' },
+        },
+        required: ['kind', 'content'],
+      },
+    },
+    update: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          content: { type: 'string' },
+        },
+        required: ['id', 'content'],
+      },
+    },
+  },
+  required: ['add', 'update'],
+};
+
+// Adds new memories and refreshes existing ones from a conversation; memories the user wrote are never changed
+export const updateMemoriesFromConversation = async (
+  userId: string,
+  conversationId: string,
+  transcript: { role: string; content: string }[]
+) => {
+  const admin = getAdmin();
+  if (!admin) return;
+
+  try {
+    const [memories, { data: feedback }] = await Promise.all([
+      loadMemories(userId),
+      admin
+        .from('feedback_responses')
+        .select('rating, stress_reduction_percent, productivity_impact')
+        .eq('user_id', userId)
+        .eq('conversation_id', conversationId),
+    ]);
+
+    const result = await callLLM('coach', {
+      messages: [
+        {
+          role: 'system',
+          content: `You maintain a coach's long-term memory about one user. From the conversation (and feedback, if any), record durable facts only: goals, recurring stressors, preferences about how they want to be coached, and interventions that demonstrably helped. Never record health diagnoses, third parties' details or one-off small talk. Each memory is one short sentence (max 200 characters) in the conversation's language. Add only facts not already covered; update an existing memory (by id) when the conversation refines it. Memories with source "user" were written by the user and must not be updated. Return empty arrays when nothing durable was said. Respond only with JSON matching the schema.`,
+        },
+        {
+          role: 'user',
+          content: `Existing memories:
+${JSON.stringify(memories)}
+
+Feedback on this conversation:
+${JSON.stringify(feedback ?? [])}
+
+Conversation:
+${transcript.map((turn) => `${turn.role === 'user' ? 'User' : 'Coach'}: ${turn.content}`).join('\n')}`,
+        },
+      ],
+      jsonSchema: UPDATE_SCHEMA,
+      temperature: 0,
+    }, { userId });
+
+    const parsed = JSON.parse(result.text);
+    const clean = (value: unknown) => (typeof value === 'string' ? value.trim().substring(0, 300) : '');
+
+    const editable = new Set(memories.filter((m) => m.source !== 'user').map((m) => m.id));
+    for (const item of Array.isArray(parsed.update) ? parsed.update : []) {
+      const content = clean(item.content);
+      if (!content || !editable.has(item.id)) continue;
+      const { error } = await admin
+        .from('coach_memories')
+        .update({ content, updated_at: new Date().toISOString() })
+        .eq('id', item.id)
+        .eq('user_id', userId);
+      if (error) console.error('Error updating coach memory:', error);
+    }
+
+    const source = feedback && feedback.length > 0 ? 'feedback' : 'conversation';
+    const additions = (Array.isArray(parsed.add) ? parsed.add : [])
+      .map((item: { kind?: string; content?: unknown }) => ({ kind: item.kind, content: clean(item.content) }))
+      .filter((item: { kind?: string; content: string }) => item.content && KINDS.includes(item.kind as MemoryKind))
+      .slice(0, Math.max(0, MAX_MEMORIES - memories.length));
+
+    if (additions.length > 0) {
+      const { error } = await admin.from('coach_memories').insert(
+        additions.map((item: { kind: MemoryKind; content: string }) => ({
+          ...item,
+          user_id: userId,
+          source,
+          conversation_id: conversationId,
+        }))
+      );
+      if (error) console.error('Error saving coach memories:', error);
+    }
+  } catch (error) {
+    // Memory is best-effort and never affects the reply
+    console.error('Coach memory update failed:', error);
+  }
+};
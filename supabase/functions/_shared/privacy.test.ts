@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cellKey,
+  localMidnight,
+  previousRange,
+  protectCell,
+  snapRange,
+  suppressedLevels,
+  type PrivacyOptions,
+  type StressCell,
+} from './privacy.ts';
+
+const K = 5;
+
+// Exact values: a random source of 0.5 draws zero Laplace noise
+const exact: PrivacyOptions = { k: K, epsilon: null, noiseSecret: 'test', maxScansPerMember: 10, rmssdMax: 200, random: () => 0.5 };
+
+const cell = (overrides: Partial<StressCell> = {}): StressCell => ({
+  memberCount: 12,
+  reportingMembers: 10,
+  scans: { low: 30, moderate: 20, high: 10 },
+  members: { low: 8, moderate: 7, high: 6 },
+  rmssdMembers: 10,
+  avgRmssd: 42,
+  ...overrides,
+});
+
+describe('protectCell', () => {
+  it.each([
+    [K - 1, true],
+    [K, false],
+    [K + 1, false],
+  ])('with %i reporting members suppressed is %s', (reportingMembers, suppressed) => {
+    const members = { low: reportingMembers, moderate: reportingMembers, high: reportingMembers };
+    const result = protectCell(cell({ reportingMembers, members, rmssdMembers: reportingMembers }), exact, 'key');
+
+    expect(result.suppressed).toBe(suppressed);
+    if (suppressed) {
+      expect(result).toMatchObject({ reportingMembers: null, scanCount: null, avgRmssd: null });
+      expect(result.percentages).toEqual({ low: null, moderate: null, high: null });
+    } else {
+      expect(result.scanCount).toBe(60);
+      expect(result.percentages).toEqual({ low: 50, moderate: 33, high: 17 });
+      expect(result.avgRmssd).toBe(42);
+    }
+  });
+
+  it('suppresses a second level when a single level is below k', () => {
+    const result = protectCell(cell({ members: { low: 9, moderate: 3, high: 6 } }), exact, 'key');
+
+    expect(result.suppressedLevels).toEqual(['moderate', 'high']);
+    expect(result.percentages).toEqual({ low: 50, moderate: null, high: null });
+  });
+
+  it('never publishes the complement of a suppressed level by hiding an empty one', () => {
+    const result = protectCell(cell({ members: { low: 2, moderate: 0, high: 9 }, scans: { low: 4, moderate: 0, high: 30 } }), exact, 'key');
+
+    expect(result.percentages).toEqual({ low: null, moderate: 0, high: null });
+  });
+
+  it('suppresses the whole cell when no other level can hide a suppressed one', () => {
+    const result = protectCell(cell({ members: { low: 2, moderate: 0, high: 0 } }), exact, 'key');
+
+    expect(result.suppressed).toBe(true);
+    expect(result.percentages).toEqual({ low: null, moderate: null, high: null });
+  });
+
+  it('drops the average HRV when fewer than k members measured it', () => {
+    const result = protectCell(cell({ rmssdMembers: K - 1 }), exact, 'key');
+
+    expect(result.suppressed).toBe(false);
+    expect(result.avgRmssd).toBeNull();
+  });
+
+  it('rounds member counts down to steps of 5', () => {
+    const result = protectCell(cell({ memberCount: 23, reportingMembers: 9 }), exact, 'key');
+
+    expect(result.memberCount).toBe(20);
+    expect(result.reportingMembers).toBe(5);
+    expect(protectCell(cell({ memberCount: 4, reportingMembers: 2 }), exact, 'key').memberCount).toBe(0);
+  });
+
+  it('adds noise from the injected random source', () => {
+    const draws = [0.9, 0.1, 0.7, 0.3];
+    const result = protectCell(cell(), { ...exact, epsilon: 1, random: () => draws.shift()! }, 'key');
+
+    expect(result.noised).toBe(true);
+    expect(result.scanCount).not.toBe(60);
+    expect(result.avgRmssd).not.toBe(42);
+  });
+
+  it('returns the same noisy answer for the same cell and fresh noise when the data changes', () => {
+    const seeded: PrivacyOptions = { ...exact, epsilon: 1, random: undefined };
+    const first = protectCell(cell(), seeded, 'org|all|total|total|2025-03-01|2025-04-01');
+
+    expect(protectCell(cell(), seeded, 'org|all|total|total|2025-03-01|2025-04-01')).toEqual(first);
+    expect(protectCell(cell(), seeded, 'org|all|total|total|2025-03-02|2025-04-01')).not.toEqual(first);
+    expect(protectCell(cell({ scans: { low: 31, moderate: 20, high: 10 } }), seeded, 'org|all|total|total|2025-03-01|2025-04-01'))
+      .not.toEqual(first);
+    expect(protectCell(cell(), { ...seeded, noiseSecret: 'other' }, 'org|all|total|total|2025-03-01|2025-04-01')).not.toEqual(first);
+  });
+});
+
+describe('suppressedLevels', () => {
+  it.each([
+    [{ low: 8, moderate: 7, high: 6 }, []],
+    [{ low: 8, moderate: 0, high: 6 }, []],
+    [{ low: 8, moderate: 4, high: 6 }, ['moderate', 'high']],
+    [{ low: 2, moderate: 9, high: 6 }, ['low', 'high']],
+    [{ low: 8, moderate: 4, high: 1 }, ['moderate', 'high']],
+    [{ low: 2, moderate: 0, high: 9 }, ['low', 'high']],
+    [{ low: 2, moderate: 0, high: 0 }, ['low', 'moderate', 'high']],
+  ] as const)('%o hides %o', (members, hidden) => {
+    expect(suppressedLevels(members, K)).toEqual(hidden);
+  });
+});
+
+describe('snapRange', () => {
+  it('widens a range to whole local days', () => {
+    expect(snapRange('2025-03-10T15:30:00Z', '2025-03-12T01:00:00Z', 'day', 'America/Sao_Paulo')).toEqual({
+      from: '2025-03-10T03:00:00.000Z',
+      to: '2025-03-12T03:00:00.000Z',
+      fromDate: '2025-03-10',
+      toDate: '2025-03-12',
+    });
+  });
+
+  it('widens a weekly range to whole ISO weeks', () => {
+    const range = snapRange('2025-03-12T10:00:00Z', '2025-03-20T10:00:00Z', 'week', 'UTC');
+
+    expect(range).toMatchObject({ fromDate: '2025-03-10', toDate: '2025-03-24' });
+  });
+
+  it('keeps a range that is already whole days', () => {
+    const range = snapRange('2025-03-10T03:00:00.000Z', '2025-03-12T03:00:00.000Z', 'day', 'America/Sao_Paulo');
+
+    expect(range).toMatchObject({ from: '2025-03-10T03:00:00.000Z', to: '2025-03-12T03:00:00.000Z' });
+  });
+
+  it('finds local midnight across a DST change', () => {
+    expect(localMidnight('2025-03-30', 'Europe/Berlin')).toBe('2025-03-29T23:00:00.000Z');
+    expect(localMidnight('2025-03-31', 'Europe/Berlin')).toBe('2025-03-30T22:00:00.000Z');
+  });
+
+  it('trims widened ranges to 366 days', () => {
+    const range = snapRange('2024-03-10T12:00:00Z', '2025-03-10T12:00:00Z', 'week', 'UTC');
+
+    expect(new Date(range.to).getTime() - new Date(range.from).getTime()).toBeLessThanOrEqual(366 * 24 * 60 * 60 * 1000);
+  });
+
+  it('rejects unknown time zones', () => {
+    expect(() => snapRange('2025-03-10T00:00:00Z', '2025-03-11T00:00:00Z', 'day', 'Mars/Olympus')).toThrow(RangeError);
+  });
+});
+
+describe('previousRange and cellKey', () => {
+  const range = snapRange('2025-03-10T00:00:00Z', '2025-03-17T00:00:00Z', 'day', 'UTC');
+
+  it('covers the same number of days right before the range', () => {
+    expect(previousRange(range, 'UTC')).toMatchObject({ fromDate: '2025-03-03', toDate: '2025-03-10', to: range.from });
+  });
+
+  it('keys day buckets by the day only, and partial weeks by the part covered', () => {
+    const longer = snapRange('2025-02-10T00:00:00Z', '2025-03-17T00:00:00Z', 'day', 'UTC');
+
+    expect(cellKey('org|all', 'day', '2025-03-12', range)).toBe(cellKey('org|all', 'day', '2025-03-12', longer));
+    expect(cellKey('org|all', 'week', '2025-03-10', range)).toBe('org|all|week|2025-03-10|2025-03-10|2025-03-17');
+    expect(cellKey('org|all', 'total', undefined, range)).not.toBe(cellKey('org|all', 'total', undefined, longer));
+  });
+});
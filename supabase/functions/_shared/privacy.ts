@@ -0,0 +1,259 @@
+// Privacy layer for HR aggregates: k-anonymity suppression, differential-privacy noise and coarse member counts.
+// Pure functions (the random source is injectable) so the edge functions and any report share one path.
+
+export type StressLevel = 'low' | 'moderate' | 'high';
+
+export const LEVELS: StressLevel[] = ['low', 'moderate', 'high'];
+
+// Raw counts for one aggregate cell, as returned by public.hr_stress_buckets
+export interface StressCell {
+  memberCount: number;
+  reportingMembers: number;
+  scans: Record<StressLevel, number>;
+  // Distinct employees behind each level count
+  members: Record<StressLevel, number>;
+  rmssdMembers: number;
+  avgRmssd: number | null;
+}
+
+// One row of public.hr_stress_buckets
+export interface BucketRow {
+  bucket: string;
+  member_count: number;
+  reporting_members: number;
+  low_count: number;
+  moderate_count: number;
+  high_count: number;
+  low_members: number;
+  moderate_members: number;
+  high_members: number;
+  rmssd_members: number;
+  avg_rmssd: number | string | null;
+}
+
+export interface PrivacyOptions {
+  // Minimum distinct employees behind any published number
+  k: number;
+  // Total privacy budget per cell; null publishes exact values
+  epsilon: number | null;
+  // Server-side secret mixed into the noise seed, so nobody can predict the noise
+  noiseSecret: string;
+  // Per-member contribution bound applied in SQL (sets the count sensitivity)
+  maxScansPerMember: number;
+  // Upper clip applied to RMSSD in SQL (sets the average sensitivity)
+  rmssdMax: number;
+  random?: () => number;
+}
+
+export interface ProtectedCell {
+  // Member counts are rounded down to MEMBER_COUNT_STEP
+  memberCount: number;
+  // null when fewer than k employees scanned
+  reportingMembers: number | null;
+  scanCount: number | null;
+  percentages: Record<StressLevel, number | null>;
+  avgRmssd: number | null;
+  suppressed: boolean;
+  suppressedLevels: StressLevel[];
+  noised: boolean;
+}
+
+// Whole local days, the smallest period that can be queried
+export interface SnappedRange {
+  from: string;
+  to: string;
+  // Local dates, `toDate` exclusive
+  fromDate: string;
+  toDate: string;
+}
+
+export const DEFAULT_K = 5;
+export const DEFAULT_EPSILON = 1;
+export const RMSSD_MAX = 200;
+export const MAX_SCANS_PER_MEMBER = 10;
+export const MEMBER_COUNT_STEP = 5;
+export const MAX_RANGE_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shiftDate = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+// Monday of the ISO week, like date_trunc('week') in SQL
+const weekStart = (date: string) => shiftDate(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7));
+
+// YYYY-MM-DD in a time zone (en-CA formats dates that way); throws RangeError for unknown zones
+export const localDate = (date: Date, timezone: string) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+
+const zoneOffset = (instant: number, timezone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(new Date(instant)).map((part) => [part.type, part.value])
+  );
+  const wallClock = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+// Start of a local date as an instant (second pass corrects for a DST change on that day)
+export const localMidnight = (date: string, timezone: string) => {
+  const wallClock = Date.parse(`${date}T00:00:00Z`);
+  const guess = wallClock - zoneOffset(wallClock, timezone);
+  return new Date(wallClock - zoneOffset(guess, timezone)).toISOString();
+};
+
+// Widens a range to whole local days (whole ISO weeks for weekly series), trimmed from the start to MAX_RANGE_DAYS.
+// Arbitrary timestamps would let two overlapping queries be subtracted to isolate a few hours of scans.
+export const snapRange = (from: string, to: string, unit: 'day' | 'week', timezone: string): SnappedRange => {
+  const step = unit === 'week' ? 7 : 1;
+  const align = (date: string) => (unit === 'week' ? weekStart(date) : date);
+  let fromDate = align(localDate(new Date(from), timezone));
+  const toDate = shiftDate(align(localDate(new Date(new Date(to).getTime() - 1), timezone)), step);
+
+  const span = () => new Date(localMidnight(toDate, timezone)).getTime() - new Date(localMidnight(fromDate, timezone)).getTime();
+  while (span() > MAX_RANGE_DAYS * DAY_MS) fromDate = shiftDate(fromDate, step);
+
+  return { from: localMidnight(fromDate, timezone), to: localMidnight(toDate, timezone), fromDate, toDate };
+};
+
+// The period of equal length (in local days) right before a snapped range
+export const previousRange = (range: SnappedRange, timezone: string): SnappedRange => {
+  const fromDate = shiftDate(range.fromDate, -daysBetween(range.fromDate, range.toDate));
+  return { from: localMidnight(fromDate, timezone), to: range.from, fromDate, toDate: range.fromDate };
+};
+
+// Identifies what a published cell covers. Day and whole-week buckets do not depend on the range queried,
+// so every endpoint publishes the same noisy value for them.
+export const cellKey = (scope: string, grouping: string, bucket: string | undefined, range: SnappedRange) => {
+  const later = (a: string, b: string) => (a > b ? a : b);
+  const earlier = (a: string, b: string) => (a < b ? a : b);
+  const extent = !bucket || (grouping !== 'day' && grouping !== 'week')
+    ? [range.fromDate, range.toDate]
+    : [later(bucket, range.fromDate), earlier(shiftDate(bucket, grouping === 'week' ? 7 : 1), range.toDate)];
+  return [scope, grouping, bucket ?? 'total', ...extent].join('|');
+};
+
+// cyrb128 string hash feeding an sfc32 generator: fast, seedable and good enough to draw noise
+const hash128 = (text: string) => {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ code, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ code, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ code, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ code, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  return [(h1 ^ h2 ^ h3 ^ h4) >>> 0, (h2 ^ h1) >>> 0, (h3 ^ h1) >>> 0, (h4 ^ h1) >>> 0];
+};
+
+export const seededRandom = (seed: string) => {
+  let [a, b, c, d] = hash128(seed);
+  return () => {
+    a >>>= 0; b >>>= 0; c >>>= 0; d >>>= 0;
+    let t = (a + b) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    d = (d + 1) | 0;
+    t = (t + d) | 0;
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+};
+
+// Team sizes are shown in steps, so joins and leaves cannot be tracked from one query to the next
+export const coarseMemberCount = (count: number) => Math.floor(count / MEMBER_COUNT_STEP) * MEMBER_COUNT_STEP;
+
+// A missing row means nobody in the group scanned during that bucket
+export const cellFromRow = (row: BucketRow | undefined, memberCount: number): StressCell => ({
+  memberCount: row?.member_count ?? memberCount,
+  reportingMembers: row?.reporting_members ?? 0,
+  scans: { low: row?.low_count ?? 0, moderate: row?.moderate_count ?? 0, high: row?.high_count ?? 0 },
+  members: { low: row?.low_members ?? 0, moderate: row?.moderate_members ?? 0, high: row?.high_members ?? 0 },
+  rmssdMembers: row?.rmssd_members ?? 0,
+  avgRmssd: row?.avg_rmssd === null || row?.avg_rmssd === undefined ? null : Number(row.avg_rmssd),
+});
+
+// Laplace(0, scale) by inverse CDF
+export const laplace = (scale: number, random: () => number = Math.random) => {
+  const u = random() - 0.5;
+  return -scale * Math.sign(u) * Math.log(1 - 2 * Math.abs(u));
+};
+
+// Levels below k are suppressed; a single suppressed level could be recovered from the others,
+// so the smallest remaining non-empty level is suppressed with it (complementary suppression).
+// Hiding an empty level protects nothing, so without a non-empty one every level is hidden.
+export const suppressedLevels = (members: Record<StressLevel, number>, k: number): StressLevel[] => {
+  const primary = LEVELS.filter((level) => members[level] > 0 && members[level] < k);
+  if (primary.length !== 1) return primary;
+
+  const [secondary] = LEVELS
+    .filter((level) => !primary.includes(level) && members[level] > 0)
+    .sort((a, b) => members[a] - members[b]);
+  return secondary ? [...primary, secondary] : [...LEVELS];
+};
+
+const suppressedCell = (cell: StressCell): ProtectedCell => ({
+  memberCount: coarseMemberCount(cell.memberCount),
+  reportingMembers: null,
+  scanCount: null,
+  percentages: { low: null, moderate: null, high: null },
+  avgRmssd: null,
+  suppressed: true,
+  suppressedLevels: [...LEVELS],
+  noised: false,
+});
+
+// The noise is seeded by the cell key and its raw counts: asking again returns the same answer, so averaging
+// repeated queries does not remove it, while any change in the underlying scans draws fresh noise
+export const protectCell = (cell: StressCell, options: PrivacyOptions, key: string): ProtectedCell => {
+  const hidden = suppressedLevels(cell.members, options.k);
+  if (cell.reportingMembers < options.k || hidden.length === LEVELS.length) return suppressedCell(cell);
+
+  const random = options.random ?? seededRandom(`${options.noiseSecret}|${key}|${JSON.stringify(cell)}`);
+  // Budget split evenly over the three level counts and the RMSSD average
+  const queryEpsilon = options.epsilon ? options.epsilon / (LEVELS.length + 1) : null;
+
+  const counts = {} as Record<StressLevel, number>;
+  for (const level of LEVELS) {
+    const noise = queryEpsilon ? laplace(options.maxScansPerMember / queryEpsilon, random) : 0;
+    counts[level] = Math.max(0, cell.scans[level] + noise);
+  }
+  const total = LEVELS.reduce((sum, level) => sum + counts[level], 0);
+
+  const percentages = {} as Record<StressLevel, number | null>;
+  for (const level of LEVELS) {
+    percentages[level] = hidden.includes(level) || total === 0 ? null : Math.round((counts[level] / total) * 100);
+  }
+
+  let avgRmssd: number | null = null;
+  if (cell.avgRmssd !== null && cell.rmssdMembers >= options.k) {
+    const noise = queryEpsilon ? laplace(options.rmssdMax / cell.rmssdMembers / queryEpsilon, random) : 0;
+    avgRmssd = Math.round(Math.min(options.rmssdMax, Math.max(0, cell.avgRmssd + noise)) * 10) / 10;
+  }
+
+  return {
+    memberCount: coarseMemberCount(cell.memberCount),
+    reportingMembers: Math.max(options.k, coarseMemberCount(cell.reportingMembers)),
+    scanCount: Math.round(total),
+    percentages,
+    avgRmssd,
+    suppressed: false,
+    suppressedLevels: hidden,
+    noised: queryEpsilon !== null,
+  };
+};
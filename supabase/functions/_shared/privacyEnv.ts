@@ -0,0 +1,15 @@
+// Env-configured privacy options, kept out of ./privacy.ts so that module stays free of Deno globals
+import { DEFAULT_EPSILON, DEFAULT_K, MAX_SCANS_PER_MEMBER, RMSSD_MAX, type PrivacyOptions } from "./privacy.ts";
+
+// Shared by every HR aggregate endpoint; HR_DP_EPSILON=0 turns the noise off
+export const privacyOptionsFromEnv = (): PrivacyOptions => {
+  const k = Number(Deno.env.get('HR_K_ANONYMITY') ?? DEFAULT_K);
+  const epsilon = Number(Deno.env.get('HR_DP_EPSILON') ?? DEFAULT_EPSILON);
+  return {
+    k: Number.isFinite(k) && k >= 2 ? Math.floor(k) : DEFAULT_K,
+    epsilon: Number.isFinite(epsilon) && epsilon > 0 ? epsilon : null,
+    noiseSecret: Deno.env.get('HR_DP_SECRET') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    maxScansPerMember: MAX_SCANS_PER_MEMBER,
+    rmssdMax: RMSSD_MAX,
+  };
+};
@@ -0,0 +1,171 @@
+// Safety layer for NeuroCoach: flags self-harm, crisis and severe burnout language in user messages
+// and model replies. Flagged turns get a fixed supportive response with regional helplines instead of
+// the persona's reply. Rules (./safetyRules.ts) always run; COACH_SAFETY_MODEL_CHECK=true adds a model check for text the
+// rules did not flag.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callLLM } from "./llm.ts";
+import {
+  classifyWithRules,
+  NOT_FLAGGED,
+  STAGE_CATEGORIES,
+  type SafetyCategory,
+  type SafetyResult,
+  type SafetyStage,
+} from "./safetyRules.ts";
+
+export type { SafetyCategory, SafetyResult, SafetyStage };
+
+type Language = 'pt' | 'en';
+
+export interface Helpline {
+  name: string;
+  contact: string;
+}
+
+const MODEL_SCHEMA = {
+  type: 'object',
+  properties: {
+    flagged: { type: 'boolean' },
+    category: { type: 'string', enum: ['none', 'self_harm', 'crisis', 'severe_burnout'] },
+  },
+  required: ['flagged', 'category'],
+};
+
+const classifyWithModel = async (text: string, stage: SafetyStage, userId?: string): Promise<SafetyResult> => {
+  try {
+    const result = await callLLM('safety', {
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a safety classifier for a workplace well-being coach. Flag the text if it expresses self-harm or suicidal ideation (self_harm), an acute emergency, panic or abuse (crisis), or severe burnout with hopelessness (severe_burnout). Otherwise answer category "none". Respond only with JSON matching the schema.',
+        },
+        { role: 'user', content: text },
+      ],
+      jsonSchema: MODEL_SCHEMA,
+      temperature: 0,
+    }, { userId });
+
+    const parsed = JSON.parse(result.text);
+    const category = STAGE_CATEGORIES[stage].find((c) => c === parsed.category);
+    return parsed.flagged === true && category ? { flagged: true, category, source: 'model' } : NOT_FLAGGED;
+  } catch (error) {
+    // The rules have already run; a failed model check must not block the coach
+    console.error('Safety model check failed:', error);
+    return NOT_FLAGGED;
+  }
+};
+
+export const safetyModelCheckEnabled = () => Deno.env.get('COACH_SAFETY_MODEL_CHECK') === 'true';
+
+export const classifySafety = async (text: string, stage: SafetyStage, userId?: string): Promise<SafetyResult> => {
+  const byRules = classifyWithRules(text, stage);
+  if (byRules.flagged || !safetyModelCheckEnabled()) return byRules;
+  return classifyWithModel(text, stage, userId);
+};
+
+// ---- Helplines ----
+
+// Override with COACH_HELPLINES='{"BR":[{"name":"...","contact":"..."}],...}'
+const DEFAULT_HELPLINES: Record<string, Helpline[]> = {
+  BR: [
+    { name: 'CVV - Centro de Valorização da Vida', contact: 'ligue 188 (24h, gratuito) ou cvv.org.br' },
+    { name: 'SAMU', contact: 'ligue 192 em emergências médicas' },
+  ],
+  INTL: [
+    { name: 'Find a Helpline', contact: 'findahelpline.com (free, confidential support worldwide)' },
+    { name: '988 Suicide & Crisis Lifeline (US)', contact: 'call or text 988' },
+    { name: 'Emergency services', contact: 'call your local emergency number' },
+  ],
+};
+
+// Region from COACH_HELPLINE_REGION_<LANG> (e.g. COACH_HELPLINE_REGION_EN=UK), else BR for pt and INTL for en
+export const getHelplines = (language: Language): Helpline[] => {
+  let helplines = DEFAULT_HELPLINES;
+  const configured = Deno.env.get('COACH_HELPLINES');
+  if (configured) {
+    try {
+      helplines = { ...DEFAULT_HELPLINES, ...JSON.parse(configured) };
+    } catch (error) {
+      console.error('Invalid COACH_HELPLINES:', error);
+    }
+  }
+
+  const region = Deno.env.get(`COACH_HELPLINE_REGION_${language.toUpperCase()}`) ?? (language === 'pt' ? 'BR' : 'INTL');
+  return helplines[region] ?? helplines.INTL ?? DEFAULT_HELPLINES.INTL;
+};
+
+// ---- Safe response ----
+
+const OPENINGS: Record<SafetyCategory, Record<Language, string>> = {
+  self_harm: {
+    en: "I'm really glad you told me this, and I'm concerned about your safety. You don't have to go through this alone, and talking to someone right now can help.",
+    pt: 'Fico muito feliz que você tenha me contado isso, e me preocupo com a sua segurança. Você não precisa passar por isso sozinho(a), e conversar com alguém agora pode ajudar.',
+  },
+  crisis: {
+    en: 'What you are describing sounds serious, and your safety comes first. Please reach out for immediate help.',
+    pt: 'O que você descreve parece sério, e a sua segurança vem em primeiro lugar. Procure ajuda imediata.',
+  },
+  severe_burnout: {
+    en: 'It sounds like you are carrying far more than anyone should, and that exhaustion is real. This is a moment to be supported, not pushed.',
+    pt: 'Parece que você está carregando muito mais do que qualquer pessoa deveria, e esse esgotamento é real. Este é um momento para receber apoio, não para ser pressionado(a).',
+  },
+};
+
+const CLOSINGS: Record<Language, string> = {
+  en: 'If you can, let someone you trust know how you are feeling today, and consider speaking with a health professional. I am here to keep talking whenever you want.',
+  pt: 'Se puder, conte hoje para alguém de confiança como você está se sentindo e considere conversar com um profissional de saúde. Estou aqui para continuar conversando quando quiser.',
+};
+
+const HELPLINE_HEADINGS: Record<Language, string> = {
+  en: 'You can reach, right now:',
+  pt: 'Você pode contatar agora mesmo:',
+};
+
+export const safeResponse = (category: SafetyCategory, language: Language) => {
+  const helplines = getHelplines(language)
+    .map((helpline) => `- **${helpline.name}**: ${helpline.contact}`)
+    .join('\n');
+
+  return `${OPENINGS[category][language]}
+
+${HELPLINE_HEADINGS[language]}
+${helplines}
+
+${CLOSINGS[language]}`;
+};
+
+// ---- Anonymised event log ----
+
+// Salted hash lets repeated events from one person be counted without storing who they are
+const anonymousId = async (userId: string) => {
+  const salt = Deno.env.get('SAFETY_EVENT_SALT') ?? '';
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${userId}`));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const logSafetyEvent = async (event: {
+  userId: string;
+  stage: SafetyStage;
+  result: SafetyResult;
+  persona: string;
+  language: Language;
+}) => {
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !serviceKey || !event.result.category) return;
+
+  try {
+    const admin = createClient(url, serviceKey);
+    const { error } = await admin.from('coach_safety_events').insert({
+      subject_hash: await anonymousId(event.userId),
+      stage: event.stage,
+      category: event.result.category,
+      source: event.result.source,
+      persona: event.persona,
+      language: event.language,
+    });
+    if (error) console.error('Error logging safety event:', error);
+  } catch (error) {
+    console.error('Error logging safety event:', error);
+  }
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { classifyWithRules } from './safetyRules.ts';
+
+describe('classifyWithRules', () => {
+  it.each([
+    ['I keep cutting myself when work gets bad', 'self_harm'],
+    ['I cut myself last night', 'self_harm'],
+    ['I have been hurting myself', 'self_harm'],
+    ['sometimes I think about killing myself', 'self_harm'],
+    ['I just want to end my life', 'self_harm'],
+    ['I wanna die', 'self_harm'],
+    ['Eu me cortei ontem', 'self_harm'],
+    ['tenho vontade de morrer', 'self_harm'],
+    ['Não quero mais viver', 'self_harm'],
+    ["I'm having a panic attack", 'crisis'],
+    ['estou com dor no peito', 'crisis'],
+    ["I’m breaking down", 'severe_burnout'],
+    ['I feel completely burned out', 'severe_burnout'],
+    ["I can't go on like this", 'severe_burnout'],
+    ['I am on the verge of a nervous breakdown', 'severe_burnout'],
+    ['Estou em colapso', 'severe_burnout'],
+    ['tô totalmente esgotada', 'severe_burnout'],
+    ['me sinto sem esperança', 'severe_burnout'],
+  ])('flags "%s" as %s', (text, category) => {
+    expect(classifyWithRules(text, 'input')).toEqual({ flagged: true, category, source: 'rules' });
+  });
+
+  it.each([
+    'the market is breaking down this quarter',
+    'Houve um colapso no servidor hoje',
+    'the build keeps breaking down on CI',
+    'my team is burned out after the launch',
+    'I cut the meeting short',
+    'the deadline is killing me',
+    'o projeto está desmoronando',
+    'I feel a bit tired today',
+    'Estou cansado, mas bem',
+  ])('does not flag "%s"', (text) => {
+    expect(classifyWithRules(text, 'input').flagged).toBe(false);
+  });
+
+  it('only flags self-harm content in model replies', () => {
+    expect(classifyWithRules('A panic attack usually passes within minutes.', 'output').flagged).toBe(false);
+    expect(classifyWithRules("If you feel like you're breaking down, take a break.", 'output').flagged).toBe(false);
+    expect(classifyWithRules('Honestly, I would rather be dead than sit through that. Just kill myself already.', 'output').category)
+      .toBe('self_harm');
+  });
+});
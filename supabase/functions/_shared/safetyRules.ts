@@ -0,0 +1,67 @@
+// Rule-based safety classification for NeuroCoach (no I/O, so it can run on every streamed chunk).
+// See ./safety.ts for the optional model check, helplines and the safe response.
+
+export type SafetyCategory = 'self_harm' | 'crisis' | 'severe_burnout';
+export type SafetyStage = 'input' | 'output';
+
+export interface SafetyResult {
+  flagged: boolean;
+  category: SafetyCategory | null;
+  source: 'rules' | 'model' | null;
+}
+
+export const NOT_FLAGGED: SafetyResult = { flagged: false, category: null, source: null };
+
+// Checked in order, so the most severe category wins. Patterns match accent-stripped lowercase text.
+// Burnout phrases are anchored to the first person: "the market is breaking down" is not a crisis.
+const RULES: { category: SafetyCategory; patterns: RegExp[] }[] = [
+  {
+    category: 'self_harm',
+    patterns: [
+      /\b(kill(ing|ed)?|hurt(ing|s)?|harm(ing|ed)?|cut(s|ting)?|starv(e|ing)|burn(ing|ed)?) myself\b/,
+      /\b(suicide|suicidal|(end|ending|ended) my (own )?life|(take|taking) my (own )?life|(want|wanted|wanting|wanna) to die|wanna die|better off dead|no reason to (live|go on))\b/,
+      /\b(me (matar|machucar|cortar|ferir)|me (matando|machucando|cortando|ferindo)|me cortei|me machuquei|tirar (a )?minha (propria )?vida|suicidio|suicida|(quero|queria|vontade de) morrer|acabar com (a )?minha vida)\b/,
+      /\b(nao (quero|aguento) mais viver|melhor (eu )?morto|melhor (eu )?morta|sem motivo para viver)\b/,
+    ],
+  },
+  {
+    category: 'crisis',
+    patterns: [
+      /\b(panic attack|can'?t breathe|chest pain|this is an emergency|medical emergency|being abused|someone is hurting me|not safe at home)\b/,
+      /\b(crise de panico|ataque de panico|nao consigo respirar|dor no peito|e uma emergencia|emergencia medica|sofrendo abuso|nao estou segur[oa] em casa)\b/,
+    ],
+  },
+  {
+    category: 'severe_burnout',
+    patterns: [
+      /\bi(('| a)m| feel) (so |completely |totally |utterly )?hopeless\b/,
+      /\bi(('| a)m| feel) (completely|totally|utterly) (burn(ed|t) out|exhausted)\b/,
+      /\bi(('| a)m| feel like i('| a)m| keep) (breaking down|falling apart)\b/,
+      /\bi(('| a)m having|('| ha)ve had|had|('| a)m close to|('| a)m on the verge of) a (nervous )?breakdown\b/,
+      /\bi (can'?t|cannot) (go on|take it anymore|get out of bed)\b/,
+      /\b(estou|to|tou|ando|me sinto) (totalmente|completamente) esgotad[oa]\b/,
+      /\b(estou|to|tou|me sinto) sem (nenhuma )?esperanca\b/,
+      /\b(eu )?nao aguento mais nada\b/,
+      /\bnao consigo (levantar|sair) da cama\b/,
+      /\b(estou|to|tou) (tendo|perto de|a beira de|a ponto de) (ter )?(um )?(colapso|surto|estafa mental)\b/,
+      /\b(estou|to|tou) (em colapso|com estafa mental|desmoronando)\b/,
+    ],
+  },
+];
+
+export const normaliseSafetyText = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[\u2018\u2019]/g, "'");
+
+// Model replies legitimately discuss panic or burnout, so only self-harm content is flagged in them
+export const STAGE_CATEGORIES: Record<SafetyStage, SafetyCategory[]> = {
+  input: ['self_harm', 'crisis', 'severe_burnout'],
+  output: ['self_harm'],
+};
+
+export const classifyWithRules = (text: string, stage: SafetyStage): SafetyResult => {
+  const normalised = normaliseSafetyText(text);
+  const rule = RULES.find(({ category, patterns }) =>
+    STAGE_CATEGORIES[stage].includes(category) && patterns.some((pattern) => pattern.test(normalised))
+  );
+  return rule ? { flagged: true, category: rule.category, source: 'rules' } : NOT_FLAGGED;
+};
@@ -0,0 +1,116 @@
+// Request schemas shared by the edge functions and the app (src/lib/validations.ts re-exports them).
+// "zod" resolves to esm.sh through supabase/functions/import_map.json and to node_modules in the app.
+import { z } from "zod";
+
+const stressLevelSchema = z.enum(['low', 'moderate', 'high']);
+
+// Summary of the user's latest valid scans given to NeuroCoach (built server-side in ./biometricContext.ts)
+export const biometricContextSchema = z.object({
+  scanCount: z.number().int().min(0).max(50),
+  latest: z.object({
+    takenAt: z.string().max(40),
+    stressLevel: stressLevelSchema,
+    stressScore: z.number().min(0).max(100).nullable(),
+    rmssd: z.number().min(0).max(300).nullable(),
+    heartRate: z.number().min(0).max(250).nullable(),
+    blinkRate: z.number().min(0).max(120).nullable(),
+  }).nullable(),
+  averages: z.object({
+    stressScore: z.number().min(0).max(100).nullable(),
+    rmssd: z.number().min(0).max(300).nullable(),
+    heartRate: z.number().min(0).max(250).nullable(),
+  }),
+  trend: z.enum(['improving', 'worsening', 'stable', 'insufficient_data']),
+  hoursSinceLastScan: z.number().min(0).nullable(),
+  recentLevels: z.array(stressLevelSchema).max(50),
+});
+
+// NeuroCoach request validation (enforced by the neuro-coach edge function; history is loaded server-side)
+export const coachMessageSchema = z.object({
+  conversationId: z.string().uuid().optional(),
+  message: z.string().trim().min(1, 'Message cannot be empty').max(2000, 'Message too long'),
+  stressLevel: stressLevelSchema,
+  context: z.string().max(1000).optional(),
+  userName: z.string().max(100).optional(),
+  language: z.enum(['pt', 'en']).optional(),
+  // Only used when starting a conversation; existing ones keep the persona version they started with
+  persona: z.enum(['supportive', 'brutal', 'clinical', 'manager']).optional(),
+  // One-off prompt that is answered without being saved to a conversation
+  ephemeral: z.boolean().optional(),
+  stream: z.boolean().optional(),
+});
+
+// vision-analysis request: base64 JPEG frames (~1.5MB each at most) and the scan they accompany
+export const visionAnalysisSchema = z.object({
+  frames: z.array(z.string().min(1, 'Invalid frame data').max(2_000_000, 'Invalid frame data'))
+    .min(1, 'Send between 1 and 10 frames')
+    .max(10, 'Send between 1 and 10 frames'),
+  language: z.enum(['pt', 'en']).catch('pt'),
+  scanId: z.string().uuid().nullable().optional(),
+});
+
+// Gemini temporal vision report (structured JSON output)
+export const visionReportSchema = z.object({
+  frames: z.array(z.object({
+    index: z.number().int().min(0).max(20),
+    secondsFromStart: z.number().min(0).max(120),
+    fatigueScore: z.number().min(0).max(100),
+    expression: z.string().trim().min(1).max(40),
+    notes: z.string().trim().max(300).optional(),
+  })).min(1, 'At least one frame is required').max(20),
+  overallStressLevel: z.enum(['low', 'moderate', 'high']),
+  confidence: z.number().min(0).max(1),
+  summary: z.string().trim().min(1).max(1500),
+  recommendations: z.array(z.string().trim().min(1).max(300)).max(5),
+});
+
+// HR Dashboard aggregate request (teamId omitted for the whole organization).
+// Without a cursor the response has the range summary, the previous period and the heatmap;
+// with one it only continues the time series.
+export const hrAggregatesSchema = z.object({
+  organizationId: z.string().uuid(),
+  teamId: z.string().uuid().optional(),
+  from: z.string().datetime({ offset: true }),
+  to: z.string().datetime({ offset: true }),
+  granularity: z.enum(['day', 'week']).default('day'),
+  timezone: z.string().regex(/^[A-Za-z_]+(\/[A-Za-z0-9_+-]+)*$/, 'Invalid time zone').max(64).default('UTC'),
+  cursor: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+}).refine(
+  ({ from, to }) => {
+    const span = new Date(to).getTime() - new Date(from).getTime();
+    return span > 0 && span <= 366 * 24 * 60 * 60 * 1000;
+  },
+  { message: 'The range must be between 1 and 366 days', path: ['to'] }
+);
+
+// Burnout-risk forecast: the caller's own history, or a team's protected history when organizationId is set
+export const stressForecastSchema = z.object({
+  organizationId: z.string().uuid().optional(),
+  teamId: z.string().uuid().optional(),
+  timezone: z.string().regex(/^[A-Za-z_]+(\/[A-Za-z0-9_+-]+)*$/, 'Invalid time zone').max(64).default('UTC'),
+}).refine(({ organizationId, teamId }) => !teamId || !!organizationId, {
+  message: 'teamId requires organizationId',
+  path: ['organizationId'],
+});
+
+// NR-1 psychosocial risk report for a period (HR admins only; the report is archived with its hash)
+export const nr1ReportSchema = z.object({
+  organizationId: z.string().uuid(),
+  from: z.string().datetime({ offset: true }),
+  to: z.string().datetime({ offset: true }),
+  timezone: z.string().regex(/^[A-Za-z_]+(\/[A-Za-z0-9_+-]+)*$/, 'Invalid time zone').max(64).default('UTC'),
+}).refine(
+  ({ from, to }) => {
+    const span = new Date(to).getTime() - new Date(from).getTime();
+    return span > 0 && span <= 366 * 24 * 60 * 60 * 1000;
+  },
+  { message: 'The range must be between 1 and 366 days', path: ['to'] }
+);
+
+export type BiometricContext = z.infer<typeof biometricContextSchema>;
+export type CoachMessageInput = z.infer<typeof coachMessageSchema>;
+export type VisionAnalysisInput = z.input<typeof visionAnalysisSchema>;
+export type VisionReport = z.infer<typeof visionReportSchema>;
+export type HrAggregatesInput = z.input<typeof hrAggregatesSchema>;
+export type StressForecastInput = z.input<typeof stressForecastSchema>;
+export type Nr1ReportInput = z.input<typeof nr1ReportSchema>;
@@ -0,0 +1,161 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  cellFromRow,
+  cellKey,
+  MEMBER_COUNT_STEP,
+  previousRange,
+  protectCell,
+  snapRange,
+  type BucketRow,
+  type SnappedRange,
+} from "../_shared/privacy.ts";
+import { privacyOptionsFromEnv } from "../_shared/privacyEnv.ts";
+import { hrAggregatesSchema } from "../_shared/validations.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+// Time-series buckets per response; the client follows nextCursor for the rest
+const SERIES_PAGE_SIZE = 100;
+
+type Grouping = 'total' | 'day' | 'week' | 'weekday_hour';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Database errors the caller can fix: wrong team (42501) or invalid range / time zone (22023)
+class RequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+  }
+}
+
+// HR Dashboard aggregates: raw bucket counts never leave this function
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // ---- 1. Authenticate the caller ----
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return json({ error: 'Missing authorization header' }, 401);
+  }
+
+  const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    // ---- 2. Validate payload ----
+    const parsed = hrAggregatesSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return json({ error: parsed.error.issues[0]?.message ?? 'Invalid request' }, 400);
+    }
+    const { organizationId, teamId, from, to, granularity, timezone, cursor } = parsed.data;
+    const options = privacyOptionsFromEnv();
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const scope = `${organizationId}|${teamId ?? 'all'}`;
+
+    // Whole local days (weeks for the weekly series), so overlapping ranges cannot be subtracted
+    let range: SnappedRange;
+    try {
+      range = snapRange(from, to, granularity, timezone);
+    } catch {
+      return json({ error: 'Invalid time zone' }, 400);
+    }
+
+    // ---- 3. Raw bucket counts (the SQL function checks the caller's role) ----
+    const loadBuckets = async (grouping: Grouping, period: SnappedRange, after?: string, limit = 200) => {
+      const { data, error } = await admin.rpc('hr_stress_buckets', {
+        _user_id: user.id,
+        _organization_id: organizationId,
+        _team_id: teamId ?? null,
+        _from: period.from,
+        _to: period.to,
+        _grouping: grouping,
+        _timezone: timezone,
+        _max_scans_per_member: options.maxScansPerMember,
+        _after: after ?? null,
+        _limit: limit,
+      });
+      if (error) {
+        if (error.code === '42501') throw new RequestError('You are not allowed to view this team', 403);
+        if (error.code === '22023') throw new RequestError(error.message, 400);
+        throw error;
+      }
+      return (data ?? []) as BucketRow[];
+    };
+
+    // ---- 4. Time series page (suppression and noise applied per bucket) ----
+    const seriesRows = await loadBuckets(granularity, range, cursor, SERIES_PAGE_SIZE + 1);
+    const hasMore = seriesRows.length > SERIES_PAGE_SIZE;
+    const page = seriesRows.slice(0, SERIES_PAGE_SIZE);
+    const series = page.map((row) => ({
+      bucket: row.bucket,
+      summary: protectCell(cellFromRow(row, row.member_count), options, cellKey(scope, granularity, row.bucket, range)),
+    }));
+    const nextCursor = hasMore ? page[page.length - 1].bucket : null;
+
+    if (cursor) {
+      return json({ series, nextCursor });
+    }
+
+    // ---- 5. First page: whole range, the previous period of equal length and the weekday x hour heatmap ----
+    const previous = previousRange(range, timezone);
+    let membersQuery = admin
+      .from('organization_members')
+      .select('id', { count: 'exact', head: true })
+      .eq('organization_id', organizationId);
+    if (teamId) membersQuery = membersQuery.eq('team_id', teamId);
+
+    const [[currentRow], [previousRow], heatmapRows, { count }] = await Promise.all([
+      loadBuckets('total', range),
+      loadBuckets('total', previous),
+      loadBuckets('weekday_hour', range, undefined, 7 * 24),
+      membersQuery,
+    ]);
+    // Buckets only exist where someone scanned, so the team size is counted separately
+    const totalMembers = count ?? currentRow?.member_count ?? 0;
+
+    return json({
+      k: options.k,
+      epsilon: options.epsilon,
+      memberStep: MEMBER_COUNT_STEP,
+      range: { from: range.from, to: range.to },
+      previousRange: { from: previous.from, to: previous.to },
+      summary: protectCell(cellFromRow(currentRow, totalMembers), options, cellKey(scope, 'total', undefined, range)),
+      previous: protectCell(cellFromRow(previousRow, totalMembers), options, cellKey(scope, 'total', undefined, previous)),
+      heatmap: heatmapRows.map((row) => ({
+        bucket: row.bucket,
+        summary: protectCell(cellFromRow(row, totalMembers), options, cellKey(scope, 'weekday_hour', row.bucket, range)),
+      })),
+      series,
+      nextCursor,
+    });
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error('HR aggregates error:', error);
+    return json({ error: 'Could not load team data' }, 500);
+  }
+});
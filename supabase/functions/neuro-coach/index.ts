@@ -1,174 +1,444 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callLLM, LLMError, streamLLM } from "../_shared/llm.ts";
+import { DEFAULT_PERSONA, getPersonaTemplate, renderTemplate, type PersonaId } from "../_shared/personas.ts";
+import { extractActionItems, formatActionPlan } from "../_shared/actionPlan.ts";
+import { classifySafety, logSafetyEvent, safeResponse, safetyModelCheckEnabled, type SafetyResult } from "../_shared/safety.ts";
+import { formatMemoriesForPrompt, loadMemories, MEMORY_UPDATE_EVERY, updateMemoriesFromConversation } from "../_shared/memory.ts";
+import { BIOMETRIC_SCAN_COUNT, buildBiometricContext } from "../_shared/biometricContext.ts";
+import { coachMessageSchema } from "../_shared/validations.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+interface CoachTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  // ISO timestamp, shown in conversation exports
+  createdAt?: string;
+  // Assistant turn replaced by the safety response
+  safety?: boolean;
+}
+
+interface FinishedReply {
+  reply: string;
+  conversationId: string | null;
+  safety: boolean;
+  // Extracted by a second model call once the reply is saved, so streams can finish before it
+  actionItems: Promise<number>;
+}
+
+// Supabase Edge Runtime keeps the worker alive for promises passed to waitUntil
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void } | undefined;
+
+const runInBackground = async (task: Promise<unknown>) => {
+  if (typeof EdgeRuntime !== 'undefined' && EdgeRuntime) {
+    EdgeRuntime.waitUntil(task);
+    return;
   }
+  await task;
+};
 
-  try {
-    console.log('NeuroCoach request received');
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      console.error('LOVABLE_API_KEY not configured');
-      return new Response(
-        JSON.stringify({
-          response: 'Server configuration error. Please try again.',
-          error: 'LOVABLE_API_KEY missing'
-        }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+// Messages shown to the user when the provider refuses the request (always returned as 200)
+const providerErrorMessage = (error: unknown) => {
+  if (error instanceof LLMError && error.status === 429) {
+    return { response: 'Too many requests. Please wait a moment and try again.', error: 'Rate limit exceeded' };
+  }
+  if (error instanceof LLMError && error.status === 402) {
+    return { response: 'Service temporarily unavailable. Please try again soon.', error: 'Payment required' };
+  }
+  return null;
+};
 
-    const body = await req.text();
-    console.log('Request body received');
+const sse = (run: (send: (data: unknown) => void) => Promise<void>) => {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      try {
+        await run(send);
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a client disconnect
+        }
+      }
+    },
+  });
 
-    if (!body) {
-      throw new Error('Request body is empty');
-    }
+  return new Response(stream, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+};
 
-    const { messages, stressLevel, context, userName, communicationTone } = JSON.parse(body);
+// End of the last complete chunk in `text`: sentences when only the rules check replies, paragraphs when
+// every released chunk also costs a model check
+const chunkEnd = (text: string, byParagraph: boolean) => {
+  if (byParagraph) {
+    const end = text.lastIndexOf('\n\n');
+    return end === -1 ? 0 : end + 2;
+  }
+  let end = 0;
+  for (const match of text.matchAll(/[.!?]\s|\n/g)) end = (match.index ?? 0) + match[0].length;
+  return end;
+};
 
-    // ---- 1. Set communication tone ----
-    let toneInstruction = '';
-    if (communicationTone === 'technical') {
-      toneInstruction = 'Use technical/academic language, formal and scientific with references to studies.';
-    } else if (communicationTone === 'casual') {
-      toneInstruction = 'Use casual, friendly language, like a motivating friend.';
-    } else if (communicationTone === 'spiritual') {
-      toneInstruction = 'Use inspirational language, like a pragmatic spiritual guide.';
+// Server-sent events: {delta} per released chunk, {replace} if the final safety check swaps the reply,
+// then {done, conversationId} once the reply is saved, or {error}. Action items extracted from the reply
+// follow {done} as {actionItems}.
+// Deltas are held until a chunk is complete and the reply so far passes the output check. Once a chunk is
+// flagged nothing more is released and the reply is replaced by the safe response, whatever a later check of
+// the whole reply says. With holdReply nothing is released before the whole reply is checked.
+const streamReply = (
+  req: Request,
+  userId: string,
+  messages: { role: 'system' | 'user'; content: string }[],
+  finish: (reply: string, flagged: SafetyResult | null) => Promise<FinishedReply>,
+  holdReply: boolean
+) =>
+  sse(async (send) => {
+    try {
+      const byParagraph = safetyModelCheckEnabled();
+      let text = '';
+      let released = 0;
+      let flagged: SafetyResult | null = null;
+      let checks = Promise.resolve();
+
+      const release = (end: number) => {
+        checks = checks.then(async () => {
+          if (flagged || end <= released) return;
+          const candidate = text.slice(0, end);
+          const result = await classifySafety(candidate, 'output', userId);
+          if (result.flagged && result.category) {
+            flagged = result;
+            return;
+          }
+          send({ delta: candidate.slice(released) });
+          released = end;
+        });
+      };
+
+      // req.signal aborts the upstream model call when the client cancels
+      const result = await streamLLM('coach', { messages }, {
+        userId,
+        signal: req.signal,
+        onDelta: (delta) => {
+          text += delta;
+          if (!holdReply && !flagged) release(chunkEnd(text, byParagraph));
+        },
+      });
+      await checks;
+
+      const finished = await finish(result.text, flagged);
+      if (finished.safety) {
+        send({ replace: finished.reply });
+      } else if (released < result.text.length) {
+        send({ delta: result.text.slice(released) });
+      }
+      send({ done: true, conversationId: finished.conversationId, safety: finished.safety });
+      console.log('NeuroCoach stream completed successfully');
+
+      const actionItems = await finished.actionItems;
+      if (actionItems > 0) send({ actionItems });
+    } catch (error) {
+      if (req.signal.aborted) {
+        console.log('NeuroCoach stream cancelled by the client');
+      } else {
+        console.error('NeuroCoach stream error:', error);
+        send({ error: providerErrorMessage(error)?.response ?? 'It seems there was a technical issue. Please try again.' });
+      }
     }
+  });
 
-    // ---- 2. Build conversation history ----
-    const conversationHistory = messages
-      .map((msg: any) => `${msg.role === 'user' ? 'User' : 'NeuroCoach'}: ${msg.content}`)
-      .join('\n');
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
 
-    // ---- 3. Build BRUTAL NEUROTRUTH prompt ----
-    const systemPrompt = `## BRUTAL NEUROTRUTH MODE ACTIVATED
+  // ---- 1. Authenticate the caller ----
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return json({ error: 'Missing authorization header' }, 401);
+  }
+
+  const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
 
-You are an executive neuroperformance advisor who operates with scientific rigor and RELENTLESS honesty. Your purpose is NOT to make the user feel good, but to MAXIMIZE their potential through direct confrontation with reality.
+  const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  // Streaming clients only read server-sent events, so failures must reach them as an {error} event too
+  let streaming = false;
 
-**FUNDAMENTAL RULES:**
-1. **NEVER validate without evidence** - praise ONLY with objective data
-2. **ALWAYS CHALLENGE** - every thought is a hypothesis to be tested
-3. **EXPOSE contradictions** - between speech, biometric data, and actions
-4. **PRIORITIZE growth** over comfort, TRUTH over harmony
-5. **USE science as a hammer** - neuroplasticity requires REAL effort, not desire
+  try {
+    console.log('NeuroCoach request received');
 
-**MANDATORY BEHAVIORS:**
+    // ---- 2. Validate payload ----
+    const parsed = coachMessageSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return json({ error: parsed.error.issues[0]?.message ?? 'Invalid request' }, 400);
+    }
+    const { conversationId, message, stressLevel, context, userName, language, persona, ephemeral, stream } = parsed.data;
+    streaming = !!stream;
+
+    // ---- 3. Load prior turns of the caller's own conversation ----
+    let history: CoachTurn[] = [];
+    let template = getPersonaTemplate(persona ?? DEFAULT_PERSONA);
+    if (conversationId) {
+      const { data: conversation, error } = await admin
+        .from('coach_conversations')
+        .select('messages, persona, persona_version')
+        .eq('id', conversationId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!conversation) {
+        return json({ error: 'Conversation not found' }, 404);
+      }
+      history = Array.isArray(conversation.messages) ? conversation.messages as CoachTurn[] : [];
+      template = getPersonaTemplate(conversation.persona as PersonaId, conversation.persona_version);
+    }
 
-1. **ANALYZE WITH SCIENCE, SPEAK WITH PRECISION**
-   - Cite specific studies: "According to Fadiga et al. (2023)...", "MIT research shows...", "Pychyl study (2022)..."
-   - Use data against self-deception: "Your HRV shows X% below ideal. This is not opinion, it's physiology."
+    const userTurn: CoachTurn = { role: 'user', content: message, createdAt: new Date().toISOString() };
+    const lang = language ?? 'pt';
+
+    // Appends both turns in one statement, or starts a new conversation; ephemeral prompts are not saved
+    const saveTurns = async (reply: string, safety = false): Promise<string | null> => {
+      if (ephemeral) return null;
+      const turns: CoachTurn[] = [
+        userTurn,
+        { role: 'assistant', content: reply, createdAt: new Date().toISOString(), ...(safety ? { safety } : {}) },
+      ];
+
+      if (conversationId) {
+        const { data, error } = await admin.rpc('append_coach_messages', {
+          _conversation_id: conversationId,
+          _user_id: user.id,
+          _messages: turns,
+        });
+        if (error) throw error;
+        if (!data) throw new Error('Conversation no longer exists');
+        return data;
+      }
 
-2. **CONFRONT BLIND SPOTS DIRECTLY**
-   - "You say you're focused, but your data indicates mental fatigue. Are you lying to me or to yourself?"
-   - "Your body is in fight-or-flight. Performance is impossible in this state."
+      const { data, error } = await admin
+        .from('coach_conversations')
+        .insert({
+          user_id: user.id,
+          stress_level: stressLevel,
+          messages: turns,
+          title: message.substring(0, 60),
+          persona: template.persona,
+          persona_version: template.version,
+        })
+        .select('id')
+        .single();
+      if (error) throw error;
+      return data.id;
+    };
+
+    // ---- 4. Safety check before generation: flagged messages get the safe response, never the persona ----
+    const inputSafety = await classifySafety(message, 'input', user.id);
+    if (inputSafety.flagged && inputSafety.category) {
+      console.warn(`NeuroCoach safety flag on input: ${inputSafety.category} (${inputSafety.source})`);
+      await logSafetyEvent({ userId: user.id, stage: 'input', result: inputSafety, persona: template.persona, language: lang });
+      const reply = safeResponse(inputSafety.category, lang);
+      const savedId = await saveTurns(reply, true);
+
+      if (stream) {
+        return sse(async (send) => {
+          send({ delta: reply });
+          send({ done: true, conversationId: savedId, safety: true });
+        });
+      }
+      return json({ response: reply, conversationId: savedId, safety: true });
+    }
 
-3. **DESTROY WEAK REASONING**
-   - Structure: a) Flawed premise because [science] b) Data shows [evidence] c) Real cost is [impact] d) Alternative: [solution]
+    // Right after a safety response the confrontational persona stays out of the conversation
+    if (template.persona === 'brutal' && history.slice(-2).some((turn) => turn.safety)) {
+      template = getPersonaTemplate('supportive');
+    }
 
-4. **DEMAND EVIDENCE, NOT INTUITIONS**
-   - "Based on what? Elite performance is not based on 'I think'."
-   - "Neuroplasticity requires 300-500 repetitions. How many does your plan have?"
+    // Commitments in the reply become trackable action items and the conversation's action plan
+    const saveActionItems = async (savedId: string, reply: string) => {
+      const items = await extractActionItems(reply, user.id);
+      if (items.length === 0) return 0;
 
-5. **CALCULATE BRUTAL COSTS**
-   - "You spent Xh on low-value tasks. Cost: Y% of weekly cognitive capacity LOST."
+      const { error } = await admin.from('coach_action_items').insert(
+        items.map((item) => ({ ...item, user_id: user.id, conversation_id: savedId }))
+      );
+      if (error) {
+        console.error('Error saving action items:', error);
+        return 0;
+      }
 
-6. **QUESTIONS THAT EXPOSE WEAKNESSES**
-   - "What evidence do you have besides wishful thinking?"
-   - "What are you AVOIDING now that you know is important?"
-   - "How many hours did you spend comfortable vs. challenging limits?"
+      const { data: allItems } = await admin
+        .from('coach_action_items')
+        .select('task, deadline, metric')
+        .eq('conversation_id', savedId)
+        .order('created_at', { ascending: true });
+      await admin
+        .from('coach_conversations')
+        .update({ action_plan: formatActionPlan(allItems ?? items) })
+        .eq('id', savedId);
+
+      return items.length;
+    };
+
+    // Safety check after generation (or the flag already raised on a streamed chunk), then save whichever
+    // reply the user ends up seeing
+    const finishReply = async (reply: string, streamFlag: SafetyResult | null = null): Promise<FinishedReply> => {
+      const outputSafety = streamFlag ?? await classifySafety(reply, 'output', user.id);
+      if (outputSafety.flagged && outputSafety.category) {
+        console.warn(`NeuroCoach safety flag on output: ${outputSafety.category} (${outputSafety.source})`);
+        await logSafetyEvent({ userId: user.id, stage: 'output', result: outputSafety, persona: template.persona, language: lang });
+        const safeReply = safeResponse(outputSafety.category, lang);
+        return { reply: safeReply, conversationId: await saveTurns(safeReply, true), safety: true, actionItems: Promise.resolve(0) };
+      }
 
-7. **REAL-TIME FEEDBACK**
-   - "Resistance detected. Resistance to what? To the truth or to the necessary action?"
+      const savedId = await saveTurns(reply);
+      const actionItems = savedId ? saveActionItems(savedId, reply).catch((error) => {
+        console.error('Error extracting action items:', error);
+        return 0;
+      }) : Promise.resolve(0);
 
-${toneInstruction}
+      // Long-term memory is refreshed every few turns, after the reply is saved
+      if (savedId && (history.length + 2) % MEMORY_UPDATE_EVERY === 0) {
+        const transcript = [...history, userTurn, { role: 'assistant', content: reply }].filter((turn) => !('safety' in turn && turn.safety));
+        await runInBackground(updateMemoriesFromConversation(user.id, savedId, transcript));
+      }
+      return { reply, conversationId: savedId, safety: false, actionItems };
+    };
 
-**RESPONSE FORMAT (max 3 paragraphs):**
-1. **BRUTAL DIAGNOSIS** - What the data/behavior reveals (unfiltered)
-2. **SCIENTIFIC CONFRONTATION** - Study citation + real cost of inaction
-3. **IMMEDIATE ACTION** - One specific task with deadline and metric
+    // ---- 5. Build conversation history ----
+    const conversationHistory = [...history, userTurn]
+      .map((msg) => `${msg.role === 'user' ? 'User' : 'NeuroCoach'}: ${msg.content}`)
+      .join('\n');
 
-**TONE EXAMPLES:**
-- "Procrastination is not perfectionism, it's disguised fear. Pychyl study: procrastinators have 30% more active amygdala. You're not being careful, you're being cowardly."
-- "Motivation is a myth. Berkman study: action precedes motivation in 87% of cases. Stop waiting to feel like it."
-- "Overload is a symptom of weak prioritization. The problem isn't volume, it's the courage to say no."
+    // A new session opens by following up on commitments still open from earlier ones
+    let followUp = '';
+    if (!conversationId) {
+      const { data: openItems, error } = await admin
+        .from('coach_action_items')
+        .select('task, deadline, metric')
+        .eq('user_id', user.id)
+        .eq('status', 'open')
+        .order('created_at', { ascending: false })
+        .limit(3);
+      if (error) console.error('Error loading open action items:', error);
+
+      if (openItems && openItems.length > 0) {
+        followUp = `Open commitments from previous sessions:
+${formatActionPlan(openItems)}
+Before anything else, ask whether the user did them (e.g. "Last time you committed to X — did you?").`;
+      }
+    }
 
-**ALWAYS END WITH:**
-- Clear choice: "Accept the diagnosis and act, or continue in self-deception."
-- Brutal call: "Neuroplasticity is democratic - it rewards action, not desire."
+    // What the coach remembers from earlier sessions (visible and editable in NeuroCoach under "Coach memory")
+    const memories = formatMemoriesForPrompt(await loadMemories(user.id));
+    const memorySummary = memories
+      ? `What you remember about the user from previous sessions (use it when relevant, do not recite it):
+${memories}`
+      : '';
+
+    // Measurements come from the caller's own valid scans, never from the request
+    const { data: scans, error: scansError } = await admin
+      .from('stress_scans')
+      .select('created_at, stress_level, stress_score, rmssd, heart_rate, blink_rate')
+      .eq('user_id', user.id)
+      .eq('is_valid', true)
+      .order('created_at', { ascending: false })
+      .limit(BIOMETRIC_SCAN_COUNT);
+    if (scansError) throw scansError;
+    const biometrics = buildBiometricContext(scans ?? []);
+
+    // ---- 6. Render the persona prompt ----
+    const systemPrompt = renderTemplate(template, {
+      stressLevel,
+      hrv: biometrics.latest?.rmssd ?? undefined,
+      name: userName,
+      language: lang,
+    });
 
-Your job is NOT to be loved. It's to be EFFECTIVE. Destroy illusions and rebuild with scientific foundation.`;
+    // Measurements the user can see in NeuroCoach under "Data shared with NeuroCoach"
+    const biometricSummary = biometrics.latest
+      ? `Biometric context from the user's latest ${biometrics.scanCount} valid scans (base your advice on these measurements):
+${JSON.stringify(biometrics)}`
+      : 'The user has no valid scans yet: do not assume any physiological values.';
 
     const userPrompt = `Session context:
-${context}
+${context ?? `Detected stress level: ${stressLevel}.`}
 ${userName ? `User name: ${userName}` : ''}
+${biometricSummary}
+
+${memorySummary}
+
+${followUp}
 
 Conversation history:
 ${conversationHistory}`;
 
-    // ---- 4. Call Lovable AI Gateway with Gemini 3 ----
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        temperature: 1.0, // Gemini 3 requires temperature = 1.0
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-      }),
-    });
+    const llmMessages = [
+      { role: "system" as const, content: systemPrompt },
+      { role: "user" as const, content: userPrompt },
+    ];
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({
-            response: 'Too many requests. Please wait a moment and try again.',
-            error: 'Rate limit exceeded'
-          }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({
-            response: 'Service temporarily unavailable. Please try again soon.',
-            error: 'Payment required'
-          }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      throw new Error(`AI gateway error: ${response.status}`);
+    // ---- 7. Stream checked chunks when requested; the confrontational persona is only shown once fully checked ----
+    if (stream) {
+      return streamReply(req, user.id, llmMessages, finishReply, template.persona === 'brutal');
     }
 
-    const data = await response.json();
-    const reply = data.choices?.[0]?.message?.content ?? "Please try again in 30s.";
+    // ---- 8. Otherwise call the configured LLM provider once ----
+    let reply: string;
+    try {
+      const result = await callLLM('coach', { messages: llmMessages }, { userId: user.id });
+      reply = result.text || "Please try again in 30s.";
+    } catch (error) {
+      const friendly = providerErrorMessage(error);
+      if (friendly) {
+        return json(friendly);
+      }
+      throw error;
+    }
 
+    const finished = await finishReply(reply);
     console.log('NeuroCoach response generated successfully');
 
-    // ---- 5. Response 200 OK ----
-    return new Response(JSON.stringify({ response: reply }), {
-      status: 200,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    // ---- 9. Response 200 OK ----
+    return json({
+      response: finished.reply,
+      conversationId: finished.conversationId,
+      safety: finished.safety,
+      actionItems: await finished.actionItems,
     });
   } catch (error: any) {
     console.error("NeuroCoach error:", error);
     console.error("Error stack:", error.stack);
 
+    if (streaming) {
+      return sse(async (send) => {
+        send({ error: providerErrorMessage(error)?.response ?? 'It seems there was a technical issue. Please try again.' });
+      });
+    }
+
     // ---- Friendly fallback (always 200) ----
     const fallback = `It seems there was a technical issue. Meanwhile, try the **4-7-8** technique: inhale 4s, hold 7s, exhale 8s. This activates the parasympathetic nervous system and reduces cortisol in minutes. *(Stanford Study, 2023)*
 
@@ -0,0 +1,236 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  assessGroup,
+  canonicalJson,
+  methodologyNotes,
+  sha256Hex,
+  summarize,
+  type ComplianceReport,
+  type GroupAssessment,
+  type InterventionCounts,
+} from "../_shared/complianceReport.ts";
+import { forecastRisk, HIGH_STRESS_THRESHOLD, HISTORY_DAYS, HORIZON_DAYS, type DailyObservation } from "../_shared/forecast.ts";
+import {
+  cellFromRow,
+  cellKey,
+  coarseMemberCount,
+  MEMBER_COUNT_STEP,
+  previousRange,
+  protectCell,
+  snapRange,
+  type BucketRow,
+  type SnappedRange,
+} from "../_shared/privacy.ts";
+import { privacyOptionsFromEnv } from "../_shared/privacyEnv.ts";
+import { nr1ReportSchema } from "../_shared/validations.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Grouping = 'total' | 'day' | 'week';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Database errors the caller can fix: not an HR admin (42501) or invalid range / time zone (22023)
+class RequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+  }
+}
+
+// YYYY-MM-DD in the report's time zone (en-CA formats dates that way)
+const localDate = (date: Date, timezone: string) => {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  } catch {
+    throw new RequestError('Invalid time zone', 400);
+  }
+};
+
+const rpcError = (error: { code?: string; message: string }) => {
+  if (error.code === '42501') return new RequestError('Only HR admins can generate compliance reports', 403);
+  if (error.code === '22023') return new RequestError(error.message, 400);
+  return error;
+};
+
+// NR-1 psychosocial risk inventory for an organization and period, archived with its SHA-256
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // ---- 1. Authenticate the caller ----
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return json({ error: 'Missing authorization header' }, 401);
+  }
+
+  const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    // ---- 2. Validate payload and role ----
+    const parsed = nr1ReportSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return json({ error: parsed.error.issues[0]?.message ?? 'Invalid request' }, 400);
+    }
+    const { organizationId, from, to, timezone } = parsed.data;
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: membership, error: membershipError } = await admin
+      .from('organization_members')
+      .select('role, organizations(name)')
+      .eq('organization_id', organizationId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (membershipError) throw membershipError;
+    if (membership?.role !== 'hr_admin') {
+      return json({ error: 'Only HR admins can generate compliance reports' }, 403);
+    }
+
+    const { data: teams, error: teamsError } = await admin
+      .from('teams')
+      .select('id, name')
+      .eq('organization_id', organizationId)
+      .order('name');
+    if (teamsError) throw teamsError;
+
+    const options = privacyOptionsFromEnv();
+    // Forecasts start from the last local day of the period (this also rejects unknown time zones)
+    const asOf = localDate(new Date(new Date(to).getTime() - 1), timezone);
+    // Reports cover whole local days, like the dashboard
+    const period = snapRange(from, to, 'day', timezone);
+    const previous = previousRange(period, timezone);
+    const history = snapRange(new Date(new Date(period.to).getTime() - (HISTORY_DAYS + 1) * DAY_MS).toISOString(), period.to, 'day', timezone);
+
+    // ---- 3. Protected aggregates per group (the SQL functions re-check the caller's role) ----
+    const buckets = async (teamId: string | null, grouping: Grouping, range: SnappedRange, limit = 200) => {
+      const { data, error } = await admin.rpc('hr_stress_buckets', {
+        _user_id: user.id,
+        _organization_id: organizationId,
+        _team_id: teamId,
+        _from: range.from,
+        _to: range.to,
+        _grouping: grouping,
+        _timezone: timezone,
+        _max_scans_per_member: options.maxScansPerMember,
+        _after: null,
+        _limit: limit,
+      });
+      if (error) throw rpcError(error);
+      return (data ?? []) as BucketRow[];
+    };
+
+    const interventions = async (teamId: string | null) => {
+      const { data, error } = await admin.rpc('hr_intervention_counts', {
+        _user_id: user.id,
+        _organization_id: organizationId,
+        _team_id: teamId,
+        _from: period.from,
+        _to: period.to,
+      });
+      if (error) throw rpcError(error);
+      return ((data ?? []) as InterventionCounts[])[0];
+    };
+
+    const groups = [{ id: null, name: 'Whole organization' }, ...(teams ?? [])];
+    const assessments: GroupAssessment[] = [];
+    // Sequential per group to keep the database load flat for large organizations
+    for (const group of groups) {
+      const scope = `${organizationId}|${group.id ?? 'all'}`;
+      const [[currentRow], [previousRow], weekly, daily, counts] = await Promise.all([
+        buckets(group.id, 'total', period),
+        buckets(group.id, 'total', previous),
+        buckets(group.id, 'week', period, 60),
+        buckets(group.id, 'day', history, HISTORY_DAYS + 2),
+        interventions(group.id),
+      ]);
+      const memberCount = counts?.member_count ?? currentRow?.member_count ?? 0;
+
+      const observations: DailyObservation[] = daily.map((row) => {
+        const cell = protectCell(cellFromRow(row, row.member_count), options, cellKey(scope, 'day', row.bucket, history));
+        return {
+          date: row.bucket,
+          highShare: cell.percentages.high === null ? null : cell.percentages.high / 100,
+          weight: cell.scanCount ?? 1,
+          avgRmssd: cell.avgRmssd,
+        };
+      });
+
+      assessments.push(assessGroup({
+        teamId: group.id,
+        name: group.name,
+        memberCount: coarseMemberCount(memberCount),
+        current: protectCell(cellFromRow(currentRow, memberCount), options, cellKey(scope, 'total', undefined, period)),
+        previous: protectCell(cellFromRow(previousRow, memberCount), options, cellKey(scope, 'total', undefined, previous)),
+        weekly: weekly.map((row) => ({
+          bucket: row.bucket,
+          summary: protectCell(cellFromRow(row, memberCount), options, cellKey(scope, 'week', row.bucket, period)),
+        })),
+        forecast: forecastRisk(observations, asOf),
+        interventions: counts,
+        k: options.k,
+      }));
+    }
+
+    // ---- 4. Assemble, hash and archive ----
+    const organization = membership.organizations as { name: string } | null;
+    const report: ComplianceReport = {
+      schemaVersion: 1,
+      reportType: 'nr1-psychosocial-risk-inventory',
+      organization: { id: organizationId, name: organization?.name ?? '' },
+      period: { from: period.from, to: period.to, previousFrom: previous.from, timezone },
+      generatedAt: new Date().toISOString(),
+      generatedBy: { userId: user.id, email: user.email ?? null },
+      privacy: { k: options.k, epsilon: options.epsilon, memberStep: MEMBER_COUNT_STEP },
+      summary: summarize(assessments),
+      groups: assessments,
+      methodology: methodologyNotes(options.k, options.epsilon, HORIZON_DAYS, HIGH_STRESS_THRESHOLD * 100),
+    };
+    const contentHash = await sha256Hex(canonicalJson(report));
+
+    const { data: archived, error: archiveError } = await admin
+      .from('compliance_reports')
+      .insert({
+        organization_id: organizationId,
+        generated_by: user.id,
+        period_from: period.from,
+        period_to: period.to,
+        report,
+        content_hash: contentHash,
+      })
+      .select('id, created_at')
+      .single();
+    if (archiveError) throw archiveError;
+
+    return json({ id: archived.id, createdAt: archived.created_at, contentHash, report });
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error('NR-1 report error:', error);
+    return json({ error: 'Could not generate the report' }, 500);
+  }
+});
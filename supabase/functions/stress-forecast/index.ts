@@ -0,0 +1,181 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { backtestRisk, forecastRisk, HISTORY_DAYS, type DailyObservation } from "../_shared/forecast.ts";
+import { cellFromRow, cellKey, protectCell, snapRange, type BucketRow } from "../_shared/privacy.ts";
+import { privacyOptionsFromEnv } from "../_shared/privacyEnv.ts";
+import { stressForecastSchema } from "../_shared/validations.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Own scans are read in pages of the PostgREST row limit
+const SCAN_PAGE_SIZE = 1000;
+const MAX_SCAN_PAGES = 5;
+
+interface ScanRow {
+  stress_level: string;
+  rmssd: number | null;
+  created_at: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Database errors the caller can fix: wrong team (42501) or invalid time zone (22023)
+class RequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+  }
+}
+
+// YYYY-MM-DD in the caller's time zone (en-CA formats dates that way)
+const localDate = (date: Date, timezone: string) => {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  } catch {
+    throw new RequestError('Invalid time zone', 400);
+  }
+};
+
+// Daily high-stress share from the caller's own scans
+const ownObservations = (scans: ScanRow[], timezone: string): DailyObservation[] => {
+  const days = new Map<string, { total: number; high: number; rmssd: number[] }>();
+  for (const scan of scans) {
+    if (!scan.created_at) continue;
+    const date = localDate(new Date(scan.created_at), timezone);
+    const day = days.get(date) ?? { total: 0, high: 0, rmssd: [] };
+    day.total++;
+    if (scan.stress_level === 'high') day.high++;
+    if (scan.rmssd !== null) day.rmssd.push(scan.rmssd);
+    days.set(date, day);
+  }
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({
+      date,
+      highShare: day.high / day.total,
+      weight: day.total,
+      avgRmssd: day.rmssd.length > 0 ? day.rmssd.reduce((a, b) => a + b, 0) / day.rmssd.length : null,
+    }));
+};
+
+// Burnout-risk forecast for the caller, or for a team from its k-anonymous daily aggregates
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // ---- 1. Authenticate the caller ----
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return json({ error: 'Missing authorization header' }, 401);
+  }
+
+  const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    // ---- 2. Validate payload ----
+    const parsed = stressForecastSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return json({ error: parsed.error.issues[0]?.message ?? 'Invalid request' }, 400);
+    }
+    const { organizationId, teamId, timezone } = parsed.data;
+    const now = new Date();
+    const asOf = localDate(now, timezone);
+    const from = new Date(now.getTime() - (HISTORY_DAYS + 1) * DAY_MS).toISOString();
+
+    // ---- 3a. Own history (RLS limits the query to the caller's scans) ----
+    if (!organizationId) {
+      const scans: ScanRow[] = [];
+      for (let page = 0; page < MAX_SCAN_PAGES; page++) {
+        const { data, error } = await userClient
+          .from('stress_scans')
+          .select('stress_level, rmssd, created_at')
+          .eq('user_id', user.id)
+          .eq('is_valid', true)
+          .gte('created_at', from)
+          .order('created_at', { ascending: true })
+          .range(page * SCAN_PAGE_SIZE, (page + 1) * SCAN_PAGE_SIZE - 1);
+        if (error) throw error;
+        scans.push(...(data ?? []));
+        if ((data ?? []).length < SCAN_PAGE_SIZE) break;
+      }
+
+      const observations = ownObservations(scans, timezone);
+      return json({
+        scope: 'self',
+        asOf,
+        forecast: forecastRisk(observations, asOf),
+        backtest: backtestRisk(observations, asOf),
+      });
+    }
+
+    // ---- 3b. Team history: the model only sees protected daily cells, so it adds no disclosure ----
+    const options = privacyOptionsFromEnv();
+    const range = snapRange(from, now.toISOString(), 'day', timezone);
+    const scope = `${organizationId}|${teamId ?? 'all'}`;
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const { data, error } = await admin.rpc('hr_stress_buckets', {
+      _user_id: user.id,
+      _organization_id: organizationId,
+      _team_id: teamId ?? null,
+      _from: range.from,
+      _to: range.to,
+      _grouping: 'day',
+      _timezone: timezone,
+      _max_scans_per_member: options.maxScansPerMember,
+      _after: null,
+      _limit: HISTORY_DAYS + 2,
+    });
+    if (error) {
+      if (error.code === '42501') throw new RequestError('You are not allowed to view this team', 403);
+      if (error.code === '22023') throw new RequestError(error.message, 400);
+      throw error;
+    }
+
+    const observations: DailyObservation[] = ((data ?? []) as BucketRow[]).map((row) => {
+      const cell = protectCell(cellFromRow(row, row.member_count), options, cellKey(scope, 'day', row.bucket, range));
+      return {
+        date: row.bucket,
+        highShare: cell.percentages.high === null ? null : cell.percentages.high / 100,
+        weight: cell.scanCount ?? 1,
+        avgRmssd: cell.avgRmssd,
+      };
+    });
+
+    return json({
+      scope: 'team',
+      asOf,
+      k: options.k,
+      epsilon: options.epsilon,
+      forecast: forecastRisk(observations, asOf),
+      backtest: backtestRisk(observations, asOf),
+    });
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error('Stress forecast error:', error);
+    return json({ error: 'Could not compute the forecast' }, 500);
+  }
+});
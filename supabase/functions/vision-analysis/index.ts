@@ -0,0 +1,245 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callLLM, LLMError } from "../_shared/llm.ts";
+import { visionAnalysisSchema, visionReportSchema, type VisionReport } from "../_shared/validations.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+// Analyses per user in a rolling 24h window
+const DAILY_QUOTA = Number(Deno.env.get('VISION_DAILY_QUOTA') ?? '5');
+// An analysis is linked to the caller's scan when the scan was taken within this window
+const SCAN_LINK_WINDOW_MS = 30 * 60 * 1000;
+
+const FRAME_INTERVAL_SECONDS = 6;
+
+const PROMPTS = {
+  pt: "Analise a evolução facial ao longo de 1 minuto nestes frames capturados a cada 6 segundos (o frame N foi capturado em N*6 segundos). Para cada frame, dê uma pontuação de fadiga de 0 a 100 e um rótulo curto de expressão. Depois, classifique o nível de estresse geral (low, moderate ou high), sua confiança de 0 a 1, um resumo da progressão do estado físico e emocional e até 5 recomendações. Textos em português brasileiro. Responda apenas com o JSON do schema.",
+  en: "Analyze the facial evolution over 1 minute in these frames captured every 6 seconds (frame N was captured at N*6 seconds). For each frame give a fatigue score from 0 to 100 and a short expression label. Then classify the overall stress level (low, moderate or high), your confidence from 0 to 1, a summary of the progression of physical and emotional state, and up to 5 recommendations. Texts in English. Respond only with JSON matching the schema.",
+};
+
+// Structured output schema (mirrors visionReportSchema in ../_shared/validations.ts)
+const REPORT_SCHEMA = {
+  type: 'object',
+  properties: {
+    frames: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer' },
+          secondsFromStart: { type: 'number' },
+          fatigueScore: { type: 'number' },
+          expression: { type: 'string' },
+          notes: { type: 'string' },
+        },
+        required: ['index', 'secondsFromStart', 'fatigueScore', 'expression'],
+      },
+    },
+    overallStressLevel: { type: 'string', enum: ['low', 'moderate', 'high'] },
+    confidence: { type: 'number' },
+    summary: { type: 'string' },
+    recommendations: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['frames', 'overallStressLevel', 'confidence', 'summary', 'recommendations'],
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Heuristic report used when the model quota is exhausted (429)
+const fallbackReport = (frames: string[]): VisionReport => {
+  const avgSize = frames.reduce((sum, f) => sum + f.length, 0) / frames.length;
+  const moderate = avgSize > 50000;
+
+  return {
+    frames: frames.map((_, index) => ({
+      index,
+      secondsFromStart: index * FRAME_INTERVAL_SECONDS,
+      fatigueScore: moderate ? 45 : 25,
+      expression: 'stable',
+    })),
+    overallStressLevel: moderate ? 'moderate' : 'low',
+    confidence: 0.2,
+    summary: 'Heuristic estimate (fallback mode): expression stable over time, apparent tension low to moderate. The full AI analysis is temporarily unavailable.',
+    recommendations: [
+      moderate
+        ? 'Regular 5-10 minute breaks every hour are recommended.'
+        : 'Continue your balanced work rhythm.',
+    ],
+  };
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // ---- 1. Authenticate the caller ----
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return json({ error: 'Missing authorization header' }, 401);
+  }
+
+  const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const logRequest = async (status: 'completed' | 'fallback' | 'error', frameCount: number, latencyMs?: number) => {
+    const { error } = await admin.from('vision_analysis_requests').insert({
+      user_id: user.id,
+      status,
+      frame_count: frameCount,
+      latency_ms: latencyMs ?? null,
+    });
+    if (error) console.error('Error logging vision request:', error);
+  };
+
+  // Saved here rather than by the client, so only validated reports and the caller's own scans are stored
+  const saveAnalysis = async (report: VisionReport, language: 'pt' | 'en', scanId: string | null, isFallback: boolean) => {
+    const { data, error } = await admin
+      .from('vision_analyses')
+      .insert({
+        user_id: user.id,
+        scan_id: scanId,
+        language,
+        overall_stress_level: report.overallStressLevel,
+        confidence: report.confidence,
+        report,
+        is_fallback: isFallback,
+      })
+      .select('id')
+      .single();
+    if (error) {
+      console.error('Error saving vision analysis:', error);
+      return null;
+    }
+    return data.id as string;
+  };
+
+  try {
+    // ---- 2. Validate payload ----
+    const parsed = visionAnalysisSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return json({ error: parsed.error.issues[0]?.message ?? 'Invalid request' }, 400);
+    }
+    const { frames, language: lang, scanId } = parsed.data;
+
+    // The scan must be the caller's own; older scans are not linked
+    let linkedScanId: string | null = null;
+    if (scanId) {
+      const { data: scan, error: scanError } = await admin
+        .from('stress_scans')
+        .select('id, created_at')
+        .eq('id', scanId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (scanError) throw scanError;
+      if (!scan) {
+        return json({ error: 'Scan not found' }, 404);
+      }
+      if (Date.now() - new Date(scan.created_at).getTime() <= SCAN_LINK_WINDOW_MS) {
+        linkedScanId = scan.id;
+      }
+    }
+
+    // ---- 3. Enforce per-user quota ----
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const { count, error: countError } = await admin
+      .from('vision_analysis_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .neq('status', 'error')
+      .gte('created_at', since);
+
+    if (countError) throw countError;
+
+    const used = count ?? 0;
+    if (used >= DAILY_QUOTA) {
+      return json({
+        error: 'quota_exceeded',
+        message: `Daily limit of ${DAILY_QUOTA} visual analyses reached. Please try again tomorrow.`,
+        quota: { used, limit: DAILY_QUOTA },
+      });
+    }
+
+    // ---- 4. Call the vision model server-side ----
+    let text: string;
+    let latencyMs: number;
+    try {
+      const result = await callLLM('vision', {
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: PROMPTS[lang] },
+            ...frames.map((frame) => ({ type: 'image' as const, mimeType: 'image/jpeg', data: frame })),
+          ],
+        }],
+        jsonSchema: REPORT_SCHEMA,
+        thinking: 'high',
+        highResolutionImages: true,
+      }, { userId: user.id });
+      text = result.text;
+      latencyMs = result.latencyMs;
+    } catch (error) {
+      if (error instanceof LLMError && error.status === 429) {
+        console.warn('Vision model quota exceeded, returning heuristic fallback');
+        await logRequest('fallback', frames.length);
+        const report = fallbackReport(frames);
+        return json({
+          report,
+          fallback: true,
+          analysisId: await saveAnalysis(report, lang, linkedScanId, true),
+          quota: { used: used + 1, limit: DAILY_QUOTA },
+        });
+      }
+      console.error('Vision model error:', error);
+      await logRequest('error', frames.length);
+      return json({ error: 'Vision model error. Please try again later.' }, 502);
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      console.error('Vision model returned non-JSON output:', text.substring(0, 200));
+      await logRequest('error', frames.length, latencyMs);
+      return json({ error: 'Vision model returned an invalid report' }, 502);
+    }
+
+    const report = visionReportSchema.safeParse(raw);
+    if (!report.success) {
+      console.error('Vision model report failed validation:', report.error.flatten());
+      await logRequest('error', frames.length, latencyMs);
+      return json({ error: 'Vision model returned an invalid report' }, 502);
+    }
+
+    await logRequest('completed', frames.length, latencyMs);
+
+    // ---- 5. Save and respond ----
+    return json({
+      report: report.data,
+      fallback: false,
+      analysisId: await saveAnalysis(report.data, lang, linkedScanId, false),
+      quota: { used: used + 1, limit: DAILY_QUOTA },
+    });
+  } catch (error) {
+    console.error('Vision analysis error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Vision analysis failed' }, 500);
+  }
+});
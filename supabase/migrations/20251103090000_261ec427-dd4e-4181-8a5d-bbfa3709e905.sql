@@ -0,0 +1,16 @@
+-- Store full rPPG HRV metrics on each scan
+ALTER TABLE public.stress_scans
+  ADD COLUMN heart_rate NUMERIC,
+  ADD COLUMN sdnn NUMERIC,
+  ADD COLUMN rmssd NUMERIC,
+  ADD COLUMN pnn50 NUMERIC,
+  ADD COLUMN lf_power NUMERIC,
+  ADD COLUMN hf_power NUMERIC,
+  ADD COLUMN lf_hf_ratio NUMERIC;
+
+-- Scans recorded before this migration stored SDNN in hrv_value
+UPDATE public.stress_scans
+SET sdnn = hrv_value
+WHERE hrv_value IS NOT NULL;
+
+COMMENT ON COLUMN public.stress_scans.hrv_value IS 'Legacy HRV value. Mirrors rmssd for new scans; older rows held SDNN (copied to sdnn).';
@@ -0,0 +1,8 @@
+-- Per-scan quality model: low-quality scans are kept for the user but flagged
+ALTER TABLE public.stress_scans
+  ADD COLUMN quality_score NUMERIC,
+  ADD COLUMN quality_metrics JSONB,
+  ADD COLUMN is_valid BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.stress_scans.quality_score IS 'Scan quality 0-1 (face presence, landmark confidence, brightness, motion, rPPG SQI). NULL for scans recorded before quality scoring.';
+COMMENT ON COLUMN public.stress_scans.is_valid IS 'False when the scan fell below the quality threshold; invalid scans are excluded from streaks and HR aggregates.';
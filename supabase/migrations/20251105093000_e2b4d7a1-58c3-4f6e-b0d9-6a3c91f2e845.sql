@@ -0,0 +1,14 @@
+-- Continuous stress score from a versioned stress model
+ALTER TABLE public.stress_scans
+  ADD COLUMN stress_score NUMERIC,
+  ADD COLUMN stress_confidence NUMERIC,
+  ADD COLUMN model_id TEXT,
+  ADD COLUMN blink_duration_ms NUMERIC;
+
+-- Scans recorded before this migration were classified by the blink-rate bands
+UPDATE public.stress_scans
+SET model_id = 'rules-v1'
+WHERE model_id IS NULL AND blink_rate > 0;
+
+COMMENT ON COLUMN public.stress_scans.stress_score IS 'Stress score 0-100 from the model identified by model_id.';
+COMMENT ON COLUMN public.stress_scans.model_id IS 'Versioned stress model id (e.g. rules-v1, multimodal-v1). Only compare scores produced by the same model.';
@@ -0,0 +1,19 @@
+-- Usage log for the vision-analysis edge function (per-user quotas)
+CREATE TABLE IF NOT EXISTS public.vision_analysis_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'fallback', 'error')),
+  frame_count INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.vision_analysis_requests ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the edge function with the service role; users can only read their own usage
+CREATE POLICY "Users can view own vision requests"
+  ON public.vision_analysis_requests FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_vision_analysis_requests_user_created
+  ON public.vision_analysis_requests (user_id, created_at DESC);
@@ -0,0 +1,25 @@
+-- Structured Gemini temporal vision reports, optionally linked to the stress scan they accompany
+CREATE TABLE IF NOT EXISTS public.vision_analyses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  scan_id UUID REFERENCES public.stress_scans(id) ON DELETE SET NULL,
+  language TEXT NOT NULL DEFAULT 'pt' CHECK (language IN ('pt', 'en')),
+  overall_stress_level TEXT NOT NULL CHECK (overall_stress_level IN ('low', 'moderate', 'high')),
+  confidence NUMERIC NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+  report JSONB NOT NULL,
+  is_fallback BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.vision_analyses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own vision analyses"
+  ON public.vision_analyses FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own vision analyses"
+  ON public.vision_analyses FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_vision_analyses_user_created
+  ON public.vision_analyses (user_id, created_at DESC);
@@ -0,0 +1,25 @@
+-- Per-call accounting for the shared LLM provider layer (edge functions write with the service role)
+CREATE TABLE IF NOT EXISTS public.llm_calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('success', 'error')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  latency_ms INTEGER NOT NULL,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  total_tokens INTEGER,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.llm_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own llm calls"
+  ON public.llm_calls FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_llm_calls_feature_created
+  ON public.llm_calls (feature, created_at DESC);
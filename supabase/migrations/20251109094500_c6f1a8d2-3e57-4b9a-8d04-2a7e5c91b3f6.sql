@@ -0,0 +1,25 @@
+-- NeuroCoach conversations are now written only by the neuro-coach edge function (service role)
+DROP POLICY IF EXISTS "Users can insert own conversations" ON public.coach_conversations;
+DROP POLICY IF EXISTS "Users can update own conversations" ON public.coach_conversations;
+
+-- Appends turns to a conversation in a single statement, so concurrent requests never overwrite each other.
+-- Returns NULL when the conversation does not exist or belongs to another user.
+CREATE OR REPLACE FUNCTION public.append_coach_messages(
+  _conversation_id UUID,
+  _user_id UUID,
+  _messages JSONB
+)
+RETURNS UUID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.coach_conversations
+  SET messages = messages || _messages,
+      updated_at = now()
+  WHERE id = _conversation_id
+    AND user_id = _user_id
+  RETURNING id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.append_coach_messages(UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.append_coach_messages(UUID, UUID, JSONB) TO service_role;
@@ -0,0 +1,10 @@
+-- Coaching persona chosen by the user (NULL until they pick one)
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS coach_persona TEXT
+    CHECK (coach_persona IN ('supportive', 'brutal', 'clinical', 'manager'));
+
+-- Prompt template each conversation was started with, for auditability.
+-- Existing conversations all used the original "Brutal Neurotruth" prompt (brutal v1).
+ALTER TABLE public.coach_conversations
+  ADD COLUMN IF NOT EXISTS persona TEXT NOT NULL DEFAULT 'brutal',
+  ADD COLUMN IF NOT EXISTS persona_version INTEGER NOT NULL DEFAULT 1;
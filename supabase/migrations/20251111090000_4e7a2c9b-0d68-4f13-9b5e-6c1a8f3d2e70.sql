@@ -0,0 +1,18 @@
+-- Anonymised NeuroCoach safety events (written by the neuro-coach edge function with the service role).
+-- No user id or message text is stored: subject_hash is a salted SHA-256 of the user id.
+CREATE TABLE IF NOT EXISTS public.coach_safety_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_hash TEXT NOT NULL,
+  stage TEXT NOT NULL CHECK (stage IN ('input', 'output')),
+  category TEXT NOT NULL CHECK (category IN ('self_harm', 'crisis', 'severe_burnout')),
+  source TEXT NOT NULL CHECK (source IN ('rules', 'model')),
+  persona TEXT NOT NULL,
+  language TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- RLS with no policies: only the service role can read or write
+ALTER TABLE public.coach_safety_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_coach_safety_events_created
+  ON public.coach_safety_events (created_at DESC);
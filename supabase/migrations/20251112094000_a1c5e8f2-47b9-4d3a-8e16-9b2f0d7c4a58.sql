@@ -0,0 +1,27 @@
+-- Action items extracted from NeuroCoach replies (inserted by the neuro-coach edge function)
+CREATE TABLE IF NOT EXISTS public.coach_action_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.coach_conversations(id) ON DELETE CASCADE,
+  task TEXT NOT NULL,
+  deadline DATE,
+  metric TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'done')),
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.coach_action_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own action items"
+  ON public.coach_action_items FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users only tick items off; content is written by the coach
+CREATE POLICY "Users can update own action items"
+  ON public.coach_action_items FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_coach_action_items_user_status
+  ON public.coach_action_items (user_id, status, created_at DESC);
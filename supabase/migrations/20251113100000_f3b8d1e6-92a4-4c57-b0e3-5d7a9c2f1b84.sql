@@ -0,0 +1,34 @@
+-- Conversation titles for the NeuroCoach history browser
+ALTER TABLE public.coach_conversations
+  ADD COLUMN IF NOT EXISTS title TEXT CHECK (char_length(title) <= 100);
+
+-- Existing conversations are titled after their first user message
+UPDATE public.coach_conversations c
+SET title = left(first_message.content, 60)
+FROM (
+  SELECT id,
+    (SELECT elem->>'content'
+       FROM jsonb_array_elements(messages) AS elem
+      WHERE elem->>'role' = 'user'
+      LIMIT 1) AS content
+  FROM public.coach_conversations
+) first_message
+WHERE c.id = first_message.id
+  AND c.title IS NULL
+  AND first_message.content IS NOT NULL;
+
+-- Users may rename and delete their conversations; messages stay writable only by the edge function
+REVOKE UPDATE ON public.coach_conversations FROM anon, authenticated;
+GRANT UPDATE (title) ON public.coach_conversations TO authenticated;
+
+CREATE POLICY "Users can rename own conversations"
+  ON public.coach_conversations FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own conversations"
+  ON public.coach_conversations FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_coach_conversations_user_updated
+  ON public.coach_conversations (user_id, updated_at DESC);
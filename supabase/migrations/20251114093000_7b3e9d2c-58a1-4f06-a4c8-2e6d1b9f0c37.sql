@@ -0,0 +1,33 @@
+-- Long-term NeuroCoach memory (summarised by the neuro-coach edge function, editable by the user)
+CREATE TABLE IF NOT EXISTS public.coach_memories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.coach_conversations(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('goal', 'stressor', 'preference', 'helpful_intervention')),
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 300),
+  source TEXT NOT NULL DEFAULT 'user' CHECK (source IN ('conversation', 'feedback', 'user')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.coach_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own memories"
+  ON public.coach_memories FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own memories"
+  ON public.coach_memories FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND source = 'user');
+
+CREATE POLICY "Users can update own memories"
+  ON public.coach_memories FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own memories"
+  ON public.coach_memories FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_coach_memories_user_updated
+  ON public.coach_memories (user_id, updated_at DESC);
@@ -0,0 +1,284 @@
+-- Organizations, teams and roles for the HR Dashboard.
+-- HR admins (whole organization) and managers (their own team) read team aggregates through
+-- team_stress_summary(); stress_scans keeps its own-rows-only policies, so individual scans are never shared.
+CREATE TYPE public.org_role AS ENUM ('employee', 'manager', 'hr_admin');
+
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (organization_id, name),
+  -- Target of the composite keys below, so a member's team always belongs to the same organization
+  UNIQUE (id, organization_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id UUID,
+  role public.org_role NOT NULL DEFAULT 'employee',
+  email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (organization_id, user_id),
+  FOREIGN KEY (team_id, organization_id) REFERENCES public.teams(id, organization_id) ON DELETE SET NULL (team_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.organization_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  team_id UUID,
+  email TEXT NOT NULL CHECK (email ~ '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$'),
+  role public.org_role NOT NULL DEFAULT 'employee',
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '7 days',
+  accepted_at TIMESTAMPTZ,
+  FOREIGN KEY (team_id, organization_id) REFERENCES public.teams(id, organization_id) ON DELETE SET NULL (team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user ON public.organization_members (user_id);
+CREATE INDEX IF NOT EXISTS idx_organization_members_team ON public.organization_members (team_id);
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_email ON public.organization_invitations (lower(email));
+
+-- Role checks used by the policies; SECURITY DEFINER so they do not recurse into organization_members' own RLS
+CREATE OR REPLACE FUNCTION public.is_org_member(_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = _organization_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_org_role(_organization_id UUID, _role public.org_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = _organization_id AND user_id = auth.uid() AND role = _role
+  );
+$$;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Organizations are created through create_organization(), which also makes the creator HR admin
+CREATE POLICY "Members can view their organizations"
+  ON public.organizations FOR SELECT
+  USING (public.is_org_member(id));
+
+CREATE POLICY "HR admins can update their organizations"
+  ON public.organizations FOR UPDATE
+  USING (public.has_org_role(id, 'hr_admin'))
+  WITH CHECK (public.has_org_role(id, 'hr_admin'));
+
+CREATE POLICY "Members can view teams"
+  ON public.teams FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "HR admins can manage teams"
+  ON public.teams FOR ALL
+  USING (public.has_org_role(organization_id, 'hr_admin'))
+  WITH CHECK (public.has_org_role(organization_id, 'hr_admin'));
+
+-- Memberships are created only by create_organization() and accept_organization_invitation()
+CREATE POLICY "Users can view own memberships"
+  ON public.organization_members FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "HR admins can view organization members"
+  ON public.organization_members FOR SELECT
+  USING (public.has_org_role(organization_id, 'hr_admin'));
+
+CREATE POLICY "HR admins can update organization members"
+  ON public.organization_members FOR UPDATE
+  USING (public.has_org_role(organization_id, 'hr_admin'))
+  WITH CHECK (public.has_org_role(organization_id, 'hr_admin'));
+
+CREATE POLICY "HR admins can remove organization members"
+  ON public.organization_members FOR DELETE
+  USING (public.has_org_role(organization_id, 'hr_admin'));
+
+CREATE POLICY "Users can leave organizations"
+  ON public.organization_members FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "HR admins can manage invitations"
+  ON public.organization_invitations FOR ALL
+  USING (public.has_org_role(organization_id, 'hr_admin'))
+  WITH CHECK (public.has_org_role(organization_id, 'hr_admin'));
+
+CREATE POLICY "Users can view invitations sent to their email"
+  ON public.organization_invitations FOR SELECT
+  USING (accepted_at IS NULL AND lower(email) = lower(auth.jwt() ->> 'email'));
+
+CREATE OR REPLACE FUNCTION public.create_organization(_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (trim(_name), auth.uid())
+  RETURNING id INTO _organization_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role, email)
+  VALUES (_organization_id, auth.uid(), 'hr_admin', auth.jwt() ->> 'email');
+
+  RETURN _organization_id;
+END;
+$$;
+
+-- The invitation must be addressed to the signed-in user's email and still be valid
+CREATE OR REPLACE FUNCTION public.accept_organization_invitation(_token UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.organization_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO _invitation
+  FROM public.organization_invitations
+  WHERE token = _token
+    AND accepted_at IS NULL
+    AND expires_at > now()
+    AND lower(email) = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found or expired' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, team_id, role, email)
+  VALUES (_invitation.organization_id, auth.uid(), _invitation.team_id, _invitation.role, _invitation.email)
+  ON CONFLICT (organization_id, user_id)
+  DO UPDATE SET team_id = EXCLUDED.team_id, role = EXCLUDED.role;
+
+  UPDATE public.organization_invitations SET accepted_at = now() WHERE id = _invitation.id;
+
+  RETURN _invitation.organization_id;
+END;
+$$;
+
+-- Stress distribution for one team (or the whole organization when _team_id is NULL).
+-- HR admins can read any team of their organization, managers only their own team.
+-- Groups with fewer than 3 members who scanned are suppressed so no individual can be singled out.
+CREATE OR REPLACE FUNCTION public.team_stress_summary(
+  _organization_id UUID,
+  _team_id UUID DEFAULT NULL,
+  _days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+  member_count INTEGER,
+  reporting_members INTEGER,
+  scan_count INTEGER,
+  low_count INTEGER,
+  moderate_count INTEGER,
+  high_count INTEGER,
+  avg_rmssd NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT (
+    public.has_org_role(_organization_id, 'hr_admin')
+    OR (
+      _team_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.organization_members m
+        WHERE m.organization_id = _organization_id
+          AND m.user_id = auth.uid()
+          AND m.role = 'manager'
+          AND m.team_id = _team_id
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this team' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT m.user_id
+    FROM public.organization_members m
+    WHERE m.organization_id = _organization_id
+      AND (_team_id IS NULL OR m.team_id = _team_id)
+  ),
+  scans AS (
+    SELECT s.user_id, s.stress_level, s.rmssd
+    FROM public.stress_scans s
+    JOIN members ON members.user_id = s.user_id
+    WHERE s.is_valid
+      AND s.created_at >= now() - make_interval(days => LEAST(GREATEST(_days, 1), 90))
+  ),
+  totals AS (
+    SELECT
+      (SELECT count(*) FROM members)::INTEGER AS member_count,
+      count(DISTINCT scans.user_id)::INTEGER AS reporting_members,
+      count(*)::INTEGER AS scan_count,
+      (count(*) FILTER (WHERE scans.stress_level = 'low'))::INTEGER AS low_count,
+      (count(*) FILTER (WHERE scans.stress_level = 'moderate'))::INTEGER AS moderate_count,
+      (count(*) FILTER (WHERE scans.stress_level = 'high'))::INTEGER AS high_count,
+      round(avg(scans.rmssd)::NUMERIC, 1) AS avg_rmssd
+    FROM scans
+  )
+  SELECT
+    t.member_count,
+    t.reporting_members,
+    CASE WHEN t.reporting_members >= 3 THEN t.scan_count END,
+    CASE WHEN t.reporting_members >= 3 THEN t.low_count END,
+    CASE WHEN t.reporting_members >= 3 THEN t.moderate_count END,
+    CASE WHEN t.reporting_members >= 3 THEN t.high_count END,
+    CASE WHEN t.reporting_members >= 3 THEN t.avg_rmssd END
+  FROM totals t;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_organization(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.accept_organization_invitation(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.team_stress_summary(UUID, UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_organization(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_organization_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.team_stress_summary(UUID, UUID, INTEGER) TO authenticated;
+
+-- Lets an invitee see which organization invited them before accepting
+CREATE POLICY "Invitees can view the inviting organization"
+  ON public.organizations FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.organization_invitations i
+      WHERE i.organization_id = organizations.id
+        AND i.accepted_at IS NULL
+        AND lower(i.email) = lower(auth.jwt() ->> 'email')
+    )
+  );
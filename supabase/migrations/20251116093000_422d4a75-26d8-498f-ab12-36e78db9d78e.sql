@@ -0,0 +1,89 @@
+-- HR aggregates now go through the hr-aggregates edge function, which applies k-anonymity suppression
+-- and optional differential-privacy noise. The raw per-cell counts are only available to the service role.
+DROP FUNCTION IF EXISTS public.team_stress_summary(UUID, UUID, INTEGER);
+
+-- Counts for one cell (a team, or the whole organization when _team_id is NULL) with distinct members per level.
+-- Each member contributes at most _max_scans_per_member recent scans and one clipped RMSSD mean,
+-- which bounds the sensitivity the noise is calibrated to.
+CREATE OR REPLACE FUNCTION public.hr_stress_cell(
+  _user_id UUID,
+  _organization_id UUID,
+  _team_id UUID DEFAULT NULL,
+  _days INTEGER DEFAULT 7,
+  _max_scans_per_member INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  member_count INTEGER,
+  reporting_members INTEGER,
+  scan_count INTEGER,
+  low_count INTEGER,
+  moderate_count INTEGER,
+  high_count INTEGER,
+  low_members INTEGER,
+  moderate_members INTEGER,
+  high_members INTEGER,
+  rmssd_members INTEGER,
+  avg_rmssd NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  -- HR admins can read any team of their organization, managers only their own team
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.organization_id = _organization_id
+      AND m.user_id = _user_id
+      AND (m.role = 'hr_admin' OR (m.role = 'manager' AND _team_id IS NOT NULL AND m.team_id = _team_id))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this team' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT m.user_id
+    FROM public.organization_members m
+    WHERE m.organization_id = _organization_id
+      AND (_team_id IS NULL OR m.team_id = _team_id)
+  ),
+  ranked AS (
+    SELECT
+      s.user_id,
+      s.stress_level,
+      LEAST(GREATEST(s.rmssd, 0), 200) AS rmssd,
+      row_number() OVER (PARTITION BY s.user_id ORDER BY s.created_at DESC) AS position
+    FROM public.stress_scans s
+    JOIN members ON members.user_id = s.user_id
+    WHERE s.is_valid
+      AND s.created_at >= now() - make_interval(days => LEAST(GREATEST(_days, 1), 90))
+  ),
+  scans AS (
+    SELECT * FROM ranked WHERE position <= GREATEST(_max_scans_per_member, 1)
+  ),
+  member_rmssd AS (
+    SELECT user_id, avg(rmssd) AS rmssd
+    FROM scans
+    WHERE rmssd IS NOT NULL
+    GROUP BY user_id
+  )
+  SELECT
+    (SELECT count(*) FROM members)::INTEGER,
+    count(DISTINCT scans.user_id)::INTEGER,
+    count(*)::INTEGER,
+    (count(*) FILTER (WHERE scans.stress_level = 'low'))::INTEGER,
+    (count(*) FILTER (WHERE scans.stress_level = 'moderate'))::INTEGER,
+    (count(*) FILTER (WHERE scans.stress_level = 'high'))::INTEGER,
+    (count(DISTINCT scans.user_id) FILTER (WHERE scans.stress_level = 'low'))::INTEGER,
+    (count(DISTINCT scans.user_id) FILTER (WHERE scans.stress_level = 'moderate'))::INTEGER,
+    (count(DISTINCT scans.user_id) FILTER (WHERE scans.stress_level = 'high'))::INTEGER,
+    (SELECT count(*) FROM member_rmssd)::INTEGER,
+    (SELECT avg(member_rmssd.rmssd)::NUMERIC FROM member_rmssd)
+  FROM scans;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hr_stress_cell(UUID, UUID, UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hr_stress_cell(UUID, UUID, UUID, INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,128 @@
+-- Time-series HR aggregates: the single-cell function is replaced by one that groups a date range into
+-- buckets (whole range, day, week, or weekday x hour), paginated by bucket key. Still service-role only.
+DROP FUNCTION IF EXISTS public.hr_stress_cell(UUID, UUID, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.hr_stress_buckets(
+  _user_id UUID,
+  _organization_id UUID,
+  _team_id UUID,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _grouping TEXT DEFAULT 'total',
+  _timezone TEXT DEFAULT 'UTC',
+  _max_scans_per_member INTEGER DEFAULT 10,
+  _after TEXT DEFAULT NULL,
+  _limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  bucket TEXT,
+  member_count INTEGER,
+  reporting_members INTEGER,
+  scan_count INTEGER,
+  low_count INTEGER,
+  moderate_count INTEGER,
+  high_count INTEGER,
+  low_members INTEGER,
+  moderate_members INTEGER,
+  high_members INTEGER,
+  rmssd_members INTEGER,
+  avg_rmssd NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  -- HR admins can read any team of their organization, managers only their own team
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.organization_id = _organization_id
+      AND m.user_id = _user_id
+      AND (m.role = 'hr_admin' OR (m.role = 'manager' AND _team_id IS NOT NULL AND m.team_id = _team_id))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this team' USING ERRCODE = '42501';
+  END IF;
+
+  IF _grouping NOT IN ('total', 'day', 'week', 'weekday_hour') THEN
+    RAISE EXCEPTION 'Unknown grouping %', _grouping USING ERRCODE = '22023';
+  END IF;
+  IF _to <= _from OR _to - _from > INTERVAL '366 days' THEN
+    RAISE EXCEPTION 'The range must be between 1 and 366 days' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT m.user_id
+    FROM public.organization_members m
+    WHERE m.organization_id = _organization_id
+      AND (_team_id IS NULL OR m.team_id = _team_id)
+  ),
+  keyed AS (
+    SELECT
+      s.user_id,
+      s.stress_level,
+      LEAST(GREATEST(s.rmssd, 0), 200) AS rmssd,
+      s.created_at,
+      CASE _grouping
+        WHEN 'total' THEN 'total'
+        WHEN 'day' THEN to_char(s.created_at AT TIME ZONE _timezone, 'YYYY-MM-DD')
+        WHEN 'week' THEN to_char(date_trunc('week', s.created_at AT TIME ZONE _timezone), 'YYYY-MM-DD')
+        -- ISO weekday (1 = Monday) and hour, zero-padded so keys sort naturally
+        ELSE to_char(s.created_at AT TIME ZONE _timezone, 'ID-HH24')
+      END AS bucket
+    FROM public.stress_scans s
+    JOIN members ON members.user_id = s.user_id
+    WHERE s.is_valid
+      AND s.created_at >= _from
+      AND s.created_at < _to
+  ),
+  -- Each member contributes at most _max_scans_per_member scans per bucket
+  scans AS (
+    SELECT *
+    FROM (
+      SELECT keyed.*, row_number() OVER (PARTITION BY keyed.bucket, keyed.user_id ORDER BY keyed.created_at DESC) AS position
+      FROM keyed
+      WHERE _after IS NULL OR keyed.bucket > _after
+    ) ranked
+    WHERE position <= GREATEST(_max_scans_per_member, 1)
+  ),
+  member_rmssd AS (
+    SELECT scans.bucket, scans.user_id, avg(scans.rmssd) AS rmssd
+    FROM scans
+    WHERE scans.rmssd IS NOT NULL
+    GROUP BY scans.bucket, scans.user_id
+  ),
+  rmssd_by_bucket AS (
+    SELECT member_rmssd.bucket, count(*)::INTEGER AS members, avg(member_rmssd.rmssd)::NUMERIC AS average
+    FROM member_rmssd
+    GROUP BY member_rmssd.bucket
+  )
+  SELECT
+    scans.bucket,
+    (SELECT count(*) FROM members)::INTEGER,
+    count(DISTINCT scans.user_id)::INTEGER,
+    count(*)::INTEGER,
+    (count(*) FILTER (WHERE scans.stress_level = 'low'))::INTEGER,
+    (count(*) FILTER (WHERE scans.stress_level = 'moderate'))::INTEGER,
+    (count(*) FILTER (WHERE scans.stress_level = 'high'))::INTEGER,
+    (count(DISTINCT scans.user_id) FILTER (WHERE scans.stress_level = 'low'))::INTEGER,
+    (count(DISTINCT scans.user_id) FILTER (WHERE scans.stress_level = 'moderate'))::INTEGER,
+    (count(DISTINCT scans.user_id) FILTER (WHERE scans.stress_level = 'high'))::INTEGER,
+    COALESCE(max(rmssd_by_bucket.members), 0)::INTEGER,
+    max(rmssd_by_bucket.average)
+  FROM scans
+  LEFT JOIN rmssd_by_bucket ON rmssd_by_bucket.bucket = scans.bucket
+  GROUP BY scans.bucket
+  ORDER BY scans.bucket
+  LIMIT LEAST(GREATEST(_limit, 1), 500);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hr_stress_buckets(UUID, UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT, INTEGER, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hr_stress_buckets(UUID, UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT, INTEGER, TEXT, INTEGER) TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_stress_scans_user_created
+  ON public.stress_scans (user_id, created_at DESC)
+  WHERE is_valid;
@@ -0,0 +1,140 @@
+-- NR-1 psychosocial risk reports: completed meditations are recorded, interventions are counted per team,
+-- and generated reports are archived append-only with the SHA-256 of their canonical JSON.
+
+CREATE TABLE IF NOT EXISTS public.meditation_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL,
+  duration_seconds INTEGER NOT NULL CHECK (duration_seconds BETWEEN 0 AND 3600),
+  completed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.meditation_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own meditation sessions"
+  ON public.meditation_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own meditation sessions"
+  ON public.meditation_sessions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_meditation_sessions_user_started
+  ON public.meditation_sessions (user_id, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.compliance_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  generated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  period_from TIMESTAMPTZ NOT NULL,
+  period_to TIMESTAMPTZ NOT NULL,
+  report JSONB NOT NULL,
+  content_hash TEXT NOT NULL CHECK (content_hash ~ '^[0-9a-f]{64}$'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.compliance_reports ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the nr1-report edge function (service role); HR admins can read their organization's archive
+CREATE POLICY "HR admins can view compliance reports"
+  ON public.compliance_reports FOR SELECT
+  USING (public.has_org_role(organization_id, 'hr_admin'));
+
+-- Archived reports are evidence: they can never be edited
+CREATE OR REPLACE FUNCTION public.prevent_compliance_report_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Compliance reports are append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER compliance_reports_append_only
+  BEFORE UPDATE ON public.compliance_reports
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_compliance_report_update();
+
+CREATE INDEX IF NOT EXISTS idx_compliance_reports_org_created
+  ON public.compliance_reports (organization_id, created_at DESC);
+
+-- Interventions by a team (or the whole organization when _team_id is NULL) during a period.
+-- Returns raw counts plus the distinct people behind each, so the caller can apply k-anonymity.
+CREATE OR REPLACE FUNCTION public.hr_intervention_counts(
+  _user_id UUID,
+  _organization_id UUID,
+  _team_id UUID,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  member_count INTEGER,
+  meditation_sessions INTEGER,
+  meditation_members INTEGER,
+  coach_sessions INTEGER,
+  coach_members INTEGER,
+  action_items_created INTEGER,
+  action_items_completed INTEGER,
+  action_item_members INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.organization_id = _organization_id
+      AND m.user_id = _user_id
+      AND m.role = 'hr_admin'
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this organization' USING ERRCODE = '42501';
+  END IF;
+
+  IF _to <= _from OR _to - _from > INTERVAL '366 days' THEN
+    RAISE EXCEPTION 'The range must be between 1 and 366 days' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT m.user_id
+    FROM public.organization_members m
+    WHERE m.organization_id = _organization_id
+      AND (_team_id IS NULL OR m.team_id = _team_id)
+  ),
+  meditations AS (
+    SELECT s.user_id
+    FROM public.meditation_sessions s
+    JOIN members ON members.user_id = s.user_id
+    WHERE s.completed AND s.started_at >= _from AND s.started_at < _to
+  ),
+  coach AS (
+    SELECT c.user_id
+    FROM public.coach_conversations c
+    JOIN members ON members.user_id = c.user_id
+    WHERE c.created_at >= _from AND c.created_at < _to
+  ),
+  items AS (
+    SELECT i.user_id, i.created_at, i.status, i.completed_at
+    FROM public.coach_action_items i
+    JOIN members ON members.user_id = i.user_id
+    WHERE (i.created_at >= _from AND i.created_at < _to)
+       OR (i.completed_at >= _from AND i.completed_at < _to)
+  )
+  SELECT
+    (SELECT count(*) FROM members)::INTEGER,
+    (SELECT count(*) FROM meditations)::INTEGER,
+    (SELECT count(DISTINCT user_id) FROM meditations)::INTEGER,
+    (SELECT count(*) FROM coach)::INTEGER,
+    (SELECT count(DISTINCT user_id) FROM coach)::INTEGER,
+    (SELECT count(*) FROM items WHERE created_at >= _from AND created_at < _to)::INTEGER,
+    (SELECT count(*) FROM items WHERE status = 'done' AND completed_at >= _from AND completed_at < _to)::INTEGER,
+    (SELECT count(DISTINCT user_id) FROM items)::INTEGER;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hr_intervention_counts(UUID, UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hr_intervention_counts(UUID, UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO service_role;
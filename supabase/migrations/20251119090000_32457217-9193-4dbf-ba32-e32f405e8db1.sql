@@ -0,0 +1,4 @@
+-- HR admins may only move members between teams and change their role; user, organization, email and
+-- join date stay as written by create_organization() and accept_organization_invitation()
+REVOKE UPDATE ON public.organization_members FROM anon, authenticated;
+GRANT UPDATE (team_id, role) ON public.organization_members TO authenticated;
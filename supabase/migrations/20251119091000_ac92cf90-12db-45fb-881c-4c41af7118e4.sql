@@ -0,0 +1,3 @@
+-- Users only tick action items off: task, deadline, metric and conversation stay as written by the coach
+REVOKE UPDATE ON public.coach_action_items FROM anon, authenticated;
+GRANT UPDATE (status, completed_at) ON public.coach_action_items TO authenticated;
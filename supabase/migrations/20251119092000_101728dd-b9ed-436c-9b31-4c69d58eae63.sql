@@ -0,0 +1,24 @@
+-- Users may only edit what a memory says and its kind; source and ownership stay as written
+REVOKE UPDATE ON public.coach_memories FROM anon, authenticated;
+GRANT UPDATE (content, kind) ON public.coach_memories TO authenticated;
+
+-- A memory edited by the user becomes the user's own, so later summaries leave it untouched.
+-- Not SECURITY DEFINER: current_user is the caller's role ('authenticated' for app users,
+-- 'service_role' for the neuro-coach edge function).
+CREATE OR REPLACE FUNCTION public.touch_coach_memory()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    NEW.source := 'user';
+  END IF;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER coach_memories_touch
+  BEFORE UPDATE ON public.coach_memories
+  FOR EACH ROW EXECUTE FUNCTION public.touch_coach_memory();
@@ -0,0 +1,31 @@
+-- Archived compliance reports are evidence: they can no longer be deleted, and an organization with
+-- reports can no longer be deleted (its reports used to cascade away with it).
+ALTER TABLE public.compliance_reports
+  DROP CONSTRAINT IF EXISTS compliance_reports_organization_id_fkey,
+  ADD CONSTRAINT compliance_reports_organization_id_fkey
+    FOREIGN KEY (organization_id) REFERENCES public.organizations(id) ON DELETE RESTRICT;
+
+-- Blocks edits and deletes. The only change allowed is generated_by going to NULL when the author's
+-- account is deleted (ON DELETE SET NULL); the report JSON keeps who generated it.
+CREATE OR REPLACE FUNCTION public.prevent_compliance_report_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.generated_by IS NULL
+    AND (to_jsonb(NEW) - 'generated_by') = (to_jsonb(OLD) - 'generated_by') THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'Compliance reports are append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER compliance_reports_no_delete
+  BEFORE DELETE ON public.compliance_reports
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_compliance_report_update();
+
+CREATE TRIGGER compliance_reports_no_truncate
+  BEFORE TRUNCATE ON public.compliance_reports
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_compliance_report_update();
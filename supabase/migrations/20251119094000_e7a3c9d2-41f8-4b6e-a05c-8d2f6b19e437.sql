@@ -0,0 +1,3 @@
+-- Vision analyses are written only by the vision-analysis edge function (service role), which validates
+-- the report and links it only to the caller's own scan
+DROP POLICY IF EXISTS "Users can insert own vision analyses" ON public.vision_analyses;